@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArchiveRestore, DatabaseBackup, Loader2 } from "lucide-react";
+import type { Backup, Job } from "@shared/schema";
+
+interface BackupsResponse {
+  backups: Backup[];
+  schedule: { running: boolean; intervalHours: number; kept: number; downloading: boolean };
+}
+
+const TRIGGER_LABEL: Record<Backup["trigger"], string> = {
+  manual: "Manual",
+  scheduled: "Scheduled",
+  pre_restore: "Before restore",
+};
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// pg_dump backups of the host's Postgres, newest first, with a backup-now and
+// a restore action; `onStarted` receives the started job so its log can be
+// shown
+export function BackupsCard({
+  hostId,
+  hostName,
+  disabled,
+  onStarted,
+}: {
+  hostId?: string;
+  hostName?: string;
+  disabled?: boolean;
+  onStarted: (job: Job) => void;
+}) {
+  const { toast } = useToast();
+  const [restoreTarget, setRestoreTarget] = useState<Backup | null>(null);
+  const [confirmation, setConfirmation] = useState("");
+
+  const { data } = useQuery<BackupsResponse>({
+    queryKey: ["/api/backups", { hostId }],
+    enabled: Boolean(hostId),
+    refetchInterval: 30000,
+  });
+
+  const onJobStarted = (job: Job) => {
+    onStarted(job);
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+  };
+
+  const backupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/backups", { hostId });
+      return response.json() as Promise<{ job: Job }>;
+    },
+    onSuccess: (data) => onJobStarted(data.job),
+    onError: (error: Error) => {
+      toast({ title: "Backup Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (backup: Backup) => {
+      const response = await apiRequest("POST", `/api/backups/${backup.id}/restore`);
+      return response.json() as Promise<{ job: Job }>;
+    },
+    onSuccess: (data) => {
+      setRestoreTarget(null);
+      onJobStarted(data.job);
+    },
+    onError: (error: Error) => {
+      setRestoreTarget(null);
+      toast({ title: "Restore Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openRestore = (backup: Backup) => {
+    setConfirmation("");
+    setRestoreTarget(backup);
+  };
+
+  const backups = data?.backups ?? [];
+  const schedule = data?.schedule;
+  // Typing the host name guards against restoring over the wrong host
+  const confirmed = Boolean(hostName) && confirmation.trim() === hostName;
+
+  return (
+    <Card data-testid="card-backups">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <DatabaseBackup className="w-5 h-5" />
+              Backups
+            </CardTitle>
+            <CardDescription>
+              {schedule?.running
+                ? `pg_dump every ${schedule.intervalHours}h, newest ${schedule.kept} kept on the VPS`
+                : `Scheduled backups are off; newest ${schedule?.kept ?? 7} kept on the VPS`}
+              {schedule?.downloading ? " and copied to this server" : ""}
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => backupMutation.mutate()}
+            disabled={!hostId || disabled || backupMutation.isPending}
+            data-testid="button-backup-now"
+          >
+            {backupMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <DatabaseBackup className="w-4 h-4 mr-2" />
+            )}
+            Back up now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {backups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No backups yet</p>
+        ) : (
+          <div className="space-y-2">
+            {backups.map((backup) => (
+              <div
+                key={backup.id}
+                className="flex items-center justify-between gap-2 text-sm"
+                data-testid={`backup-${backup.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono truncate">{backup.name}</span>
+                    <Badge variant="outline">{TRIGGER_LABEL[backup.trigger]}</Badge>
+                    {backup.localPath && <Badge variant="secondary">Downloaded</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate" title={backup.localPath ?? undefined}>
+                    {new Date(backup.createdAt).toLocaleString()} · {formatSize(backup.sizeBytes)}
+                    {backup.restoredAt ? ` · restored ${new Date(backup.restoredAt).toLocaleString()}` : ""}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={disabled || restoreMutation.isPending}
+                  onClick={() => openRestore(backup)}
+                  data-testid={`button-restore-${backup.id}`}
+                >
+                  <ArchiveRestore className="w-4 h-4 mr-2" />
+                  Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={Boolean(restoreTarget)} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore {restoreTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everything in the database is replaced with this backup, including n8n workflows and credentials
+              changed since. The current data is backed up first, and n8n is stopped while the restore runs.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="restore-confirmation">
+              Type <span className="font-mono">{hostName}</span> to confirm
+            </Label>
+            <Input
+              id="restore-confirmation"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+              data-testid="input-restore-confirmation"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoreTarget && restoreMutation.mutate(restoreTarget)}
+              disabled={!confirmed}
+              data-testid="button-confirm-restore"
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,440 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Megaphone, Pencil, Plus, Send, Trash2 } from "lucide-react";
+import type { NotificationChannel, NotificationChannelConfig, NotificationDelivery } from "@shared/schema";
+
+type ChannelType = NotificationChannelConfig["type"];
+
+const CHANNEL_TYPES: Record<ChannelType, { label: string; targetLabel: string; placeholder: string }> = {
+  ntfy: { label: "ntfy", targetLabel: "Topic", placeholder: "strijps" },
+  email: { label: "Email", targetLabel: "Recipient", placeholder: "name@example.com" },
+  telegram: { label: "Telegram", targetLabel: "Chat ID", placeholder: "123456789" },
+  webhook: { label: "Webhook", targetLabel: "URL", placeholder: "https://example.com/hooks/rentals" },
+};
+
+const TEMPLATE_FIELDS =
+  "event, title, price, priceText, previousPrice, address, surface, rooms, furnished, details, change, rules, owners, source, url, imageUrl";
+
+interface ChannelDraft {
+  name: string;
+  type: ChannelType;
+  target: string;
+  enabled: boolean;
+  titleTemplate: string;
+  messageTemplate: string;
+}
+
+const EMPTY_DRAFT: ChannelDraft = {
+  name: "",
+  type: "ntfy",
+  target: "",
+  enabled: true,
+  titleTemplate: "",
+  messageTemplate: "",
+};
+
+export function channelTarget(config: NotificationChannelConfig): string {
+  switch (config.type) {
+    case "ntfy":
+      return config.topic;
+    case "email":
+      return config.to;
+    case "telegram":
+      return config.chatId;
+    case "webhook":
+      return config.url;
+  }
+}
+
+function toConfig(type: ChannelType, target: string): NotificationChannelConfig {
+  const value = target.trim();
+  switch (type) {
+    case "ntfy":
+      return { type, topic: value };
+    case "email":
+      return { type, to: value };
+    case "telegram":
+      return { type, chatId: value };
+    case "webhook":
+      return { type, url: value };
+  }
+}
+
+function toDraft(channel: NotificationChannel): ChannelDraft {
+  return {
+    name: channel.name,
+    type: channel.config.type,
+    target: channelTarget(channel.config),
+    enabled: channel.enabled,
+    titleTemplate: channel.titleTemplate ?? "",
+    messageTemplate: channel.messageTemplate ?? "",
+  };
+}
+
+export function ChannelsTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<ChannelDraft>(EMPTY_DRAFT);
+  const [deleteTarget, setDeleteTarget] = useState<NotificationChannel | null>(null);
+
+  const { data, isLoading } = useQuery<{ channels: NotificationChannel[] }>({
+    queryKey: ["/api/channels"],
+  });
+
+  const { data: deliveriesData } = useQuery<{ deliveries: NotificationDelivery[] }>({
+    queryKey: ["/api/notifications/deliveries"],
+    refetchInterval: 10000,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        name: draft.name,
+        config: toConfig(draft.type, draft.target),
+        enabled: draft.enabled,
+        titleTemplate: draft.titleTemplate.trim() || null,
+        messageTemplate: draft.messageTemplate.trim() || null,
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/channels/${editingId}`, body)
+        : apiRequest("POST", "/api/channels", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      setDialogOpen(false);
+      toast({
+        title: editingId ? "Channel Updated" : "Channel Added",
+        description: draft.name,
+      });
+    },
+    onError: onError("Saving Channel Failed"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (channel: NotificationChannel) =>
+      apiRequest("PATCH", `/api/channels/${channel.id}`, { enabled: !channel.enabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+    },
+    onError: onError("Updating Channel Failed"),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (channel: NotificationChannel) => apiRequest("POST", `/api/channels/${channel.id}/test`),
+    onSuccess: (_, channel) => {
+      toast({ title: "Test Sent", description: `${channel.name} → ${channelTarget(channel.config)}` });
+    },
+    onError: onError("Test Failed"),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/deliveries"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (channel: NotificationChannel) => apiRequest("DELETE", `/api/channels/${channel.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      setDeleteTarget(null);
+      toast({ title: "Channel Deleted" });
+    },
+    onError: onError("Deleting Channel Failed"),
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (channel: NotificationChannel) => {
+    setEditingId(channel.id);
+    setDraft(toDraft(channel));
+    setDialogOpen(true);
+  };
+
+  const channels = data?.channels ?? [];
+  const channelNames = new Map(channels.map((channel) => [channel.id, channel.name]));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Megaphone className="w-5 h-5 text-primary" />
+              <div>
+                <CardTitle className="text-lg">Notification Channels</CardTitle>
+                <CardDescription>Where alert rules deliver matching listings</CardDescription>
+              </div>
+            </div>
+            <Button size="sm" onClick={openCreate} data-testid="button-add-channel">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Channel
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          ) : channels.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No channels yet - rules without channels notify their source's ntfy topic
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {channels.map((channel) => (
+                <div
+                  key={channel.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-md border"
+                  data-testid={`row-channel-${channel.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{channel.name}</span>
+                      <Badge variant="secondary">{CHANNEL_TYPES[channel.config.type].label}</Badge>
+                      {!channel.enabled && <Badge variant="outline">Paused</Badge>}
+                      {(channel.titleTemplate || channel.messageTemplate) && (
+                        <Badge variant="outline">Custom template</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {channelTarget(channel.config)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => testMutation.mutate(channel)}
+                      disabled={testMutation.isPending}
+                      data-testid={`button-test-channel-${channel.id}`}
+                    >
+                      {testMutation.isPending && testMutation.variables?.id === channel.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Send className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Switch
+                      checked={channel.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(channel)}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-channel-enabled-${channel.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEdit(channel)}
+                      data-testid={`button-edit-channel-${channel.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteTarget(channel)}
+                      data-testid={`button-delete-channel-${channel.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent Deliveries</CardTitle>
+          <CardDescription>Every send attempt, including rate-limited ones</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!deliveriesData?.deliveries.length ? (
+            <p className="text-sm text-muted-foreground">Nothing sent yet</p>
+          ) : (
+            <ScrollArea className="h-64 w-full rounded-md border">
+              <div className="p-3 space-y-2">
+                {deliveriesData.deliveries.map((delivery) => (
+                  <div key={delivery.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-mono shrink-0">{new Date(delivery.createdAt).toLocaleString()}</span>
+                    <span className="truncate" title={delivery.message}>
+                      {delivery.title ?? delivery.message}
+                    </span>
+                    <span className="flex items-center gap-2 shrink-0">
+                      <span className="text-muted-foreground">
+                        {(delivery.channelId && channelNames.get(delivery.channelId)) ?? `${delivery.channel}/${delivery.target}`}
+                      </span>
+                      {delivery.status === "sent" && <Badge className="bg-emerald-500 text-white">Sent</Badge>}
+                      {delivery.status === "rate_limited" && (
+                        <Badge variant="secondary" title={delivery.error ?? undefined}>Rate limited</Badge>
+                      )}
+                      {delivery.status === "failed" && (
+                        <Badge variant="destructive" title={delivery.error ?? undefined}>Failed</Badge>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Channel" : "Add Channel"}</DialogTitle>
+            <DialogDescription>
+              SMTP and Telegram credentials come from the SMTP_URL and TELEGRAM_BOT_TOKEN secrets
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="channel-name">Name</Label>
+                <Input
+                  id="channel-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Sam's email"
+                  data-testid="input-channel-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(type) => setDraft({ ...draft, type: type as ChannelType })}
+                >
+                  <SelectTrigger data-testid="select-channel-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CHANNEL_TYPES).map(([type, { label }]) => (
+                      <SelectItem key={type} value={type}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="channel-target">{CHANNEL_TYPES[draft.type].targetLabel}</Label>
+              <Input
+                id="channel-target"
+                value={draft.target}
+                onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                placeholder={CHANNEL_TYPES[draft.type].placeholder}
+                className="font-mono"
+                data-testid="input-channel-target"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="channel-title-template">Title Template</Label>
+              <Input
+                id="channel-title-template"
+                value={draft.titleTemplate}
+                onChange={(e) => setDraft({ ...draft, titleTemplate: e.target.value })}
+                placeholder="{{event}}: {{title}} - {{price}}"
+                className="font-mono text-xs"
+                data-testid="input-channel-title-template"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="channel-message-template">Message Template</Label>
+              <Textarea
+                id="channel-message-template"
+                value={draft.messageTemplate}
+                onChange={(e) => setDraft({ ...draft, messageTemplate: e.target.value })}
+                placeholder={"{{address}}\n{{details}}\n{{change}}\nMatches: {{rules}}"}
+                rows={4}
+                className="font-mono text-xs"
+                data-testid="input-channel-message-template"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty for the default. Fields: {TEMPLATE_FIELDS}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="channel-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              />
+              <Label htmlFor="channel-enabled">Enabled</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !draft.name.trim() || !draft.target.trim()}
+              data-testid="button-save-channel"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete channel?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.name} will be removed from every rule that uses it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              data-testid="button-confirm-delete-channel"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
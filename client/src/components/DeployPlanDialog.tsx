@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChevronDown, ChevronRight, Rocket } from "lucide-react";
+import type { DeployPlan, DeployPlanFile, DeployPlanService } from "@shared/schema";
+
+const FILE_BADGE: Record<DeployPlanFile["status"], { label: string; variant: "default" | "secondary" | "outline" }> = {
+  added: { label: "New", variant: "default" },
+  changed: { label: "Changed", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+};
+
+const ACTION_BADGE: Record<DeployPlanService["action"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  create: { label: "Create", variant: "default" },
+  recreate: { label: "Recreate", variant: "destructive" },
+  rebuild: { label: "Rebuild", variant: "destructive" },
+  start: { label: "Start", variant: "secondary" },
+  remove: { label: "Remove", variant: "destructive" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return "text-muted-foreground";
+  if (line.startsWith("@@")) return "text-primary";
+  if (line.startsWith("+")) return "bg-emerald-500/15 text-emerald-700 dark:text-emerald-400";
+  if (line.startsWith("-")) return "bg-destructive/15 text-destructive";
+  return "";
+}
+
+// Header lines of the patch repeat the file name shown above it
+function diffBody(diff: string): string[] {
+  return diff.split("\n").filter((line) => !line.startsWith("====") && !line.startsWith("Index:"));
+}
+
+// A unified diff with added and removed lines highlighted
+export function DiffView({ diff, className = "" }: { diff: string; className?: string }) {
+  return (
+    <pre className={`overflow-x-auto text-xs font-mono ${className}`}>
+      {diffBody(diff).map((line, index) => (
+        <div key={index} className={`px-3 whitespace-pre ${diffLineClass(line)}`}>
+          {line || " "}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+function FileDiff({ file }: { file: DeployPlanFile }) {
+  const [open, setOpen] = useState(file.status === "changed");
+  const badge = FILE_BADGE[file.status];
+
+  return (
+    <div className="rounded-md border" data-testid={`plan-file-${file.path}`}>
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover-elevate"
+        onClick={() => setOpen(!open)}
+        disabled={!file.diff}
+      >
+        {file.diff ? (
+          open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />
+        ) : (
+          <span className="w-4" />
+        )}
+        <span className="font-mono">{file.path}</span>
+        <Badge variant={badge.variant} className="ml-auto">
+          {badge.label}
+        </Badge>
+      </button>
+      {file.path === ".env" && file.status === "added" && (
+        <p className="px-3 pb-2 text-xs text-muted-foreground">Generated on deploy with new secrets</p>
+      )}
+      {open && file.diff && <DiffView diff={file.diff} className="border-t" />}
+    </div>
+  );
+}
+
+// Result of a dry-run deploy: per-file diffs against the host and the
+// containers a deploy would create, recreate or rebuild
+export function DeployPlanDialog({
+  plan,
+  onClose,
+  onDeploy,
+  deployDisabled,
+}: {
+  plan: DeployPlan | null;
+  onClose: () => void;
+  onDeploy: () => void;
+  deployDisabled?: boolean;
+}) {
+  const changedFiles = plan?.files.filter((file) => file.status !== "unchanged").length ?? 0;
+
+  return (
+    <Dialog open={Boolean(plan)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Deploy Preview</DialogTitle>
+          <DialogDescription>
+            {changedFiles === 0
+              ? "The generated files match what is on the VPS"
+              : `${changedFiles} of ${plan?.files.length} files differ from what is on the VPS`}
+          </DialogDescription>
+        </DialogHeader>
+        {plan && (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">Containers</h4>
+                {plan.services.map((service) => (
+                  <div
+                    key={service.service}
+                    className="flex items-center gap-3 text-sm"
+                    data-testid={`plan-service-${service.service}`}
+                  >
+                    <Badge variant={ACTION_BADGE[service.action].variant} className="w-24 justify-center">
+                      {ACTION_BADGE[service.action].label}
+                    </Badge>
+                    <span className="font-medium">{service.service}</span>
+                    <span className="text-xs text-muted-foreground">{service.reason}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Files</h4>
+                {plan.files.map((file) => (
+                  <FileDiff key={file.path} file={file} />
+                ))}
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={onDeploy} disabled={deployDisabled} data-testid="button-deploy-from-preview">
+            <Rocket className="w-4 h-4 mr-2" />
+            Deploy
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, ChevronDown, ChevronRight, Circle, ListChecks, Loader2, MinusCircle, XCircle } from "lucide-react";
+import type { DeployStep } from "@shared/schema";
+
+const STEP_ICON: Record<DeployStep["status"], JSX.Element> = {
+  pending: <Circle className="w-4 h-4 text-muted-foreground" />,
+  running: <Loader2 className="w-4 h-4 animate-spin text-primary" />,
+  success: <CheckCircle2 className="w-4 h-4 text-emerald-500" />,
+  error: <XCircle className="w-4 h-4 text-destructive" />,
+  skipped: <MinusCircle className="w-4 h-4 text-muted-foreground" />,
+};
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "";
+  return ms < 1000 ? `${ms}ms` : ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+// Checklist of the current or last deploy's steps; a step's output opens on
+// click, and a failed step's is open from the start
+export function DeployStepsCard({ steps, lastDeploy }: { steps: DeployStep[]; lastDeploy?: string }) {
+  const [expanded, setExpanded] = useState<DeployStep["name"] | null>(null);
+  const failed = steps.find((step) => step.status === "error");
+  const openStep = expanded ?? failed?.name ?? null;
+
+  return (
+    <Card data-testid="card-deploy-steps">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListChecks className="w-5 h-5" />
+          Deploy Steps
+        </CardTitle>
+        <CardDescription>
+          {lastDeploy ? `Last deploy ${new Date(lastDeploy).toLocaleString()}` : "Steps stop at the first failure"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {steps.map((step) => (
+          <div key={step.name} data-testid={`deploy-step-${step.name}`}>
+            <button
+              type="button"
+              className="flex w-full items-center gap-3 rounded-md px-2 py-1.5 text-left text-sm hover-elevate"
+              onClick={() => setExpanded(openStep === step.name ? null : step.name)}
+              disabled={!step.output}
+            >
+              {STEP_ICON[step.status]}
+              <span className={step.status === "skipped" || step.status === "pending" ? "text-muted-foreground" : ""}>
+                {step.label}
+              </span>
+              <span className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+                {step.exitCode !== null && step.exitCode !== 0 && (
+                  <Badge variant="destructive">exit {step.exitCode}</Badge>
+                )}
+                {formatDuration(step.durationMs)}
+                {step.output &&
+                  (openStep === step.name ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+              </span>
+            </button>
+            {openStep === step.name && step.output && (
+              <pre className="ml-9 mt-1 max-h-48 overflow-auto rounded-md bg-muted p-2 text-xs whitespace-pre-wrap break-all">
+                {step.output}
+              </pre>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { FlaskConical, Loader2 } from "lucide-react";
+import type { ExtractorConfig, Listing, ListingSource } from "@shared/schema";
+
+interface TestExtractResponse {
+  fetch: { status: number; finalUrl: string; durationMs: number; htmlLength: number };
+  listings: Listing[];
+  errors: string[];
+}
+
+const FIELD_LABELS: Array<{ key: keyof ExtractorConfig["fields"]; label: string; placeholder: string }> = [
+  { key: "title", label: "Title", placeholder: ".listing-title" },
+  { key: "price", label: "Price", placeholder: ".listing-price" },
+  { key: "address", label: "Address", placeholder: ".listing-address" },
+  { key: "surface", label: "Surface (m²)", placeholder: ".surface" },
+  { key: "rooms", label: "Rooms", placeholder: ".rooms" },
+  { key: "url", label: "URL", placeholder: "a.listing-link@href" },
+  { key: "image", label: "Image", placeholder: "img@src" },
+  { key: "furnished", label: "Interior", placeholder: ".interior" },
+];
+
+const EMPTY_CONFIG: ExtractorConfig = { type: "css", itemSelector: "", fields: {} };
+
+function cleanConfig(config: ExtractorConfig): ExtractorConfig {
+  const fields = Object.fromEntries(
+    Object.entries(config.fields).filter(([, selector]) => selector && selector.trim()),
+  );
+  return { ...config, itemSelector: config.itemSelector.trim(), fields };
+}
+
+export function ExtractorDialog({
+  source,
+  onOpenChange,
+}: {
+  source: ListingSource | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<ExtractorConfig>(EMPTY_CONFIG);
+  const [result, setResult] = useState<TestExtractResponse | null>(null);
+
+  useEffect(() => {
+    setConfig(source?.extractorConfig ?? EMPTY_CONFIG);
+    setResult(null);
+  }, [source]);
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/sources/${source!.id}/test-extract`, {
+        extractorConfig: cleanConfig(config),
+      });
+      return response.json() as Promise<TestExtractResponse>;
+    },
+    onSuccess: setResult,
+    onError: (error: Error) => {
+      toast({ title: "Test Extract Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PATCH", `/api/sources/${source!.id}`, { extractorConfig: cleanConfig(config) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows/template"] });
+      toast({ title: "Extractor Saved", description: source?.name });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Saving Extractor Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(source)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Extractor - {source?.name}</DialogTitle>
+          <DialogDescription>
+            CSS selectors are evaluated inside each item. Append @attr to read an attribute.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="extractor-item">Item Selector</Label>
+            <Input
+              id="extractor-item"
+              value={config.itemSelector}
+              onChange={(e) => setConfig({ ...config, itemSelector: e.target.value })}
+              placeholder="li.listing"
+              className="font-mono"
+              data-testid="input-extractor-item"
+            />
+          </div>
+          <div className="grid gap-3 md:grid-cols-4">
+            {FIELD_LABELS.map(({ key, label, placeholder }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`extractor-${key}`} className="text-xs">{label}</Label>
+                <Input
+                  id={`extractor-${key}`}
+                  value={config.fields[key] ?? ""}
+                  onChange={(e) => setConfig({ ...config, fields: { ...config.fields, [key]: e.target.value } })}
+                  placeholder={placeholder}
+                  className="font-mono text-xs"
+                  data-testid={`input-extractor-${key}`}
+                />
+              </div>
+            ))}
+          </div>
+
+          {result && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                <Badge variant="secondary">HTTP {result.fetch.status}</Badge>
+                <span>{result.fetch.durationMs}ms</span>
+                <span>{Math.round(result.fetch.htmlLength / 1024)} KB</span>
+                <span>{result.listings.length} listings</span>
+              </div>
+              {result.errors.map((error, i) => (
+                <p key={i} className="text-xs text-amber-600">• {error}</p>
+              ))}
+              <ScrollArea className="h-64 w-full rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead>m²</TableHead>
+                      <TableHead>Rooms</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.listings.map((listing, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="text-xs">
+                          {listing.url ? (
+                            <a href={listing.url} target="_blank" rel="noreferrer" className="underline">
+                              {listing.title}
+                            </a>
+                          ) : (
+                            listing.title
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono" title={listing.priceText ?? undefined}>
+                          {listing.price ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-xs">{listing.address ?? "—"}</TableCell>
+                        <TableCell className="text-xs font-mono">{listing.surfaceM2 ?? "—"}</TableCell>
+                        <TableCell className="text-xs font-mono">{listing.rooms ?? "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => testMutation.mutate()}
+            disabled={testMutation.isPending || !config.itemSelector.trim()}
+            data-testid="button-test-extract"
+          >
+            {testMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FlaskConical className="w-4 h-4 mr-2" />
+            )}
+            Test Extract
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !config.itemSelector.trim()}
+            data-testid="button-save-extractor"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,611 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Fingerprint, Key, Loader2, Pencil, Plus, Server, ShieldAlert, Star, Trash2 } from "lucide-react";
+import type { Host, HostKey } from "@shared/schema";
+
+export type HostWithCredentials = Host & { credentialsConfigured: boolean };
+
+interface HostKeyCheck {
+  pinned: HostKey | null;
+  pinnedAt: string | null;
+  presented: HostKey;
+  matches: boolean;
+}
+
+interface HostDraft {
+  name: string;
+  address: string;
+  sshPort: string;
+  username: string;
+  keyRef: string;
+  passphraseRef: string;
+  useAgent: boolean;
+  passwordRef: string;
+  keepaliveSeconds: string;
+  readyTimeoutSeconds: string;
+  jumpHostId: string | null;
+  tags: string;
+  primary: boolean;
+}
+
+const EMPTY_DRAFT: HostDraft = {
+  name: "",
+  address: "",
+  sshPort: "22",
+  username: "root",
+  keyRef: "VPS_SSH_PRIVATE_KEY",
+  passphraseRef: "",
+  useAgent: false,
+  passwordRef: "",
+  keepaliveSeconds: "15",
+  readyTimeoutSeconds: "20",
+  jumpHostId: null,
+  tags: "",
+  primary: false,
+};
+
+const NO_JUMP_HOST = "none";
+
+function toDraft(host: Host): HostDraft {
+  return {
+    name: host.name,
+    address: host.address,
+    sshPort: String(host.sshPort),
+    username: host.username,
+    keyRef: host.keyRef ?? "",
+    passphraseRef: host.passphraseRef ?? "",
+    useAgent: host.useAgent,
+    passwordRef: host.passwordRef ?? "",
+    keepaliveSeconds: String(host.keepaliveIntervalMs / 1000),
+    readyTimeoutSeconds: String(host.readyTimeoutMs / 1000),
+    jumpHostId: host.jumpHostId,
+    tags: host.tags.join(", "),
+    primary: host.primary,
+  };
+}
+
+function describeAuth(host: Host): string {
+  const methods: string[] = [];
+  if (host.keyRef) methods.push(`key ${host.keyRef}`);
+  if (host.useAgent) methods.push("agent");
+  if (host.passwordRef) methods.push(`password ${host.passwordRef}`);
+  return methods.join(", ") || "no credentials";
+}
+
+// Header dropdown choosing which host the dashboard shows and acts on
+export function HostSwitcher({
+  hosts,
+  value,
+  onChange,
+}: {
+  hosts: HostWithCredentials[];
+  value: string | undefined;
+  onChange: (hostId: string) => void;
+}) {
+  if (hosts.length === 0) return null;
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-48" data-testid="select-host">
+        <Server className="w-4 h-4 mr-2 shrink-0" />
+        <SelectValue placeholder="Select host" />
+      </SelectTrigger>
+      <SelectContent>
+        {hosts.map((host) => (
+          <SelectItem key={host.id} value={host.id}>
+            {host.name}
+            {host.tags.length > 0 && <span className="text-muted-foreground"> · {host.tags.join(", ")}</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function HostKeyRow({ label, hostKey, testId }: { label: string; hostKey: HostKey | null; testId: string }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      {hostKey ? (
+        <p className="font-mono text-xs break-all" data-testid={testId}>
+          {hostKey.type} {hostKey.fingerprint}
+        </p>
+      ) : (
+        <p className="text-sm">Nothing pinned yet</p>
+      )}
+    </div>
+  );
+}
+
+// Shows the pinned host key against the one the server presents now, with the
+// re-trust action for a server that was legitimately rebuilt
+function HostKeyDialog({ host, onClose }: { host: Host | null; onClose: () => void }) {
+  const { toast } = useToast();
+
+  const { data, isLoading, error, refetch, isFetching } = useQuery<HostKeyCheck>({
+    queryKey: ["/api/hosts", host?.id, "host-key"],
+    enabled: Boolean(host),
+    retry: false,
+    gcTime: 0,
+  });
+
+  const trustMutation = useMutation({
+    mutationFn: (fingerprint: string) =>
+      apiRequest("POST", `/api/hosts/${host?.id}/host-key/trust`, { fingerprint }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hosts"] });
+      toast({ title: "Host Key Trusted", description: host?.name });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Re-trust Failed", description: error.message, variant: "destructive" });
+      refetch();
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(host)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Host Key - {host?.name}</DialogTitle>
+          <DialogDescription>
+            Compare with <code className="font-mono">ssh-keygen -lf /etc/ssh/ssh_host_ed25519_key.pub</code> on
+            the server before trusting a new key
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : data ? (
+          <div className="space-y-4">
+            <HostKeyRow label="Pinned" hostKey={data.pinned} testId="text-host-key-pinned" />
+            <HostKeyRow label="Presented now" hostKey={data.presented} testId="text-host-key-presented" />
+            {data.matches ? (
+              <Badge variant="secondary">Keys match</Badge>
+            ) : data.pinned ? (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <ShieldAlert className="w-4 h-4 shrink-0" />
+                The server presents a different key; connections are refused until it is trusted
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+            Check Again
+          </Button>
+          <Button
+            variant={data?.pinned ? "destructive" : "default"}
+            onClick={() => data && trustMutation.mutate(data.presented.fingerprint)}
+            disabled={!data || data.matches || trustMutation.isPending}
+            data-testid="button-trust-host-key"
+          >
+            {trustMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Trust Presented Key
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function HostsTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<HostDraft>(EMPTY_DRAFT);
+  const [deleteTarget, setDeleteTarget] = useState<Host | null>(null);
+  const [hostKeyTarget, setHostKeyTarget] = useState<Host | null>(null);
+
+  const { data, isLoading } = useQuery<{ hosts: HostWithCredentials[] }>({
+    queryKey: ["/api/hosts"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const invalidateHostQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/hosts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/status"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const body = {
+        name: draft.name,
+        address: draft.address,
+        sshPort: parseInt(draft.sshPort, 10) || 22,
+        username: draft.username,
+        keyRef: draft.keyRef,
+        passphraseRef: draft.passphraseRef,
+        useAgent: draft.useAgent,
+        passwordRef: draft.passwordRef,
+        keepaliveIntervalMs: Math.round((parseFloat(draft.keepaliveSeconds) || 0) * 1000),
+        readyTimeoutMs: Math.round((parseFloat(draft.readyTimeoutSeconds) || 20) * 1000),
+        jumpHostId: draft.jumpHostId,
+        tags: draft.tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+        primary: draft.primary,
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/hosts/${editingId}`, body)
+        : apiRequest("POST", "/api/hosts", body);
+    },
+    onSuccess: () => {
+      invalidateHostQueries();
+      setDialogOpen(false);
+      toast({
+        title: editingId ? "Host Updated" : "Host Added",
+        description: draft.name,
+      });
+    },
+    onError: onError("Saving Host Failed"),
+  });
+
+  const primaryMutation = useMutation({
+    mutationFn: (host: Host) => apiRequest("PATCH", `/api/hosts/${host.id}`, { primary: true }),
+    onSuccess: invalidateHostQueries,
+    onError: onError("Updating Host Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (host: Host) => apiRequest("DELETE", `/api/hosts/${host.id}`),
+    onSuccess: () => {
+      invalidateHostQueries();
+      setDeleteTarget(null);
+      toast({ title: "Host Deleted" });
+    },
+    onError: onError("Deleting Host Failed"),
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (host: Host) => {
+    setEditingId(host.id);
+    setDraft(toDraft(host));
+    setDialogOpen(true);
+  };
+
+  const hosts = data?.hosts ?? [];
+  const hostNames = new Map(hosts.map((host) => [host.id, host.name]));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Server className="w-5 h-5 text-primary" />
+              <div>
+                <CardTitle className="text-lg">Hosts</CardTitle>
+                <CardDescription>
+                  VPS servers managed from this dashboard; the primary host runs the fetcher and ntfy used for alerts
+                </CardDescription>
+              </div>
+            </div>
+            <Button size="sm" onClick={openCreate} data-testid="button-add-host">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Host
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          ) : hosts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hosts yet</p>
+          ) : (
+            <div className="space-y-2">
+              {hosts.map((host) => (
+                <div
+                  key={host.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-md border"
+                  data-testid={`row-host-${host.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{host.name}</span>
+                      {host.primary && <Badge>Primary</Badge>}
+                      {host.tags.map((tag) => (
+                        <Badge key={tag} variant="secondary">{tag}</Badge>
+                      ))}
+                      {!host.credentialsConfigured && (
+                        <Badge variant="destructive" title="Set the key or password secret, or enable ssh-agent">
+                          <Key className="w-3 h-3 mr-1" />
+                          Credentials missing
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {host.username}@{host.address}:{host.sshPort} · {describeAuth(host)}
+                      {host.jumpHostId && ` · via ${hostNames.get(host.jumpHostId) ?? "unknown host"}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate" data-testid={`text-host-key-${host.id}`}>
+                      {host.hostKeyFingerprint
+                        ? `${host.hostKeyType} ${host.hostKeyFingerprint}`
+                        : "Host key pinned on first connection"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {!host.primary && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Make primary"
+                        onClick={() => primaryMutation.mutate(host)}
+                        disabled={primaryMutation.isPending}
+                        data-testid={`button-primary-host-${host.id}`}
+                      >
+                        <Star className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Host key"
+                      onClick={() => setHostKeyTarget(host)}
+                      data-testid={`button-host-key-${host.id}`}
+                    >
+                      <Fingerprint className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEdit(host)}
+                      data-testid={`button-edit-host-${host.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteTarget(host)}
+                      data-testid={`button-delete-host-${host.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Host" : "Add Host"}</DialogTitle>
+            <DialogDescription>
+              Keys and passwords stay in the secrets store; reference them by the secret's name
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="host-name">Name</Label>
+                <Input
+                  id="host-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. production"
+                  data-testid="input-host-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="host-tags">Tags</Label>
+                <Input
+                  id="host-tags"
+                  value={draft.tags}
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                  placeholder="staging, hetzner"
+                  data-testid="input-host-tags"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-[1fr_8rem]">
+              <div className="space-y-2">
+                <Label htmlFor="host-address">Address</Label>
+                <Input
+                  id="host-address"
+                  value={draft.address}
+                  onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+                  placeholder="203.0.113.10"
+                  className="font-mono"
+                  data-testid="input-host-address"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="host-port">SSH Port</Label>
+                <Input
+                  id="host-port"
+                  type="number"
+                  value={draft.sshPort}
+                  onChange={(e) => setDraft({ ...draft, sshPort: e.target.value })}
+                  data-testid="input-host-port"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="host-username">User</Label>
+                <Input
+                  id="host-username"
+                  value={draft.username}
+                  onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+                  className="font-mono"
+                  data-testid="input-host-username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="host-key-ref">Key Secret</Label>
+                <Input
+                  id="host-key-ref"
+                  value={draft.keyRef}
+                  onChange={(e) => setDraft({ ...draft, keyRef: e.target.value })}
+                  placeholder="VPS_SSH_PRIVATE_KEY"
+                  className="font-mono"
+                  data-testid="input-host-key-ref"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="host-passphrase-ref">Key Passphrase Secret</Label>
+                <Input
+                  id="host-passphrase-ref"
+                  value={draft.passphraseRef}
+                  onChange={(e) => setDraft({ ...draft, passphraseRef: e.target.value })}
+                  placeholder="Only for encrypted keys"
+                  className="font-mono"
+                  data-testid="input-host-passphrase-ref"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="host-password-ref">Password Secret</Label>
+                <Input
+                  id="host-password-ref"
+                  value={draft.passwordRef}
+                  onChange={(e) => setDraft({ ...draft, passwordRef: e.target.value })}
+                  placeholder="Fallback when key and agent fail"
+                  className="font-mono"
+                  data-testid="input-host-password-ref"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="host-use-agent"
+                checked={draft.useAgent}
+                onCheckedChange={(useAgent) => setDraft({ ...draft, useAgent })}
+              />
+              <Label htmlFor="host-use-agent">Use ssh-agent (SSH_AUTH_SOCK)</Label>
+            </div>
+            <div className="grid gap-4 md:grid-cols-[1fr_8rem_8rem]">
+              <div className="space-y-2">
+                <Label>Jump Host</Label>
+                <Select
+                  value={draft.jumpHostId ?? NO_JUMP_HOST}
+                  onValueChange={(value) => setDraft({ ...draft, jumpHostId: value === NO_JUMP_HOST ? null : value })}
+                >
+                  <SelectTrigger data-testid="select-host-jump">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_JUMP_HOST}>Direct connection</SelectItem>
+                    {hosts
+                      .filter((host) => host.id !== editingId)
+                      .map((host) => (
+                        <SelectItem key={host.id} value={host.id}>
+                          {host.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="host-keepalive">Keepalive (s)</Label>
+                <Input
+                  id="host-keepalive"
+                  type="number"
+                  value={draft.keepaliveSeconds}
+                  onChange={(e) => setDraft({ ...draft, keepaliveSeconds: e.target.value })}
+                  data-testid="input-host-keepalive"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="host-ready-timeout">Timeout (s)</Label>
+                <Input
+                  id="host-ready-timeout"
+                  type="number"
+                  value={draft.readyTimeoutSeconds}
+                  onChange={(e) => setDraft({ ...draft, readyTimeoutSeconds: e.target.value })}
+                  data-testid="input-host-ready-timeout"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="host-primary"
+                checked={draft.primary}
+                onCheckedChange={(primary) => setDraft({ ...draft, primary })}
+              />
+              <Label htmlFor="host-primary">Primary host</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !draft.name.trim() || !draft.address.trim()}
+              data-testid="button-save-host"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <HostKeyDialog host={hostKeyTarget} onClose={() => setHostKeyTarget(null)} />
+
+      <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete host?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.name} and its preflight scans and status history will be removed. Nothing is changed on
+              the server itself.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              data-testid="button-confirm-delete-host"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowUpCircle, Boxes, Loader2, RefreshCw } from "lucide-react";
+import type { Job, ServiceImage } from "@shared/schema";
+
+// Services running a pulled image; the fetcher is rebuilt by a deploy
+const UPGRADABLE = ["postgres", "n8n", "ntfy"];
+
+const STATUS_BADGE: Record<ServiceImage["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  current: { label: "Current", variant: "default" },
+  outdated: { label: "Differs", variant: "destructive" },
+  not_pulled: { label: "Not pulled", variant: "secondary" },
+  not_running: { label: "Not running", variant: "outline" },
+  built: { label: "Built", variant: "outline" },
+};
+
+function shortDigest(digest: string | null): string {
+  return digest ? digest.replace(/^sha256:/, "").slice(0, 12) : "-";
+}
+
+// The configured image of each deployed service next to the one its container
+// runs, with a per-service upgrade; `onUpgrade` receives the started job so its
+// log can be shown
+export function ImagesCard({
+  hostId,
+  disabled,
+  onUpgrade,
+}: {
+  hostId?: string;
+  disabled?: boolean;
+  onUpgrade: (job: Job) => void;
+}) {
+  const { toast } = useToast();
+  const [upgradeTarget, setUpgradeTarget] = useState<ServiceImage | null>(null);
+  const [imageTag, setImageTag] = useState("");
+
+  // Inspecting opens an SSH session, so it is only refreshed on request
+  const { data, isFetching, error, refetch } = useQuery<{ images: ServiceImage[] }>({
+    queryKey: ["/api/images", { hostId }],
+    enabled: Boolean(hostId),
+    retry: false,
+  });
+
+  const upgradeMutation = useMutation({
+    mutationFn: async ({ service, tag }: { service: string; tag: string }) => {
+      const response = await apiRequest("POST", `/api/images/${service}/upgrade`, { hostId, imageTag: tag });
+      return response.json() as Promise<{ deploymentId: string; job: Job }>;
+    },
+    onSuccess: (data) => {
+      setUpgradeTarget(null);
+      onUpgrade(data.job);
+      queryClient.invalidateQueries({ queryKey: ["/api/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upgrade Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openUpgrade = (image: ServiceImage) => {
+    setImageTag(image.configured.split(":").pop() ?? "");
+    setUpgradeTarget(image);
+  };
+
+  const images = data?.images ?? [];
+  const repository = upgradeTarget?.configured.replace(/:[^:/]*$/, "");
+  const tag = imageTag.trim();
+
+  return (
+    <Card data-testid="card-images">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Boxes className="w-5 h-5" />
+              Images
+            </CardTitle>
+            <CardDescription>Pinned image of each service and the one its container is running</CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={!hostId || isFetching}
+            data-testid="button-refresh-images"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : images.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{isFetching ? "Inspecting images..." : "No deployed services"}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Configured</TableHead>
+                <TableHead>Running</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {images.map((image) => {
+                const badge = STATUS_BADGE[image.status];
+                return (
+                  <TableRow key={image.service} data-testid={`image-${image.service}`}>
+                    <TableCell className="font-medium">{image.service}</TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{image.configured}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{shortDigest(image.configuredDigest)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-xs">{image.running ?? "-"}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{shortDigest(image.runningDigest)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {UPGRADABLE.includes(image.service) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={disabled || image.status === "not_running" || upgradeMutation.isPending}
+                          onClick={() => openUpgrade(image)}
+                          data-testid={`button-upgrade-${image.service}`}
+                        >
+                          <ArrowUpCircle className="w-4 h-4 mr-2" />
+                          Upgrade
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(upgradeTarget)} onOpenChange={(open) => !open && setUpgradeTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Upgrade {upgradeTarget?.service}</DialogTitle>
+            <DialogDescription>
+              The image is pulled and only this container is recreated. If it does not become healthy, the previous
+              version is put back. Check the release notes for database migrations first.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="upgrade-tag">{repository}:</Label>
+            <Input
+              id="upgrade-tag"
+              value={imageTag}
+              onChange={(e) => setImageTag(e.target.value)}
+              className="font-mono"
+              data-testid="input-upgrade-tag"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpgradeTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => upgradeTarget && upgradeMutation.mutate({ service: upgradeTarget.service, tag })}
+              disabled={upgradeMutation.isPending || !tag || tag === "latest"}
+              data-testid="button-confirm-upgrade"
+            >
+              {upgradeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Upgrade
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { readEventStream } from "@/lib/sse";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Square, Terminal } from "lucide-react";
+import type { Job, JobLogLine } from "@shared/schema";
+
+export interface JobOutcome {
+  job: Job;
+  result: unknown;
+}
+
+export const JOB_KIND_LABEL: Record<Job["kind"], string> = {
+  preflight: "Preflight Scan",
+  deploy: "Deployment",
+  rollback: "Rollback",
+  upgrade: "Upgrade",
+  backup: "Backup",
+  restore: "Restore",
+  workflow_export: "Workflow Export",
+  workflow_import: "Workflow Import",
+  health_check: "Health Check",
+};
+
+export const JOB_STATUS_BADGE: Record<Job["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  queued: { label: "Queued", variant: "outline" },
+  running: { label: "Running", variant: "secondary" },
+  success: { label: "Succeeded", variant: "default" },
+  error: { label: "Failed", variant: "destructive" },
+  cancelled: { label: "Cancelled", variant: "outline" },
+};
+
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 2000;
+
+const LINE_CLASS: Record<JobLogLine["stream"], string> = {
+  info: "text-sky-300",
+  stdout: "text-zinc-100",
+  stderr: "text-amber-300",
+};
+
+// Follows /api/jobs/:id/stream and renders the output as it arrives,
+// resuming from the last received line if the connection drops
+export function JobLogPanel({
+  jobId,
+  kind,
+  onDone,
+}: {
+  jobId: string;
+  kind: Job["kind"];
+  onDone?: (outcome: JobOutcome) => void;
+}) {
+  const { toast } = useToast();
+  const [lines, setLines] = useState<JobLogLine[]>([]);
+  const [outcome, setOutcome] = useState<JobOutcome | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let lastEventId: string | null = null;
+    let finished = false;
+    setLines([]);
+    setOutcome(null);
+    setConnectionError(null);
+    setCancelling(false);
+
+    const follow = async () => {
+      for (let attempt = 0; attempt <= MAX_RECONNECTS && !finished; attempt++) {
+        try {
+          await readEventStream(
+            `/api/jobs/${jobId}/stream`,
+            (message) => {
+              if (message.event === "log") {
+                lastEventId = message.id;
+                const line = JSON.parse(message.data) as JobLogLine;
+                setLines((current) => [...current, line]);
+              } else if (message.event === "done") {
+                finished = true;
+                const done = JSON.parse(message.data) as JobOutcome;
+                setOutcome(done);
+                onDoneRef.current?.(done);
+              }
+            },
+            { signal: controller.signal, lastEventId }
+          );
+          setConnectionError(null);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          setConnectionError((error as Error).message);
+        }
+        if (!finished) {
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+        }
+      }
+    };
+
+    void follow();
+    return () => controller.abort();
+  }, [jobId]);
+
+  // Stick to the bottom unless the user scrolled up to read something
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (viewport && followRef.current) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+  }, [lines]);
+
+  const handleScroll = () => {
+    const viewport = viewportRef.current;
+    if (viewport) {
+      followRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 24;
+    }
+  };
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      await apiRequest("POST", `/api/jobs/${jobId}/cancel`);
+    } catch (error) {
+      setCancelling(false);
+      toast({ title: "Cancel Failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const status = outcome?.job.status ?? "running";
+
+  return (
+    <Card data-testid="card-job-logs">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Terminal className="w-5 h-5" />
+            {JOB_KIND_LABEL[kind]} Logs
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Badge variant={JOB_STATUS_BADGE[status].variant} data-testid="badge-job-status">
+              {status === "running" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+              {JOB_STATUS_BADGE[status].label}
+            </Badge>
+            {status === "running" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCancel}
+                disabled={cancelling}
+                data-testid="button-cancel-job"
+              >
+                {cancelling ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Square className="w-4 h-4 mr-1" />}
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+        {(outcome?.job.message || connectionError) && (
+          <CardDescription>
+            {outcome?.job.message ?? `Connection lost, retrying: ${connectionError}`}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div
+          ref={viewportRef}
+          onScroll={handleScroll}
+          className="h-80 overflow-auto rounded-md bg-zinc-950 p-4 font-mono text-xs leading-relaxed"
+          data-testid="job-log-output"
+        >
+          {lines.map((line) => (
+            <div key={line.seq} className={`whitespace-pre-wrap break-all ${LINE_CLASS[line.stream]}`}>
+              {line.stream === "info" ? `> ${line.text}` : line.text}
+            </div>
+          ))}
+          {status === "running" && <span className="inline-block h-3 w-2 animate-pulse bg-zinc-400" />}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
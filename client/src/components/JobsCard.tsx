@@ -0,0 +1,95 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { JOB_KIND_LABEL, JOB_STATUS_BADGE } from "@/components/JobLogPanel";
+import { ListChecks, Square, Terminal } from "lucide-react";
+import type { Job } from "@shared/schema";
+
+function formatDuration(job: Job): string {
+  if (!job.startedAt) return "";
+  const ms = new Date(job.finishedAt ?? Date.now()).getTime() - new Date(job.startedAt).getTime();
+  return ms < 60000 ? `${Math.round(ms / 1000)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+// Recent preflight, deploy and health-check jobs with cancel and log actions
+export function JobsCard({ hostId, onShowLog }: { hostId?: string; onShowLog: (job: Job) => void }) {
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ jobs: Job[] }>({
+    queryKey: ["/api/jobs", { hostId }],
+    refetchInterval: 3000,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/jobs/${id}/cancel`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Cancel Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListChecks className="w-5 h-5" />
+          Jobs
+        </CardTitle>
+        <CardDescription>Jobs run one at a time per host; newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!data?.jobs.length ? (
+          <p className="text-sm text-muted-foreground">No jobs since the server started</p>
+        ) : (
+          <ScrollArea className="h-64 w-full rounded-md border">
+            <div className="p-3 space-y-2">
+              {data.jobs.map((job) => (
+                <div key={job.id} className="flex items-center justify-between gap-2 text-xs" data-testid={`job-${job.id}`}>
+                  <span className="font-mono shrink-0">{new Date(job.createdAt).toLocaleString()}</span>
+                  <span className="font-medium shrink-0">{JOB_KIND_LABEL[job.kind]}</span>
+                  <span className="truncate text-muted-foreground" title={job.message ?? undefined}>
+                    {job.hostName}
+                    {job.message ? ` · ${job.message}` : ""}
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="text-muted-foreground">{formatDuration(job)}</span>
+                    <Badge variant={JOB_STATUS_BADGE[job.status].variant}>{JOB_STATUS_BADGE[job.status].label}</Badge>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      title="Show log"
+                      onClick={() => onShowLog(job)}
+                      data-testid={`button-job-log-${job.id}`}
+                    >
+                      <Terminal className="w-3 h-3" />
+                    </Button>
+                    {(job.status === "queued" || job.status === "running") && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        title="Cancel"
+                        onClick={() => cancelMutation.mutate(job.id)}
+                        disabled={cancelMutation.isPending}
+                        data-testid={`button-cancel-job-${job.id}`}
+                      >
+                        <Square className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { History, Undo2 } from "lucide-react";
+import type { Job, Release } from "@shared/schema";
+
+// Releases snapshotted by deploys to the host, newest first, with a rollback
+// action; `onRollback` receives the started job so its log can be shown
+export function ReleasesCard({
+  hostId,
+  disabled,
+  onRollback,
+}: {
+  hostId?: string;
+  disabled?: boolean;
+  onRollback: (job: Job) => void;
+}) {
+  const { toast } = useToast();
+  const [rollbackTarget, setRollbackTarget] = useState<Release | null>(null);
+
+  const { data } = useQuery<{ releases: Release[]; currentReleaseId: string | null }>({
+    queryKey: ["/api/releases", { hostId }],
+    refetchInterval: 10000,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (release: Release) => {
+      const response = await apiRequest("POST", `/api/deploy/rollback/${release.id}`);
+      return response.json() as Promise<{ deploymentId: string; job: Job }>;
+    },
+    onSuccess: (data) => {
+      setRollbackTarget(null);
+      onRollback(data.job);
+      queryClient.invalidateQueries({ queryKey: ["/api/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
+      setRollbackTarget(null);
+      toast({ title: "Rollback Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const releases = data?.releases ?? [];
+
+  return (
+    <Card data-testid="card-releases">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Releases
+        </CardTitle>
+        <CardDescription>Each deploy keeps a copy of the files it uploaded; roll back to restore one</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {releases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No releases yet - they are created by deploys</p>
+        ) : (
+          <div className="space-y-2">
+            {releases.map((release) => {
+              const current = release.id === data?.currentReleaseId;
+              return (
+                <div
+                  key={release.id}
+                  className="flex items-center justify-between gap-2 text-sm"
+                  data-testid={`release-${release.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono">{release.name}</span>
+                      {current && <Badge variant="default">Current</Badge>}
+                      {release.status === "error" && <Badge variant="destructive">Deploy failed</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate" title={release.message ?? undefined}>
+                      {new Date(release.createdAt).toLocaleString()}
+                      {release.restoredAt ? ` · restored ${new Date(release.restoredAt).toLocaleString()}` : ""}
+                      {release.status === "error" && release.message ? ` · ${release.message}` : ""}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={current || disabled || rollbackMutation.isPending}
+                    onClick={() => setRollbackTarget(release)}
+                    data-testid={`button-rollback-${release.id}`}
+                  >
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    Roll back
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={Boolean(rollbackTarget)} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to {rollbackTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The compose file and fetcher service from this release replace the current ones, then the stack is
+              rebuilt and restarted. The .env and data volumes are left as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => rollbackTarget && rollbackMutation.mutate(rollbackTarget)}
+              data-testid="button-confirm-rollback"
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,552 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, Eye, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { AlertRule, ListingSource, NotificationChannel, TrackedListing } from "@shared/schema";
+
+type FurnishedChoice = "any" | "furnished" | "unfurnished";
+
+// Numbers and lists are edited as text and converted on save
+interface RuleDraft {
+  name: string;
+  owner: string;
+  enabled: boolean;
+  maxRent: string;
+  minSurfaceM2: string;
+  minRooms: string;
+  cities: string;
+  postcodes: string;
+  includeKeywords: string;
+  excludeKeywords: string;
+  furnished: FurnishedChoice;
+  sourceIds: string[];
+  channelIds: string[];
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  owner: "",
+  enabled: true,
+  maxRent: "",
+  minSurfaceM2: "",
+  minRooms: "",
+  cities: "",
+  postcodes: "",
+  includeKeywords: "",
+  excludeKeywords: "",
+  furnished: "any",
+  sourceIds: [],
+  channelIds: [],
+};
+
+function toDraft(rule: AlertRule): RuleDraft {
+  return {
+    name: rule.name,
+    owner: rule.owner,
+    enabled: rule.enabled,
+    maxRent: rule.maxRent?.toString() ?? "",
+    minSurfaceM2: rule.minSurfaceM2?.toString() ?? "",
+    minRooms: rule.minRooms?.toString() ?? "",
+    cities: rule.cities.join(", "),
+    postcodes: rule.postcodes.join(", "),
+    includeKeywords: rule.includeKeywords.join(", "),
+    excludeKeywords: rule.excludeKeywords.join(", "),
+    furnished: rule.furnished === null ? "any" : rule.furnished ? "furnished" : "unfurnished",
+    sourceIds: rule.sourceIds,
+    channelIds: rule.channelIds,
+  };
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function toNumber(value: string): number | null {
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toBody(draft: RuleDraft) {
+  return {
+    name: draft.name,
+    owner: draft.owner,
+    enabled: draft.enabled,
+    maxRent: toNumber(draft.maxRent),
+    minSurfaceM2: toNumber(draft.minSurfaceM2),
+    minRooms: toNumber(draft.minRooms),
+    cities: splitList(draft.cities),
+    postcodes: splitList(draft.postcodes),
+    includeKeywords: splitList(draft.includeKeywords),
+    excludeKeywords: splitList(draft.excludeKeywords),
+    furnished: draft.furnished === "any" ? null : draft.furnished === "furnished",
+    sourceIds: draft.sourceIds,
+    channelIds: draft.channelIds,
+  };
+}
+
+function describeRule(rule: AlertRule): string {
+  const parts = [
+    rule.maxRent !== null && `≤ €${rule.maxRent}`,
+    rule.minSurfaceM2 !== null && `≥ ${rule.minSurfaceM2} m²`,
+    rule.minRooms !== null && `≥ ${rule.minRooms} rooms`,
+    rule.cities.length > 0 && rule.cities.join("/"),
+    rule.postcodes.length > 0 && rule.postcodes.join("/"),
+    rule.furnished !== null && (rule.furnished ? "furnished" : "unfurnished"),
+    rule.includeKeywords.length > 0 && `+${rule.includeKeywords.join(" +")}`,
+    rule.excludeKeywords.length > 0 && `-${rule.excludeKeywords.join(" -")}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Every listing";
+}
+
+export function RulesTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [preview, setPreview] = useState<TrackedListing[] | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<AlertRule | null>(null);
+
+  const { data, isLoading } = useQuery<{ rules: AlertRule[] }>({
+    queryKey: ["/api/rules"],
+  });
+
+  const { data: sourcesData } = useQuery<{ sources: ListingSource[] }>({
+    queryKey: ["/api/sources"],
+  });
+
+  const { data: channelsData } = useQuery<{ channels: NotificationChannel[] }>({
+    queryKey: ["/api/channels"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editingId
+        ? apiRequest("PATCH", `/api/rules/${editingId}`, toBody(draft))
+        : apiRequest("POST", "/api/rules", toBody(draft)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      setDialogOpen(false);
+      toast({
+        title: editingId ? "Rule Updated" : "Rule Added",
+        description: draft.name,
+      });
+    },
+    onError: onError("Saving Rule Failed"),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/rules/preview", toBody(draft));
+      return response.json() as Promise<{ listings: TrackedListing[] }>;
+    },
+    onSuccess: (result) => setPreview(result.listings),
+    onError: onError("Preview Failed"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: AlertRule) => apiRequest("PATCH", `/api/rules/${rule.id}`, { enabled: !rule.enabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError: onError("Updating Rule Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (rule: AlertRule) => apiRequest("DELETE", `/api/rules/${rule.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      setDeleteTarget(null);
+      toast({ title: "Rule Deleted" });
+    },
+    onError: onError("Deleting Rule Failed"),
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setPreview(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rule: AlertRule) => {
+    setEditingId(rule.id);
+    setDraft(toDraft(rule));
+    setPreview(null);
+    setDialogOpen(true);
+  };
+
+  const toggleId = (key: "sourceIds" | "channelIds", id: string, checked: boolean) => {
+    setDraft({
+      ...draft,
+      [key]: checked ? [...draft[key], id] : draft[key].filter((existing) => existing !== id),
+    });
+  };
+
+  const rules = data?.rules ?? [];
+  const sources = sourcesData?.sources ?? [];
+  const channels = channelsData?.channels ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <BellRing className="w-5 h-5 text-primary" />
+              <div>
+                <CardTitle className="text-lg">Alert Rules</CardTitle>
+                <CardDescription>Each rule is checked against every new or changed listing</CardDescription>
+              </div>
+            </div>
+            <Button size="sm" onClick={openCreate} data-testid="button-add-rule">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No alert rules yet</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-md border"
+                  data-testid={`row-rule-${rule.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge variant="secondary">{rule.owner}</Badge>
+                      {!rule.enabled && <Badge variant="outline">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+                    {rule.sourceIds.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        Only {rule.sourceIds.map((id) => sources.find((s) => s.id === id)?.name ?? id).join(", ")}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground truncate">
+                      →{" "}
+                      {rule.channelIds.length > 0
+                        ? rule.channelIds.map((id) => channels.find((c) => c.id === id)?.name ?? id).join(", ")
+                        : "source ntfy topic"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(rule)}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-rule-enabled-${rule.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEdit(rule)}
+                      data-testid={`button-edit-rule-${rule.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteTarget(rule)}
+                      data-testid={`button-delete-rule-${rule.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Rule" : "Add Rule"}</DialogTitle>
+            <DialogDescription>Leave a field empty to not filter on it. Lists are comma separated.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Strijp-S 2 bedrooms"
+                  data-testid="input-rule-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-owner">Owner</Label>
+                <Input
+                  id="rule-owner"
+                  value={draft.owner}
+                  onChange={(e) => setDraft({ ...draft, owner: e.target.value })}
+                  placeholder="Who gets these alerts"
+                  data-testid="input-rule-owner"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-max-rent">Max Rent (€)</Label>
+                <Input
+                  id="rule-max-rent"
+                  inputMode="decimal"
+                  value={draft.maxRent}
+                  onChange={(e) => setDraft({ ...draft, maxRent: e.target.value })}
+                  data-testid="input-rule-max-rent"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-min-surface">Min m²</Label>
+                <Input
+                  id="rule-min-surface"
+                  inputMode="decimal"
+                  value={draft.minSurfaceM2}
+                  onChange={(e) => setDraft({ ...draft, minSurfaceM2: e.target.value })}
+                  data-testid="input-rule-min-surface"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-min-rooms">Min Rooms</Label>
+                <Input
+                  id="rule-min-rooms"
+                  inputMode="decimal"
+                  value={draft.minRooms}
+                  onChange={(e) => setDraft({ ...draft, minRooms: e.target.value })}
+                  data-testid="input-rule-min-rooms"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Interior</Label>
+                <Select
+                  value={draft.furnished}
+                  onValueChange={(furnished) => setDraft({ ...draft, furnished: furnished as FurnishedChoice })}
+                >
+                  <SelectTrigger data-testid="select-rule-furnished">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    <SelectItem value="furnished">Furnished</SelectItem>
+                    <SelectItem value="unfurnished">Unfurnished</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-cities">Cities</Label>
+                <Input
+                  id="rule-cities"
+                  value={draft.cities}
+                  onChange={(e) => setDraft({ ...draft, cities: e.target.value })}
+                  placeholder="Eindhoven, Veldhoven"
+                  data-testid="input-rule-cities"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-postcodes">Postcodes</Label>
+                <Input
+                  id="rule-postcodes"
+                  value={draft.postcodes}
+                  onChange={(e) => setDraft({ ...draft, postcodes: e.target.value })}
+                  placeholder="5617, 5611 AB"
+                  className="font-mono"
+                  data-testid="input-rule-postcodes"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-include">Include Keywords</Label>
+                <Input
+                  id="rule-include"
+                  value={draft.includeKeywords}
+                  onChange={(e) => setDraft({ ...draft, includeKeywords: e.target.value })}
+                  placeholder="balkon, lift"
+                  data-testid="input-rule-include"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-exclude">Exclude Keywords</Label>
+                <Input
+                  id="rule-exclude"
+                  value={draft.excludeKeywords}
+                  onChange={(e) => setDraft({ ...draft, excludeKeywords: e.target.value })}
+                  placeholder="kamer, student"
+                  data-testid="input-rule-exclude"
+                />
+              </div>
+            </div>
+            {sources.length > 0 && (
+              <div className="space-y-2">
+                <Label>Sources (none selected = all)</Label>
+                <div className="flex flex-wrap gap-4">
+                  {sources.map((source) => (
+                    <div key={source.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-source-${source.id}`}
+                        checked={draft.sourceIds.includes(source.id)}
+                        onCheckedChange={(checked) => toggleId("sourceIds", source.id, checked === true)}
+                        data-testid={`checkbox-rule-source-${source.id}`}
+                      />
+                      <Label htmlFor={`rule-source-${source.id}`} className="text-sm font-normal">
+                        {source.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Channels (none selected = the source's ntfy topic)</Label>
+              {channels.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Add channels in the Channels tab</p>
+              ) : (
+                <div className="flex flex-wrap gap-4">
+                  {channels.map((channel) => (
+                    <div key={channel.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-channel-${channel.id}`}
+                        checked={draft.channelIds.includes(channel.id)}
+                        onCheckedChange={(checked) => toggleId("channelIds", channel.id, checked === true)}
+                        data-testid={`checkbox-rule-channel-${channel.id}`}
+                      />
+                      <Label htmlFor={`rule-channel-${channel.id}`} className="text-sm font-normal">
+                        {channel.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="rule-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              />
+              <Label htmlFor="rule-enabled">Enabled</Label>
+            </div>
+
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {preview.length} current listing{preview.length === 1 ? "" : "s"} would match
+                </p>
+                {preview.length > 0 && (
+                  <ScrollArea className="h-48 w-full rounded-md border">
+                    <div className="p-3 space-y-2">
+                      {preview.map((listing) => (
+                        <div key={listing.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="truncate">
+                            {listing.url ? (
+                              <a href={listing.url} target="_blank" rel="noreferrer" className="underline">
+                                {listing.title}
+                              </a>
+                            ) : (
+                              listing.title
+                            )}
+                          </span>
+                          <span className="flex items-center gap-2 shrink-0 font-mono">
+                            {listing.price !== null && <span>€{listing.price}</span>}
+                            {listing.surfaceM2 !== null && <span>{listing.surfaceM2} m²</span>}
+                            {listing.rooms !== null && <span>{listing.rooms} r</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending || !draft.name.trim() || !draft.owner.trim()}
+              data-testid="button-preview-rule"
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="w-4 h-4 mr-2" />
+              )}
+              Preview
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !draft.name.trim() || !draft.owner.trim()}
+              data-testid="button-save-rule"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.owner} will stop receiving alerts for "{deleteTarget?.name}".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              data-testid="button-confirm-delete-rule"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
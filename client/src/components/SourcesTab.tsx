@@ -0,0 +1,458 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ExtractorDialog } from "@/components/ExtractorDialog";
+import { Globe, Loader2, Pencil, Play, Plus, ScanSearch, Square, Timer, Trash2 } from "lucide-react";
+import type { ListingSource, SchedulerRun } from "@shared/schema";
+
+interface SchedulerState {
+  running: boolean;
+  startedAt: string | null;
+  sources: Array<{ sourceId: string; nextRunAt: string | null; inFlight: boolean }>;
+}
+
+interface SourceDraft {
+  name: string;
+  url: string;
+  mode: "http" | "browser";
+  waitForSelector: string;
+  pollIntervalMinutes: number;
+  enabled: boolean;
+  ntfyTopic: string;
+}
+
+const EMPTY_DRAFT: SourceDraft = {
+  name: "",
+  url: "",
+  mode: "http",
+  waitForSelector: "",
+  pollIntervalMinutes: 15,
+  enabled: true,
+  ntfyTopic: "strijps",
+};
+
+function toDraft(source: ListingSource): SourceDraft {
+  return {
+    name: source.name,
+    url: source.url,
+    mode: source.mode,
+    waitForSelector: source.waitForSelector ?? "",
+    pollIntervalMinutes: source.pollIntervalMinutes,
+    enabled: source.enabled,
+    ntfyTopic: source.ntfyTopic,
+  };
+}
+
+export function SourcesTab() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<SourceDraft>(EMPTY_DRAFT);
+  const [deleteTarget, setDeleteTarget] = useState<ListingSource | null>(null);
+  const [extractorTarget, setExtractorTarget] = useState<ListingSource | null>(null);
+
+  const { data, isLoading } = useQuery<{ sources: ListingSource[] }>({
+    queryKey: ["/api/sources"],
+  });
+
+  const { data: scheduler } = useQuery<SchedulerState>({
+    queryKey: ["/api/scheduler/status"],
+    refetchInterval: 5000,
+  });
+
+  const { data: runsData } = useQuery<{ runs: SchedulerRun[] }>({
+    queryKey: ["/api/scheduler/runs"],
+    refetchInterval: 10000,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        ...draft,
+        waitForSelector: draft.mode === "browser" && draft.waitForSelector.trim() ? draft.waitForSelector.trim() : null,
+      };
+      return editingId
+        ? apiRequest("PATCH", `/api/sources/${editingId}`, body)
+        : apiRequest("POST", "/api/sources", body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows/template"] });
+      setDialogOpen(false);
+      toast({
+        title: editingId ? "Source Updated" : "Source Added",
+        description: draft.name,
+      });
+    },
+    onError: onError("Saving Source Failed"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (source: ListingSource) =>
+      apiRequest("PATCH", `/api/sources/${source.id}`, { enabled: !source.enabled }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows/template"] });
+    },
+    onError: onError("Updating Source Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (source: ListingSource) => apiRequest("DELETE", `/api/sources/${source.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sources"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workflows/template"] });
+      setDeleteTarget(null);
+      toast({ title: "Source Deleted" });
+    },
+    onError: onError("Deleting Source Failed"),
+  });
+
+  const schedulerMutation = useMutation({
+    mutationFn: (action: "start" | "stop") => apiRequest("POST", `/api/scheduler/${action}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/status"] });
+    },
+    onError: onError("Scheduler Error"),
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async (source: ListingSource) => {
+      const response = await apiRequest("POST", `/api/scheduler/run/${source.id}`);
+      return response.json() as Promise<SchedulerRun>;
+    },
+    onSuccess: (run) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/runs"] });
+      toast({
+        title: run.status === "success" ? "Fetch Succeeded" : "Fetch Failed",
+        description: run.error ?? `HTTP ${run.httpStatus} in ${run.durationMs}ms`,
+        variant: run.status === "success" ? "default" : "destructive",
+      });
+    },
+    onError: onError("Run Failed"),
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (source: ListingSource) => {
+    setEditingId(source.id);
+    setDraft(toDraft(source));
+    setDialogOpen(true);
+  };
+
+  const sources = data?.sources ?? [];
+  const sourceNames = new Map(sources.map((source) => [source.id, source.name]));
+  const nextRuns = new Map(scheduler?.sources.map((entry) => [entry.sourceId, entry]) ?? []);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Globe className="w-5 h-5 text-primary" />
+              <div>
+                <CardTitle className="text-lg">Listing Sources</CardTitle>
+                <CardDescription>Rental sites polled through the fetcher</CardDescription>
+              </div>
+            </div>
+            <Button size="sm" onClick={openCreate} data-testid="button-add-source">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Source
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          ) : sources.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sources configured yet</p>
+          ) : (
+            <div className="space-y-2">
+              {sources.map((source) => (
+                <div
+                  key={source.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-md border"
+                  data-testid={`row-source-${source.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{source.name}</span>
+                      <Badge variant="secondary" className="uppercase">{source.mode}</Badge>
+                      {!source.enabled && <Badge variant="outline">Paused</Badge>}
+                      {!source.extractorConfig && <Badge variant="outline">No extractor</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{source.url}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Every {source.pollIntervalMinutes} min → ntfy topic "{source.ntfyTopic}"
+                      {nextRuns.get(source.id)?.nextRunAt &&
+                        ` · next run ${new Date(nextRuns.get(source.id)!.nextRunAt!).toLocaleTimeString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => runNowMutation.mutate(source)}
+                      disabled={runNowMutation.isPending || nextRuns.get(source.id)?.inFlight}
+                      data-testid={`button-run-source-${source.id}`}
+                    >
+                      {runNowMutation.isPending && runNowMutation.variables?.id === source.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Play className="w-4 h-4" />
+                      )}
+                    </Button>
+                    <Switch
+                      checked={source.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(source)}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-source-enabled-${source.id}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setExtractorTarget(source)}
+                      data-testid={`button-extractor-source-${source.id}`}
+                    >
+                      <ScanSearch className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openEdit(source)}
+                      data-testid={`button-edit-source-${source.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteTarget(source)}
+                      data-testid={`button-delete-source-${source.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Timer className="w-5 h-5 text-primary" />
+              <div>
+                <CardTitle className="text-lg">Polling Scheduler</CardTitle>
+                <CardDescription>
+                  {scheduler?.running
+                    ? `Running since ${new Date(scheduler.startedAt!).toLocaleString()}`
+                    : "Stopped - sources are only fetched on demand"}
+                </CardDescription>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant={scheduler?.running ? "outline" : "default"}
+              onClick={() => schedulerMutation.mutate(scheduler?.running ? "stop" : "start")}
+              disabled={schedulerMutation.isPending}
+              data-testid="button-toggle-scheduler"
+            >
+              {scheduler?.running ? <Square className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+              {scheduler?.running ? "Stop" : "Start"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!runsData?.runs.length ? (
+            <p className="text-sm text-muted-foreground">No runs recorded yet</p>
+          ) : (
+            <ScrollArea className="h-64 w-full rounded-md border">
+              <div className="p-3 space-y-2">
+                {runsData.runs.map((run) => (
+                  <div key={run.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-mono">{new Date(run.startedAt).toLocaleString()}</span>
+                    <span className="truncate">{sourceNames.get(run.sourceId) ?? run.sourceId}</span>
+                    <span className="flex items-center gap-2">
+                      {run.httpStatus && <span className="font-mono">HTTP {run.httpStatus}</span>}
+                      {run.listingCount !== null && <span>{run.listingCount} listings</span>}
+                      {run.durationMs !== null && <span className="text-muted-foreground">{run.durationMs}ms</span>}
+                      {run.status === "success" && <Badge className="bg-emerald-500 text-white">OK</Badge>}
+                      {run.status === "running" && <Badge variant="secondary">Running</Badge>}
+                      {run.status === "error" && (
+                        <Badge variant="destructive" title={run.error ?? undefined}>Error</Badge>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Source" : "Add Source"}</DialogTitle>
+            <DialogDescription>Configure how this rental site is fetched and where alerts go</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="source-name">Name</Label>
+              <Input
+                id="source-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Pararius Eindhoven"
+                data-testid="input-source-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-url">URL</Label>
+              <Input
+                id="source-url"
+                value={draft.url}
+                onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                placeholder="https://..."
+                data-testid="input-source-url"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Fetch Mode</Label>
+                <Select
+                  value={draft.mode}
+                  onValueChange={(mode) => setDraft({ ...draft, mode: mode as SourceDraft["mode"] })}
+                >
+                  <SelectTrigger data-testid="select-source-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="http">HTTP</SelectItem>
+                    <SelectItem value="browser">Browser (Playwright)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-interval">Poll Interval (minutes)</Label>
+                <Input
+                  id="source-interval"
+                  type="number"
+                  min={1}
+                  value={draft.pollIntervalMinutes}
+                  onChange={(e) => setDraft({ ...draft, pollIntervalMinutes: parseInt(e.target.value, 10) || 1 })}
+                  data-testid="input-source-interval"
+                />
+              </div>
+            </div>
+            {draft.mode === "browser" && (
+              <div className="space-y-2">
+                <Label htmlFor="source-selector">Wait For Selector</Label>
+                <Input
+                  id="source-selector"
+                  value={draft.waitForSelector}
+                  onChange={(e) => setDraft({ ...draft, waitForSelector: e.target.value })}
+                  placeholder=".listing-item"
+                  className="font-mono"
+                  data-testid="input-source-selector"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="source-topic">ntfy Topic</Label>
+              <Input
+                id="source-topic"
+                value={draft.ntfyTopic}
+                onChange={(e) => setDraft({ ...draft, ntfyTopic: e.target.value })}
+                data-testid="input-source-topic"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="source-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              />
+              <Label htmlFor="source-enabled">Enabled</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !draft.name.trim() || !draft.url.trim()}
+              data-testid="button-save-source"
+            >
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ExtractorDialog source={extractorTarget} onOpenChange={(open) => !open && setExtractorTarget(null)} />
+
+      <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete source?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.name} will no longer be polled. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              data-testid="button-confirm-delete-source"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Layers, Loader2, RotateCcw, Save } from "lucide-react";
+import type { StackPlan, StackService } from "@shared/schema";
+
+type PlanService = "postgres" | "n8n" | "ntfy" | "fetcher";
+type ServiceMode = StackService["mode"];
+
+interface StackPlanResponse {
+  plan: StackPlan;
+  custom: boolean;
+  defaults: StackPlan;
+}
+
+interface ServiceDraft {
+  mode: ServiceMode;
+  imageTag: string;
+  containerName: string;
+  memoryLimit: string;
+  cpuLimit: string;
+  url: string;
+}
+
+interface ExternalDraft {
+  host: string;
+  port: string;
+  database: string;
+  user: string;
+  passwordVar: string;
+  network: string;
+}
+
+interface PlanDraft {
+  services: Record<PlanService, ServiceDraft>;
+  external: ExternalDraft;
+}
+
+const SERVICES: { name: PlanService; label: string; image: string }[] = [
+  { name: "postgres", label: "PostgreSQL", image: "postgres" },
+  { name: "n8n", label: "n8n", image: "n8nio/n8n" },
+  { name: "ntfy", label: "ntfy", image: "binwiederhier/ntfy" },
+  { name: "fetcher", label: "Fetcher", image: "mcr.microsoft.com/playwright" },
+];
+
+const MODE_LABEL: Record<ServiceMode, string> = {
+  deploy: "Deploy",
+  reuse: "Reuse existing",
+  skip: "Skip",
+};
+
+const EMPTY_EXTERNAL: ExternalDraft = {
+  host: "127.0.0.1",
+  port: "5432",
+  database: "",
+  user: "",
+  passwordVar: "EXISTING_POSTGRES_PASSWORD",
+  network: "",
+};
+
+function toServiceDraft(service: StackService): ServiceDraft {
+  return {
+    mode: service.mode,
+    imageTag: service.imageTag,
+    containerName: service.containerName,
+    memoryLimit: service.memoryLimit ?? "",
+    cpuLimit: service.cpuLimit === null ? "" : String(service.cpuLimit),
+    url: service.url ?? "",
+  };
+}
+
+function toDraft(plan: StackPlan): PlanDraft {
+  const external = plan.postgres.external;
+  return {
+    services: {
+      postgres: toServiceDraft(plan.postgres),
+      n8n: toServiceDraft(plan.n8n),
+      ntfy: toServiceDraft(plan.ntfy),
+      fetcher: toServiceDraft(plan.fetcher),
+    },
+    external: external
+      ? { ...external, port: String(external.port), network: external.network ?? "" }
+      : EMPTY_EXTERNAL,
+  };
+}
+
+function fromServiceDraft(draft: ServiceDraft): StackService {
+  return {
+    mode: draft.mode,
+    imageTag: draft.imageTag.trim(),
+    containerName: draft.containerName.trim(),
+    memoryLimit: draft.memoryLimit.trim() || null,
+    cpuLimit: draft.cpuLimit.trim() ? Number(draft.cpuLimit) : null,
+    url: draft.mode === "reuse" && draft.url.trim() ? draft.url.trim() : null,
+  };
+}
+
+// The server validates the plan; the draft only converts the text fields
+function fromDraft(draft: PlanDraft): StackPlan {
+  const { external } = draft;
+  return {
+    postgres: {
+      ...fromServiceDraft(draft.services.postgres),
+      external:
+        draft.services.postgres.mode === "reuse"
+          ? { ...external, port: Number(external.port), network: external.network.trim() || null }
+          : null,
+    },
+    n8n: fromServiceDraft(draft.services.n8n),
+    ntfy: fromServiceDraft(draft.services.ntfy),
+    fetcher: fromServiceDraft(draft.services.fetcher),
+  };
+}
+
+// Which services the next deploy to the host brings up (or reuses, or leaves
+// out), their image tags, container names and resource limits
+export function StackPlanCard({ hostId, disabled }: { hostId?: string; disabled?: boolean }) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+
+  const { data } = useQuery<StackPlanResponse>({
+    queryKey: ["/api/hosts", hostId, "stack-plan"],
+    enabled: Boolean(hostId),
+  });
+
+  useEffect(() => {
+    if (data) setDraft(toDraft(data.plan));
+  }, [data]);
+
+  const onSaved = (saved: StackPlanResponse, title: string) => {
+    queryClient.setQueryData(["/api/hosts", hostId, "stack-plan"], saved);
+    queryClient.invalidateQueries({ queryKey: ["/api/hosts"] });
+    toast({ title, description: "Used by the next deploy" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (plan: StackPlan) => {
+      const response = await apiRequest("PUT", `/api/hosts/${hostId}/stack-plan`, plan);
+      return response.json() as Promise<StackPlanResponse>;
+    },
+    onSuccess: (saved) => onSaved(saved, "Stack Plan Saved"),
+    onError: (error: Error) => {
+      toast({ title: "Stack Plan Not Saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/hosts/${hostId}/stack-plan`);
+      return response.json() as Promise<StackPlanResponse>;
+    },
+    onSuccess: (saved) => onSaved(saved, "Stack Plan Reset"),
+    onError: (error: Error) => {
+      toast({ title: "Reset Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!hostId || !data || !draft) return null;
+
+  const setService = (name: PlanService, patch: Partial<ServiceDraft>) =>
+    setDraft({ ...draft, services: { ...draft.services, [name]: { ...draft.services[name], ...patch } } });
+  const setExternal = (patch: Partial<ExternalDraft>) => setDraft({ ...draft, external: { ...draft.external, ...patch } });
+  const dirty = JSON.stringify(fromDraft(draft)) !== JSON.stringify(fromDraft(toDraft(data.plan)));
+  const busy = disabled || saveMutation.isPending || resetMutation.isPending;
+
+  return (
+    <Card data-testid="card-stack-plan">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Layers className="w-5 h-5" />
+              Stack Plan
+              {!data.custom && <Badge variant="outline">Defaults</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Deploy each service, reuse one already running on the VPS, or leave it out
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => resetMutation.mutate()}
+              disabled={busy || !data.custom}
+              data-testid="button-reset-stack-plan"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Defaults
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate(fromDraft(draft))}
+              disabled={busy || !dirty}
+              data-testid="button-save-stack-plan"
+            >
+              {saveMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {SERVICES.map(({ name, label, image }) => {
+          const service = draft.services[name];
+          const deployed = service.mode === "deploy";
+          return (
+            <div key={name} className="space-y-2 border-b pb-4 last:border-b-0 last:pb-0" data-testid={`stack-plan-${name}`}>
+              <div className="grid gap-2 md:grid-cols-6 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Select value={service.mode} onValueChange={(mode) => setService(name, { mode: mode as ServiceMode })}>
+                    <SelectTrigger data-testid={`select-stack-mode-${name}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MODE_LABEL) as ServiceMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {MODE_LABEL[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label className="text-xs text-muted-foreground">{image}:</Label>
+                  <Input
+                    value={service.imageTag}
+                    onChange={(e) => setService(name, { imageTag: e.target.value })}
+                    disabled={!deployed}
+                    className="font-mono"
+                    data-testid={`input-stack-tag-${name}`}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Container</Label>
+                  <Input
+                    value={service.containerName}
+                    onChange={(e) => setService(name, { containerName: e.target.value })}
+                    disabled={!deployed}
+                    className="font-mono"
+                    data-testid={`input-stack-container-${name}`}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Memory</Label>
+                  <Input
+                    value={service.memoryLimit}
+                    onChange={(e) => setService(name, { memoryLimit: e.target.value })}
+                    disabled={!deployed}
+                    placeholder="No limit"
+                    data-testid={`input-stack-memory-${name}`}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">CPUs</Label>
+                  <Input
+                    value={service.cpuLimit}
+                    onChange={(e) => setService(name, { cpuLimit: e.target.value })}
+                    disabled={!deployed}
+                    placeholder="No limit"
+                    data-testid={`input-stack-cpus-${name}`}
+                  />
+                </div>
+              </div>
+
+              {service.mode === "reuse" && name !== "postgres" && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">URL of the existing {label}, as reached from the VPS</Label>
+                  <Input
+                    value={service.url}
+                    onChange={(e) => setService(name, { url: e.target.value })}
+                    placeholder="http://127.0.0.1:8080"
+                    className="font-mono"
+                    data-testid={`input-stack-url-${name}`}
+                  />
+                </div>
+              )}
+
+              {service.mode === "reuse" && name === "postgres" && (
+                <div className="grid gap-2 md:grid-cols-6">
+                  {(
+                    [
+                      ["host", "Host or container"],
+                      ["port", "Port"],
+                      ["database", "Database"],
+                      ["user", "User"],
+                      ["passwordVar", "Password variable in .env"],
+                      ["network", "Docker network"],
+                    ] as const
+                  ).map(([field, fieldLabel]) => (
+                    <div key={field} className="space-y-1">
+                      <Label className="text-xs text-muted-foreground">{fieldLabel}</Label>
+                      <Input
+                        value={draft.external[field]}
+                        onChange={(e) => setExternal({ [field]: e.target.value })}
+                        placeholder={field === "network" ? "None" : undefined}
+                        className="font-mono"
+                        data-testid={`input-stack-postgres-${field}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <p className="text-xs text-muted-foreground">
+          Changes apply on the next deploy. A reused Postgres on the VPS itself must accept connections from the Docker
+          bridge; with a network, n8n joins it and reaches the database by container name.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Activity } from "lucide-react";
+import type { HealthSample, ServiceName, ServiceUptime, UptimeBucket, UptimeWindow } from "@shared/schema";
+
+interface HealthMonitorResponse {
+  monitor: { running: boolean; intervalSeconds: number; lastRunAt: string | null };
+  window: UptimeWindow;
+  services: Record<ServiceName, ServiceUptime>;
+  lastSample: HealthSample | null;
+}
+
+const UPTIME_WINDOWS: UptimeWindow[] = ["24h", "7d"];
+
+const SERVICES: { name: ServiceName; label: string }[] = [
+  { name: "postgres", label: "PostgreSQL" },
+  { name: "n8n", label: "n8n" },
+  { name: "ntfy", label: "ntfy" },
+  { name: "fetcher", label: "Fetcher" },
+];
+
+function bucketClass(bucket: UptimeBucket): string {
+  if (bucket.samples === 0) return "bg-muted";
+  if (bucket.healthy === bucket.samples) return "bg-emerald-500";
+  if (bucket.healthy === 0) return "bg-destructive";
+  return "bg-amber-500";
+}
+
+function bucketTitle(bucket: UptimeBucket): string {
+  const start = new Date(bucket.start).toLocaleString();
+  return bucket.samples === 0 ? `${start}: no data` : `${start}: healthy in ${bucket.healthy} of ${bucket.samples} checks`;
+}
+
+// Per-service uptime from the background health monitor, as a percentage and
+// a timeline of buckets (green: all checks healthy, amber: some, red: none)
+export function UptimeCard({ hostId }: { hostId?: string }) {
+  const [uptimeWindow, setUptimeWindow] = useState<UptimeWindow>("24h");
+
+  const { data } = useQuery<HealthMonitorResponse>({
+    queryKey: ["/api/health-monitor", { hostId, window: uptimeWindow }],
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card data-testid="card-uptime">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Activity className="w-5 h-5" />
+              Uptime
+            </CardTitle>
+            <CardDescription>
+              {!data?.monitor.running
+                ? "Health monitor is off"
+                : data.monitor.lastRunAt
+                  ? `Checked every ${data.monitor.intervalSeconds}s, last at ${new Date(data.monitor.lastRunAt).toLocaleTimeString()}`
+                  : `Checked every ${data.monitor.intervalSeconds}s`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {UPTIME_WINDOWS.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={uptimeWindow === option ? "default" : "outline"}
+                onClick={() => setUptimeWindow(option)}
+                data-testid={`button-uptime-${option}`}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data?.lastSample?.error && (
+          <p className="text-xs text-destructive">Last check failed: {data.lastSample.error}</p>
+        )}
+        {SERVICES.map(({ name, label }) => {
+          const uptime = data?.services[name];
+          return (
+            <div key={name} className="space-y-1" data-testid={`uptime-${name}`}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{label}</span>
+                <span className="font-mono text-xs text-muted-foreground">
+                  {uptime?.uptimePercent !== null && uptime?.uptimePercent !== undefined
+                    ? `${uptime.uptimePercent}%`
+                    : "no data"}
+                </span>
+              </div>
+              <div className="flex h-5 gap-px">
+                {uptime?.buckets.map((bucket) => (
+                  <div
+                    key={bucket.start}
+                    className={`flex-1 rounded-sm ${bucketClass(bucket)}`}
+                    title={bucketTitle(bucket)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, ChevronDown, ChevronRight, Download, FileDiff, Loader2, Sprout, Upload, Workflow } from "lucide-react";
+import { DiffView } from "@/components/DeployPlanDialog";
+import type { N8nWorkflow, WorkflowHistory, WorkflowVersionSummary } from "@shared/schema";
+
+interface WorkflowExportResult {
+  created: WorkflowVersionSummary[];
+  unchanged: number;
+}
+
+interface WorkflowDiff {
+  version: WorkflowVersionSummary;
+  against: WorkflowVersionSummary | null;
+  diff: string;
+}
+
+interface WorkflowTemplate {
+  workflows: N8nWorkflow[];
+  warnings: string[];
+  // Why the host's stack plan can't run the template, if it can't
+  unavailable: string | null;
+}
+
+// The version before `version`, which a diff compares against by default
+const PREVIOUS = "previous";
+
+function VersionDiffDialog({
+  history,
+  version,
+  onClose,
+}: {
+  history: WorkflowHistory | null;
+  version: WorkflowVersionSummary | null;
+  onClose: () => void;
+}) {
+  const [against, setAgainst] = useState(PREVIOUS);
+
+  const { data, isLoading, error } = useQuery<WorkflowDiff>({
+    queryKey: ["/api/workflows/versions", version?.id, "diff", { against: against === PREVIOUS ? undefined : against }],
+    enabled: Boolean(version),
+  });
+
+  const others = history?.versions.filter((other) => other.id !== version?.id) ?? [];
+
+  return (
+    <Dialog
+      open={Boolean(version)}
+      onOpenChange={(open) => {
+        if (!open) {
+          setAgainst(PREVIOUS);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            {history?.name} v{version?.version}
+          </DialogTitle>
+          <DialogDescription>
+            {data ? (data.against ? `Changes since v${data.against.version}` : "First version") : "Loading diff..."}
+          </DialogDescription>
+        </DialogHeader>
+        {others.length > 0 && (
+          <Select value={against} onValueChange={setAgainst}>
+            <SelectTrigger className="w-64" data-testid="select-workflow-diff-against">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={PREVIOUS}>Previous version</SelectItem>
+              {others.map((other) => (
+                <SelectItem key={other.id} value={other.id}>
+                  v{other.version} · {new Date(other.createdAt).toLocaleString()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <ScrollArea className="h-[60vh] rounded-md border">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="p-4 text-sm text-destructive">{(error as Error).message}</p>
+          ) : data && data.diff.includes("@@") ? (
+            <DiffView diff={data.diff} />
+          ) : (
+            <p className="p-4 text-sm text-muted-foreground">No differences</p>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// n8n workflows exported from the selected host, with their versions, diffs
+// between them and re-import of a chosen version
+export function WorkflowsTab({ hostId }: { hostId?: string }) {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [diffTarget, setDiffTarget] = useState<{ history: WorkflowHistory; version: WorkflowVersionSummary } | null>(
+    null
+  );
+  const [importTarget, setImportTarget] = useState<{ history: WorkflowHistory; version: WorkflowVersionSummary } | null>(
+    null
+  );
+
+  const { data, isLoading } = useQuery<{ workflows: WorkflowHistory[] }>({
+    queryKey: ["/api/workflows", { hostId }],
+    enabled: Boolean(hostId),
+  });
+
+  const onExported = (result: WorkflowExportResult, title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/workflows"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    toast({
+      title,
+      description: `${result.created.length} new ${result.created.length === 1 ? "version" : "versions"}, ${result.unchanged} unchanged`,
+    });
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/workflows/export", { hostId });
+      return response.json() as Promise<WorkflowExportResult>;
+    },
+    onSuccess: (result) => onExported(result, "Workflows Exported"),
+    onError: (error: Error) => {
+      toast({ title: "Export Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (version: WorkflowVersionSummary) => {
+      const response = await apiRequest("POST", `/api/workflows/versions/${version.id}/import`);
+      return response.json() as Promise<WorkflowExportResult>;
+    },
+    onSuccess: (result) => {
+      setImportTarget(null);
+      onExported(result, "Workflow Imported");
+    },
+    onError: (error: Error) => {
+      setImportTarget(null);
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const workflows = data?.workflows ?? [];
+
+  return (
+    <Card data-testid="card-workflows">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="w-5 h-5" />
+              n8n Workflows
+            </CardTitle>
+            <CardDescription>
+              Each export keeps a new version of the workflows that changed; the newest are included in the GitHub sync
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={!hostId || exportMutation.isPending}
+            data-testid="button-export-workflows"
+          >
+            {exportMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Export from n8n
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : workflows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No workflows exported yet</p>
+        ) : (
+          <div className="space-y-2">
+            {workflows.map((history) => {
+              const open = expanded === history.workflowId;
+              const [newest] = history.versions;
+              return (
+                <div key={history.workflowId} className="rounded-md border" data-testid={`workflow-${history.workflowId}`}>
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover-elevate"
+                    onClick={() => setExpanded(open ? null : history.workflowId)}
+                  >
+                    {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    <span className="font-medium">{history.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{history.workflowId}</span>
+                    <Badge variant="outline" className="ml-auto">
+                      v{newest.version}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{new Date(newest.createdAt).toLocaleString()}</span>
+                  </button>
+                  {open && (
+                    <div className="space-y-1 border-t px-3 py-2">
+                      {history.versions.map((version) => (
+                        <div
+                          key={version.id}
+                          className="flex items-center justify-between gap-2 text-sm"
+                          data-testid={`workflow-version-${version.id}`}
+                        >
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono">v{version.version}</span>
+                            {version.id === newest.id && <Badge variant="default">Latest</Badge>}
+                            {version.name !== history.name && (
+                              <span className="text-xs text-muted-foreground">as "{version.name}"</span>
+                            )}
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(version.createdAt).toLocaleString()}
+                            </span>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setDiffTarget({ history, version })}
+                              data-testid={`button-diff-${version.id}`}
+                            >
+                              <FileDiff className="w-4 h-4 mr-2" />
+                              Diff
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={importMutation.isPending}
+                              onClick={() => setImportTarget({ history, version })}
+                              data-testid={`button-import-${version.id}`}
+                            >
+                              <Upload className="w-4 h-4 mr-2" />
+                              Import
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <VersionDiffDialog
+        history={diffTarget?.history ?? null}
+        version={diffTarget?.version ?? null}
+        onClose={() => setDiffTarget(null)}
+      />
+
+      <AlertDialog open={Boolean(importTarget)} onOpenChange={(open) => !open && setImportTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Import {importTarget?.history.name} v{importTarget?.version.version}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The workflow in n8n is replaced with this version. n8n deactivates imported workflows, so activate it again
+              in the editor. The current workflows are exported afterwards, so the import shows up as a new version.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => importTarget && importMutation.mutate(importTarget.version)}
+              data-testid="button-confirm-import"
+            >
+              {importMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Import
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+// The rental-polling workflows a deploy with "Seed n8n workflows" on imports:
+// one per enabled listing source with an extractor
+export function WorkflowTemplateCard({ hostId }: { hostId?: string }) {
+  const { data, isLoading } = useQuery<WorkflowTemplate>({
+    queryKey: ["/api/workflows/template", { hostId }],
+    enabled: Boolean(hostId),
+  });
+
+  return (
+    <Card data-testid="card-workflow-template">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sprout className="w-5 h-5" />
+          Rental Polling Template
+        </CardTitle>
+        <CardDescription>
+          Deploying with "Seed n8n workflows" on imports these into n8n, inactive, unless n8n already has them. Each
+          polls the fetcher, reads the listings with the source's selectors and posts new ones to its ntfy topic.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : data?.unavailable ? (
+          <p className="text-sm text-muted-foreground">{data.unavailable}</p>
+        ) : (
+          <>
+            {data?.workflows.length ? (
+              <div className="space-y-1">
+                {data.workflows.map((workflow) => (
+                  <div
+                    key={workflow.id}
+                    className="flex items-center gap-2 text-sm"
+                    data-testid={`template-workflow-${workflow.id}`}
+                  >
+                    <span className="font-medium">{workflow.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{workflow.id}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No enabled listing source has an extractor yet</p>
+            )}
+            {data?.warnings.map((warning) => (
+              <p key={warning} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <AlertTriangle className="w-3 h-3 shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -48,6 +48,23 @@ export async function apiRequest(
   return res;
 }
 
+// A trailing object in the query key becomes the query string, so
+// ["/api/status", { hostId }] fetches /api/status?hostId=... and is still
+// invalidated by ["/api/status"]
+function queryKeyToUrl(queryKey: readonly unknown[]): string {
+  const last = queryKey[queryKey.length - 1];
+  const params = last !== null && typeof last === "object" ? (last as Record<string, unknown>) : null;
+  const path = (params ? queryKey.slice(0, -1) : queryKey).join("/");
+  if (!params) return path;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -61,7 +78,7 @@ export const getQueryFn: <T>(options: {
       headers["X-Admin-Key"] = adminKey;
     }
 
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(queryKeyToUrl(queryKey), {
       credentials: "include",
       headers,
     });
@@ -0,0 +1,65 @@
+import { getAdminKey } from "./queryClient";
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+  id: string | null;
+}
+
+// EventSource can't send the X-Admin-Key header, so the stream is read with
+// fetch and the event-stream frames are parsed by hand. Resolves when the
+// server closes the stream; rejects on HTTP errors or a dropped connection.
+export async function readEventStream(
+  url: string,
+  onMessage: (message: SSEMessage) => void,
+  options: { signal?: AbortSignal; lastEventId?: string | null } = {}
+): Promise<void> {
+  const headers: Record<string, string> = { Accept: "text/event-stream" };
+  const adminKey = getAdminKey();
+  if (adminKey) {
+    headers["X-Admin-Key"] = adminKey;
+  }
+  if (options.lastEventId) {
+    headers["Last-Event-ID"] = options.lastEventId;
+  }
+
+  const res = await fetch(url, { headers, credentials: "include", signal: options.signal });
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (frame: string) => {
+    const message: SSEMessage = { event: "message", data: "", id: null };
+    const data: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (!line || line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "event") message.event = value;
+      else if (field === "data") data.push(value);
+      else if (field === "id") message.id = value;
+    }
+    if (data.length > 0) {
+      onMessage({ ...message, data: data.join("\n") });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
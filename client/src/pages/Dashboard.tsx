@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest, getAdminKey, setAdminKey, clearAdminKey } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,7 +8,22 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { SourcesTab } from "@/components/SourcesTab";
+import { RulesTab } from "@/components/RulesTab";
+import { ChannelsTab } from "@/components/ChannelsTab";
+import { WorkflowsTab, WorkflowTemplateCard } from "@/components/WorkflowsTab";
+import { HostsTab, HostSwitcher, type HostWithCredentials } from "@/components/HostsTab";
+import { JobLogPanel, JOB_KIND_LABEL, type JobOutcome } from "@/components/JobLogPanel";
+import { JobsCard } from "@/components/JobsCard";
+import { DeployStepsCard } from "@/components/DeployStepsCard";
+import { UptimeCard } from "@/components/UptimeCard";
+import { ReleasesCard } from "@/components/ReleasesCard";
+import { ImagesCard } from "@/components/ImagesCard";
+import { BackupsCard } from "@/components/BackupsCard";
+import { DeployPlanDialog } from "@/components/DeployPlanDialog";
+import { StackPlanCard } from "@/components/StackPlanCard";
 import {
   Server,
   Activity,
@@ -32,16 +47,58 @@ import {
   Lock,
   LogOut,
   Key,
+  History,
+  FileDiff,
+  MinusCircle,
 } from "lucide-react";
-import type { PreflightResult, DeploymentStatus } from "@shared/schema";
+import type {
+  PreflightResult,
+  PreflightScan,
+  DeploymentStatus,
+  DeployPlan,
+  Host,
+  Job,
+  ServiceHealth,
+} from "@shared/schema";
+
+const SELECTED_HOST_STORAGE = "selected_host_id";
 
 interface StatusResponse {
+  host: Host | null;
   deploymentStatus: DeploymentStatus;
   lastPreflightResult: PreflightResult | null;
   secretsConfigured: boolean;
 }
 
-function StatusBadge({ running, healthy }: { running: boolean; healthy: boolean }) {
+interface PreflightScanSummary {
+  id: string;
+  hostId: string | null;
+  hostname: string;
+  readyToDeploy: boolean;
+  warningCount: number;
+  containerCount: number;
+  createdAt: string;
+}
+
+function StatusBadge({
+  running,
+  healthy,
+  health,
+  mode,
+}: {
+  running: boolean;
+  healthy: boolean;
+  health?: string | null;
+  mode?: ServiceHealth["mode"];
+}) {
+  if (mode === "skip") {
+    return (
+      <Badge variant="outline">
+        <MinusCircle className="w-3 h-3 mr-1" />
+        Skipped
+      </Badge>
+    );
+  }
   if (running && healthy) {
     return (
       <Badge variant="default" className="bg-emerald-500 text-white">
@@ -54,7 +111,7 @@ function StatusBadge({ running, healthy }: { running: boolean; healthy: boolean
     return (
       <Badge variant="secondary" className="bg-amber-500 text-white">
         <Activity className="w-3 h-3 mr-1" />
-        Running
+        {health === "starting" ? "Starting" : health === "unhealthy" ? "Unhealthy" : "Running"}
       </Badge>
     );
   }
@@ -66,6 +123,13 @@ function StatusBadge({ running, healthy }: { running: boolean; healthy: boolean
   );
 }
 
+function formatUptime(startedAt: string): string {
+  const minutes = Math.max(0, Math.floor((Date.now() - new Date(startedAt).getTime()) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / 1440)}d ${Math.floor((minutes % 1440) / 60)}h`;
+}
+
 function ServiceCard({
   name,
   icon: Icon,
@@ -76,7 +140,7 @@ function ServiceCard({
   name: string;
   icon: typeof Server;
   description: string;
-  status?: { running: boolean; healthy: boolean };
+  status?: ServiceHealth;
   url?: string;
 }) {
   return (
@@ -89,14 +153,111 @@ function ServiceCard({
             </div>
             <CardTitle className="text-base">{name}</CardTitle>
           </div>
-          {status && <StatusBadge running={status.running} healthy={status.healthy} />}
+          {status && (
+            <StatusBadge running={status.running} healthy={status.healthy} health={status.health} mode={status.mode} />
+          )}
         </div>
       </CardHeader>
       <CardContent>
-        <CardDescription className="text-sm">{description}</CardDescription>
+        <CardDescription className="text-sm">
+          {status?.mode === "reuse" ? `${description} (existing service)` : description}
+        </CardDescription>
         {url && (
           <p className="mt-2 text-xs text-muted-foreground font-mono truncate">{url}</p>
         )}
+        {status?.state && (
+          <p className="mt-2 text-xs text-muted-foreground" data-testid={`text-service-state-${name.toLowerCase()}`}>
+            {status.state}
+            {status.running && status.startedAt && ` for ${formatUptime(status.startedAt)}`}
+            {!status.running && status.exitCode !== null && status.exitCode !== undefined && ` (exit ${status.exitCode})`}
+            {status.restarts ? ` · ${status.restarts} restart${status.restarts === 1 ? "" : "s"}` : ""}
+          </p>
+        )}
+        {!status?.healthy && status?.lastError && (
+          <p className="mt-1 text-xs text-destructive line-clamp-2" title={status.lastError}>
+            {status.lastError}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PreflightHistory({ hostId }: { hostId?: string }) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: history } = useQuery<{ scans: PreflightScanSummary[] }>({
+    queryKey: ["/api/preflight/history", { hostId }],
+  });
+
+  const { data: selected, isLoading: selectedLoading } = useQuery<PreflightScan>({
+    queryKey: ["/api/preflight", selectedId],
+    enabled: Boolean(selectedId),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <History className="w-5 h-5 text-primary" />
+          <div>
+            <CardTitle className="text-lg">Scan History</CardTitle>
+            <CardDescription>Previous preflight scans of this VPS</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!history?.scans.length ? (
+          <p className="text-sm text-muted-foreground">No previous scans recorded</p>
+        ) : (
+          <ScrollArea className="h-64 w-full rounded-md border">
+            <div className="p-2 space-y-1">
+              {history.scans.map((scan) => (
+                <div key={scan.id}>
+                  <button
+                    type="button"
+                    className="w-full flex items-center justify-between gap-2 rounded-md px-3 py-2 text-left text-sm hover-elevate"
+                    onClick={() => setSelectedId(selectedId === scan.id ? null : scan.id)}
+                    data-testid={`button-preflight-history-${scan.id}`}
+                  >
+                    <span className="font-mono text-xs">{new Date(scan.createdAt).toLocaleString()}</span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{scan.hostname}</span>
+                      {scan.warningCount > 0 && (
+                        <Badge variant="secondary">{scan.warningCount} warnings</Badge>
+                      )}
+                      {scan.readyToDeploy ? (
+                        <Badge className="bg-emerald-500 text-white">Ready</Badge>
+                      ) : (
+                        <Badge variant="destructive">Not Ready</Badge>
+                      )}
+                    </span>
+                  </button>
+                  {selectedId === scan.id && (
+                    <div className="mx-3 mb-2 p-3 rounded-md bg-muted text-xs space-y-2">
+                      {selectedLoading || !selected ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <p className="font-mono">{selected.result.osInfo.distro} · {selected.result.osInfo.kernel}</p>
+                          <p>
+                            Docker: {selected.result.docker.version ?? "not installed"} · {scan.containerCount} containers
+                          </p>
+                          <p className="font-mono">
+                            Ports: postgres {selected.result.safePlan.portsToUse.postgres}, n8n {selected.result.safePlan.portsToUse.n8n}, ntfy {selected.result.safePlan.portsToUse.ntfy}, fetcher {selected.result.safePlan.portsToUse.fetcher}
+                          </p>
+                          {selected.result.safePlan.warnings.map((w, i) => (
+                            <p key={i} className="text-amber-600">• {w}</p>
+                          ))}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
       </CardContent>
     </Card>
   );
@@ -256,20 +417,51 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
   const { toast } = useToast();
   const [ntfyTopic, setNtfyTopic] = useState("strijps");
   const [ntfyMessage, setNtfyMessage] = useState("Test notification from LivingRental Alert");
-  const [deployLogs, setDeployLogs] = useState<string[]>([]);
+  const [logJob, setLogJob] = useState<Pick<Job, "id" | "kind"> | null>(null);
+  const [deployPlan, setDeployPlan] = useState<DeployPlan | null>(null);
+  // Whether the next deploy seeds n8n with the rental-polling workflows
+  const [seedWorkflows, setSeedWorkflows] = useState(false);
+  // The deploy, rollback, upgrade, backup or restore started from this page, so its outcome is toasted
+  // only once
+  const startedDeployId = useRef<string | null>(null);
+  const [selectedHostId, setSelectedHostId] = useState<string | null>(() =>
+    localStorage.getItem(SELECTED_HOST_STORAGE)
+  );
+
+  const { data: hostsData, isLoading: hostsLoading } = useQuery<{ hosts: HostWithCredentials[] }>({
+    queryKey: ["/api/hosts"],
+  });
+
+  // Fall back to the primary host when nothing is selected or the selected
+  // host has since been deleted
+  const hosts = hostsData?.hosts ?? [];
+  const hostId = (
+    hosts.find((host) => host.id === selectedHostId) ??
+    hosts.find((host) => host.primary) ??
+    hosts[0]
+  )?.id;
+  const hostQuery = hostId ? `?hostId=${encodeURIComponent(hostId)}` : "";
+
+  const selectHost = (id: string) => {
+    localStorage.setItem(SELECTED_HOST_STORAGE, id);
+    setSelectedHostId(id);
+  };
 
-  const { data: status, isLoading } = useQuery<StatusResponse>({
-    queryKey: ["/api/status"],
+  const { data: status, isLoading: statusLoading } = useQuery<StatusResponse>({
+    queryKey: ["/api/status", { hostId }],
     refetchInterval: 5000,
+    enabled: !hostsLoading,
   });
+  const isLoading = hostsLoading || statusLoading;
 
   const preflightMutation = useMutation({
-    mutationFn: () => apiRequest("POST", "/api/preflight"),
+    mutationFn: () => apiRequest("POST", `/api/preflight${hostQuery}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/preflight/history"] });
       toast({
         title: "Preflight Complete",
-        description: "VPS scan completed successfully",
+        description: `${status?.host?.name ?? "VPS"} scan completed successfully`,
       });
     },
     onError: (error: Error) => {
@@ -283,29 +475,69 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
 
   const deployMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/deploy");
-      return response.json() as Promise<{ success: boolean; message: string; logs: string[] }>;
+      const response = await apiRequest("POST", `/api/deploy${hostQuery}`, seedWorkflows ? { seedWorkflows } : undefined);
+      return response.json() as Promise<{ deploymentId: string; job: Job }>;
     },
     onSuccess: (data) => {
-      setDeployLogs(data.logs || []);
+      setLogJob(data.job);
+      startedDeployId.current = data.job.id;
       queryClient.invalidateQueries({ queryKey: ["/api/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+    onError: (error: Error) => {
       toast({
-        title: data.success ? "Deployment Complete" : "Deployment Failed",
-        description: data.message,
-        variant: data.success ? "default" : "destructive",
+        title: "Deployment Failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const separator = hostQuery ? "&" : "?";
+      const response = await apiRequest("POST", `/api/deploy${hostQuery}${separator}dryRun=true`);
+      return response.json() as Promise<{ dryRun: true; plan: DeployPlan }>;
+    },
+    onSuccess: (data) => setDeployPlan(data.plan),
     onError: (error: Error) => {
       toast({
-        title: "Deployment Failed",
+        title: "Preview Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
+  const startJob = (job: Job) => {
+    setLogJob(job);
+    startedDeployId.current = job.id;
+  };
+
+  const handleJobDone = ({ job }: JobOutcome) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/status"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/releases"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/images"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/backups"] });
+    if (job.kind === "upgrade") {
+      // A successful upgrade stores the new tag in the host's stack plan
+      queryClient.invalidateQueries({ queryKey: ["/api/hosts"] });
+    }
+    if (job.id !== startedDeployId.current) return;
+
+    startedDeployId.current = null;
+    const action = JOB_KIND_LABEL[job.kind];
+    toast({
+      title:
+        job.status === "success" ? `${action} Complete` : job.status === "cancelled" ? `${action} Cancelled` : `${action} Failed`,
+      description: job.message ?? undefined,
+      variant: job.status === "error" ? "destructive" : "default",
+    });
+  };
+
   const healthCheckMutation = useMutation({
-    mutationFn: () => apiRequest("GET", "/api/health-check"),
+    mutationFn: () => apiRequest("GET", `/api/health-check${hostQuery}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/status"] });
       toast({
@@ -324,7 +556,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
 
   const testNtfyMutation = useMutation({
     mutationFn: () =>
-      apiRequest("POST", "/api/test-ntfy", { topic: ntfyTopic, message: ntfyMessage }),
+      apiRequest("POST", "/api/test-ntfy", { topic: ntfyTopic, message: ntfyMessage, hostId }),
     onSuccess: () => {
       toast({
         title: "Notification Sent",
@@ -342,6 +574,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
 
   const preflight = status?.lastPreflightResult;
   const deployment = status?.deploymentStatus;
+  const deploying = deployment?.status === "deploying";
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
@@ -375,6 +608,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <HostSwitcher hosts={hosts} value={hostId} onChange={selectHost} />
               {status?.secretsConfigured ? (
                 <Badge variant="secondary" className="bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300">
                   <Shield className="w-3 h-3 mr-1" />
@@ -429,12 +663,37 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
                     )}
                     Scan VPS
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => previewMutation.mutate()}
+                    disabled={!preflight?.safePlan.readyToDeploy || previewMutation.isPending || deploying}
+                    data-testid="button-deploy-preview"
+                  >
+                    {previewMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <FileDiff className="w-4 h-4 mr-2" />
+                    )}
+                    Preview
+                  </Button>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="seed-workflows"
+                      checked={seedWorkflows}
+                      onCheckedChange={setSeedWorkflows}
+                      data-testid="switch-seed-workflows"
+                    />
+                    <Label htmlFor="seed-workflows" className="text-sm font-normal">
+                      Seed n8n workflows
+                    </Label>
+                  </div>
                   <Button
                     onClick={() => deployMutation.mutate()}
-                    disabled={!preflight?.safePlan.readyToDeploy || deployMutation.isPending}
+                    disabled={!preflight?.safePlan.readyToDeploy || deployMutation.isPending || deploying}
                     data-testid="button-deploy"
                   >
-                    {deployMutation.isPending ? (
+                    {deployMutation.isPending || deploying ? (
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     ) : (
                       <Rocket className="w-4 h-4 mr-2" />
@@ -448,9 +707,14 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
         )}
 
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-9 lg:w-auto lg:inline-grid">
             <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
             <TabsTrigger value="services" data-testid="tab-services">Services</TabsTrigger>
+            <TabsTrigger value="sources" data-testid="tab-sources">Sources</TabsTrigger>
+            <TabsTrigger value="rules" data-testid="tab-rules">Rules</TabsTrigger>
+            <TabsTrigger value="channels" data-testid="tab-channels">Channels</TabsTrigger>
+            <TabsTrigger value="workflows" data-testid="tab-workflows">Workflows</TabsTrigger>
+            <TabsTrigger value="hosts" data-testid="tab-hosts">Hosts</TabsTrigger>
             <TabsTrigger value="preflight" data-testid="tab-preflight">Preflight</TabsTrigger>
             <TabsTrigger value="config" data-testid="tab-config">Config</TabsTrigger>
           </TabsList>
@@ -487,6 +751,8 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
               />
             </div>
 
+            <StackPlanCard hostId={hostId} disabled={deploying} />
+
             {/* Quick Actions */}
             <Card>
               <CardHeader>
@@ -552,24 +818,24 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
             </Card>
 
             {/* Deploy Logs */}
-            {deployLogs.length > 0 && (
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-lg">Deployment Logs</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ScrollArea className="h-48 w-full rounded-md border p-4">
-                    <pre className="text-xs font-mono whitespace-pre-wrap">
-                      {deployLogs.join("\n")}
-                    </pre>
-                  </ScrollArea>
-                </CardContent>
-              </Card>
+            {deployment?.steps && deployment.steps.length > 0 && (
+              <DeployStepsCard steps={deployment.steps} lastDeploy={deployment.lastDeploy} />
             )}
+
+            {logJob && <JobLogPanel jobId={logJob.id} kind={logJob.kind} onDone={handleJobDone} />}
+
+            <ReleasesCard hostId={hostId} disabled={deploying} onRollback={startJob} />
+
+            <ImagesCard hostId={hostId} disabled={deploying} onUpgrade={startJob} />
+
+            <BackupsCard hostId={hostId} hostName={status?.host?.name} disabled={deploying} onStarted={startJob} />
+
+            <JobsCard hostId={hostId} onShowLog={setLogJob} />
           </TabsContent>
 
           {/* Services Tab */}
           <TabsContent value="services" className="space-y-6">
+            <UptimeCard hostId={hostId} />
             <div className="grid gap-6 lg:grid-cols-2">
               {/* n8n */}
               <Card>
@@ -591,6 +857,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
                       <StatusBadge
                         running={deployment.services.n8n.running}
                         healthy={deployment.services.n8n.healthy}
+                        health={deployment.services.n8n.health}
                       />
                     )}
                   </div>
@@ -626,6 +893,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
                       <StatusBadge
                         running={deployment.services.ntfy.running}
                         healthy={deployment.services.ntfy.healthy}
+                        health={deployment.services.ntfy.health}
                       />
                     )}
                   </div>
@@ -664,6 +932,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
                       <StatusBadge
                         running={deployment.services.fetcher.running}
                         healthy={deployment.services.fetcher.healthy}
+                        health={deployment.services.fetcher.health}
                       />
                     )}
                   </div>
@@ -701,6 +970,7 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
                       <StatusBadge
                         running={deployment.services.postgres.running}
                         healthy={deployment.services.postgres.healthy}
+                        health={deployment.services.postgres.health}
                       />
                     )}
                   </div>
@@ -714,6 +984,32 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
             </div>
           </TabsContent>
 
+          {/* Sources Tab */}
+          <TabsContent value="sources" className="space-y-6">
+            <SourcesTab />
+          </TabsContent>
+
+          {/* Rules Tab */}
+          <TabsContent value="rules" className="space-y-6">
+            <RulesTab />
+          </TabsContent>
+
+          {/* Channels Tab */}
+          <TabsContent value="channels" className="space-y-6">
+            <ChannelsTab />
+          </TabsContent>
+
+          {/* Workflows Tab */}
+          <TabsContent value="workflows" className="space-y-6">
+            <WorkflowsTab hostId={hostId} />
+            <WorkflowTemplateCard hostId={hostId} />
+          </TabsContent>
+
+          {/* Hosts Tab */}
+          <TabsContent value="hosts" className="space-y-6">
+            <HostsTab />
+          </TabsContent>
+
           {/* Preflight Tab */}
           <TabsContent value="preflight" className="space-y-6">
             {!preflight ? (
@@ -920,6 +1216,8 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
                     </div>
                   </CardContent>
                 </Card>
+
+                <PreflightHistory hostId={hostId} />
               </>
             )}
           </TabsContent>
@@ -1005,6 +1303,16 @@ function AuthenticatedDashboard({ onLogout }: { onLogout: () => void }) {
           </TabsContent>
         </Tabs>
       </main>
+
+      <DeployPlanDialog
+        plan={deployPlan}
+        onClose={() => setDeployPlan(null)}
+        onDeploy={() => {
+          setDeployPlan(null);
+          deployMutation.mutate();
+        }}
+        deployDisabled={deployMutation.isPending || deploying}
+      />
     </div>
   );
 }
@@ -0,0 +1,95 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import type { InsertAlertRule, TrackedListing } from "@shared/schema";
+import { storage } from "../storage";
+import { dispatchListingAlert } from "./dispatch";
+
+// What the webhook channels and the ntfy publish send that the test reads
+interface ReceivedBody {
+  topic?: string;
+  message?: string;
+  data?: { rules: Array<{ name: string }> };
+}
+
+// Every request the channels receive, by path
+const received: Array<{ path: string; body: ReceivedBody }> = [];
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ path: req.url ?? "", body: JSON.parse(body) });
+      res.setHeader("Content-Type", "application/json");
+      res.end("{}");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.NTFY_URL = baseUrl;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+function rule(name: string, channelIds: string[]) {
+  const insert: InsertAlertRule = { name, owner: "Sam", channelIds };
+  return storage.createAlertRule(insert);
+}
+
+test("each channel gets one notification naming every rule that sent it there", async () => {
+  const source = await storage.createListingSource({
+    name: "Dispatch",
+    url: "https://example.com/huur",
+    ntfyTopic: "rentals-dispatch-test",
+  });
+  const webhook = (name: string, enabled = true) =>
+    storage.createNotificationChannel({ name, enabled, config: { type: "webhook", url: `${baseUrl}/${name}` } });
+  const [shared, single, disabled] = [await webhook("shared"), await webhook("single"), await webhook("disabled", false)];
+
+  const rules = [
+    await rule("Shared only", [shared.id]),
+    await rule("Shared and single", [shared.id, single.id, disabled.id]),
+    await rule("Source topic", []),
+    await rule("Source topic too", []),
+  ];
+  const listing: TrackedListing = {
+    id: "listing",
+    sourceId: source.id,
+    fingerprint: "fingerprint",
+    title: "Studio Philitelaan 5",
+    url: "https://example.com/huurwoningen/eindhoven/strijp-s-2",
+    price: 995,
+    priceText: "€ 995 per maand",
+    address: "5617 AM Eindhoven (Strijp-S)",
+    surfaceM2: 34,
+    rooms: 1,
+    imageUrl: null,
+    furnished: false,
+    status: "new",
+    firstSeenAt: new Date(0),
+    lastSeenAt: new Date(0),
+    lastChangedAt: null,
+    removedAt: null,
+  };
+
+  await dispatchListingAlert({ type: "new", listing }, rules);
+
+  const ruleNames = (path: string) =>
+    received
+      .filter((request) => request.path === path)
+      .map((request) => request.body.data?.rules.map((summary) => summary.name));
+  assert.deepEqual(ruleNames("/shared"), [["Shared only", "Shared and single"]]);
+  assert.deepEqual(ruleNames("/single"), [["Shared and single"]]);
+  assert.deepEqual(ruleNames("/disabled"), []);
+
+  const published = received.filter((request) => request.path === "/");
+  assert.equal(published.length, 1);
+  assert.equal(published[0].body.topic, "rentals-dispatch-test");
+  assert.match(published[0].body.message ?? "", /Matches: Sam \(Source topic\), Sam \(Source topic too\)/);
+});
@@ -0,0 +1,168 @@
+import type { AlertRule, ListingSource, NotificationChannel, TrackedListing } from "@shared/schema";
+import type { ListingEvent } from "../listings/tracker";
+import { storage } from "../storage";
+import { createNotifier, sendNotification, NtfyNotifier, type NotificationContent } from "../notify";
+import { DEFAULT_MESSAGE_TEMPLATE, DEFAULT_TITLE_TEMPLATE, renderTemplate } from "../notify/template";
+import { log } from "../log";
+
+export type AlertEvent = Exclude<ListingEvent, { type: "gone" }>;
+
+// What the formatters read of the matching rules and the listing's source, so
+// the channel test can pass a sample of each
+type RuleSummary = Pick<AlertRule, "id" | "name" | "owner">;
+type SourceSummary = Pick<ListingSource, "id" | "name">;
+
+function formatPrice(price: number): string {
+  return `€ ${price.toLocaleString("nl-NL")}`;
+}
+
+const EVENT_STYLE: Record<AlertEvent["type"], { label: string; tag: string; priority: number }> = {
+  new: { label: "New", tag: "house", priority: 4 },
+  price_drop: { label: "Price drop", tag: "chart_with_downwards_trend", priority: 4 },
+  changed: { label: "Updated", tag: "pencil2", priority: 3 },
+};
+
+// The fields available to channel templates as {{name}}
+export function listingTemplateVars(
+  event: AlertEvent,
+  rules: RuleSummary[],
+  source: SourceSummary
+): Record<string, string> {
+  const { listing } = event;
+  const surface = listing.surfaceM2 !== null ? `${listing.surfaceM2} m²` : "";
+  const rooms = listing.rooms !== null ? `${listing.rooms} rooms` : "";
+  const furnished = listing.furnished === null ? "" : listing.furnished ? "furnished" : "unfurnished";
+  const previousPrice = event.type === "price_drop" ? formatPrice(event.previousPrice) : "";
+
+  return {
+    event: EVENT_STYLE[event.type].label,
+    title: listing.title,
+    price: listing.price !== null ? formatPrice(listing.price) : listing.priceText ?? "",
+    priceText: listing.priceText ?? "",
+    previousPrice,
+    address: listing.address ?? "",
+    surface,
+    rooms,
+    furnished,
+    details: [surface, rooms, furnished].filter(Boolean).join(" · "),
+    change:
+      event.type === "price_drop"
+        ? `Was ${previousPrice}`
+        : event.type === "changed"
+          ? `Changed: ${event.changes.join(", ")}`
+          : "",
+    rules: rules.map((rule) => `${rule.owner} (${rule.name})`).join(", "),
+    owners: Array.from(new Set(rules.map((rule) => rule.owner))).join(", "),
+    source: source.name,
+    url: listing.url ?? "",
+    imageUrl: listing.imageUrl ?? "",
+  };
+}
+
+export function buildListingContent(
+  event: AlertEvent,
+  rules: RuleSummary[],
+  source: SourceSummary,
+  channel: NotificationChannel | null
+): NotificationContent {
+  const { listing } = event;
+  const vars = listingTemplateVars(event, rules, source);
+
+  return {
+    title: renderTemplate(channel?.titleTemplate ?? DEFAULT_TITLE_TEMPLATE, vars),
+    message: renderTemplate(channel?.messageTemplate ?? DEFAULT_MESSAGE_TEMPLATE, vars),
+    url: listing.url ?? undefined,
+    imageUrl: listing.imageUrl ?? undefined,
+    priority: EVENT_STYLE[event.type].priority,
+    tags: [EVENT_STYLE[event.type].tag],
+    data: {
+      event: event.type,
+      listing,
+      previousPrice: event.type === "price_drop" ? event.previousPrice : null,
+      rules: rules.map(({ id, name, owner }) => ({ id, name, owner })),
+      source: { id: source.id, name: source.name },
+    },
+  };
+}
+
+// Rules without channels fall back to the ntfy topic of the listing's source.
+// Each channel gets one notification per event naming every rule that sent
+// it there, so overlapping rules don't ping the same person twice.
+export async function dispatchListingAlert(event: AlertEvent, rules: AlertRule[]) {
+  const source = await storage.getListingSource(event.listing.sourceId);
+  if (!source) return;
+
+  const channels = new Map(
+    (await storage.listNotificationChannels())
+      .filter((channel) => channel.enabled)
+      .map((channel) => [channel.id, channel])
+  );
+
+  const targets = new Map<string, { channel: NotificationChannel | null; rules: AlertRule[] }>();
+  const addTarget = (key: string, channel: NotificationChannel | null, rule: AlertRule) => {
+    const target = targets.get(key) ?? { channel, rules: [] };
+    target.rules.push(rule);
+    targets.set(key, target);
+  };
+
+  for (const rule of rules) {
+    if (rule.channelIds.length === 0) {
+      addTarget("source", null, rule);
+      continue;
+    }
+    for (const channelId of rule.channelIds) {
+      const channel = channels.get(channelId);
+      if (channel) addTarget(channel.id, channel, rule);
+    }
+  }
+
+  for (const { channel, rules: targetRules } of Array.from(targets.values())) {
+    const notifier = channel ? createNotifier(channel.config) : new NtfyNotifier(source.ntfyTopic);
+    try {
+      await sendNotification(notifier, buildListingContent(event, targetRules, source, channel), {
+        channelId: channel?.id,
+        listingId: event.listing.id,
+      });
+    } catch (error) {
+      log(
+        `Alert for "${event.listing.title}" via ${channel?.name ?? `ntfy/${source.ntfyTopic}`} not sent: ${(error as Error).message}`,
+        "alerts"
+      );
+    }
+  }
+}
+
+const SAMPLE_LISTING: TrackedListing = {
+  id: "sample",
+  sourceId: "sample",
+  fingerprint: "sample",
+  title: "Appartement Torenallee 20",
+  url: "https://example.com/huurwoningen/eindhoven/strijp-s-1",
+  price: 1450,
+  priceText: "€ 1.450 per maand",
+  address: "5617 BD Eindhoven (Strijp-S)",
+  surfaceM2: 68,
+  rooms: 3,
+  imageUrl: null,
+  furnished: true,
+  status: "new",
+  firstSeenAt: new Date(0),
+  lastSeenAt: new Date(0),
+  lastChangedAt: null,
+  removedAt: null,
+};
+
+// Renders a channel's templates with the most recent listing (or a built-in
+// sample) so the dashboard can check formatting and delivery in one go
+export async function buildTestContent(channel: NotificationChannel): Promise<NotificationContent> {
+  const [latest] = await storage.listTrackedListings({ limit: 1 });
+  const listing = latest ?? SAMPLE_LISTING;
+  const source: SourceSummary = (await storage.getListingSource(listing.sourceId)) ?? {
+    id: "sample",
+    name: "Sample source",
+  };
+  const rule: RuleSummary = { id: "test", name: "Channel test", owner: "Dashboard" };
+
+  const content = buildListingContent({ type: "new", listing }, [rule], source, channel);
+  return { ...content, tags: ["test_tube"] };
+}
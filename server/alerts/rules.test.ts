@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { TrackedListing } from "@shared/schema";
+import { evaluateRule, type RuleCriteria } from "./rules";
+
+function criteria(overrides: Partial<RuleCriteria> = {}): RuleCriteria {
+  return {
+    maxRent: null,
+    minSurfaceM2: null,
+    minRooms: null,
+    cities: [],
+    postcodes: [],
+    includeKeywords: [],
+    excludeKeywords: [],
+    furnished: null,
+    sourceIds: [],
+    ...overrides,
+  };
+}
+
+function trackedListing(overrides: Partial<TrackedListing> = {}): TrackedListing {
+  return {
+    id: "listing",
+    sourceId: "source",
+    fingerprint: "fingerprint",
+    title: "Appartement Torenallee 20",
+    url: "https://example.com/huurwoningen/eindhoven/strijp-s-1",
+    price: 1450,
+    priceText: "€ 1.450 per maand",
+    address: "5617 BD Eindhoven (Strijp-S)",
+    surfaceM2: 68,
+    rooms: 3,
+    imageUrl: null,
+    furnished: null,
+    status: "new",
+    firstSeenAt: new Date(0),
+    lastSeenAt: new Date(0),
+    lastChangedAt: null,
+    removedAt: null,
+    ...overrides,
+  };
+}
+
+test("cities and postcodes form one whitelist where either match is enough", () => {
+  const listing = trackedListing();
+
+  assert.equal(evaluateRule(criteria({ postcodes: ["5617"] }), listing).matched, true);
+  assert.equal(evaluateRule(criteria({ postcodes: ["5617 bd"] }), listing).matched, true);
+  assert.equal(evaluateRule(criteria({ cities: ["eindhoven"] }), listing).matched, true);
+  assert.equal(evaluateRule(criteria({ cities: ["Eindhoven"], postcodes: ["5611"] }), listing).matched, true);
+  assert.deepEqual(evaluateRule(criteria({ cities: ["Utrecht"], postcodes: ["5611"] }), listing), {
+    matched: false,
+    reasons: ["location not in whitelist"],
+  });
+});
+
+test("keywords only match whole words", () => {
+  const listing = trackedListing({ title: "Anti-kraak woning met balkonnetje", address: null });
+
+  assert.equal(evaluateRule(criteria({ includeKeywords: ["balkon"] }), listing).matched, false);
+  assert.equal(evaluateRule(criteria({ includeKeywords: ["balkonnetje"] }), listing).matched, true);
+  assert.equal(evaluateRule(criteria({ excludeKeywords: ["kraak"] }), listing).matched, false);
+  assert.equal(evaluateRule(criteria({ excludeKeywords: ["anti-kraak"] }), listing).matched, false);
+  assert.equal(evaluateRule(criteria({ excludeKeywords: ["woningen"] }), listing).matched, true);
+});
+
+test("values the listing doesn't expose never reject it", () => {
+  const listing = trackedListing({ price: null, surfaceM2: null, rooms: null, furnished: null });
+  const rule = criteria({ maxRent: 1000, minSurfaceM2: 80, minRooms: 4, furnished: true });
+
+  assert.deepEqual(evaluateRule(rule, listing), { matched: true, reasons: [] });
+  assert.deepEqual(evaluateRule(rule, trackedListing({ furnished: false })).reasons, [
+    "rent 1450 above 1000",
+    "68 m² below 80",
+    "3 rooms below 4",
+    "unfurnished",
+  ]);
+});
@@ -0,0 +1,133 @@
+import type { AlertRule, InsertAlertRule, TrackedListing } from "@shared/schema";
+import { storage } from "../storage";
+import { onListingEvent, normalizeText, type ListingEvent } from "../listings/tracker";
+import { parseFurnished } from "../extractor/css";
+import { dispatchListingAlert } from "./dispatch";
+
+export type RuleCriteria = Pick<
+  AlertRule,
+  | "maxRent"
+  | "minSurfaceM2"
+  | "minRooms"
+  | "cities"
+  | "postcodes"
+  | "includeKeywords"
+  | "excludeKeywords"
+  | "furnished"
+  | "sourceIds"
+>;
+
+export interface RuleMatch {
+  matched: boolean;
+  // Why the listing was rejected; empty when it matched
+  reasons: string[];
+}
+
+// Fills in the "no restriction" defaults for an unsaved rule from the editor
+export function toRuleCriteria(rule: InsertAlertRule): RuleCriteria {
+  return {
+    maxRent: rule.maxRent ?? null,
+    minSurfaceM2: rule.minSurfaceM2 ?? null,
+    minRooms: rule.minRooms ?? null,
+    cities: rule.cities ?? [],
+    postcodes: rule.postcodes ?? [],
+    includeKeywords: rule.includeKeywords ?? [],
+    excludeKeywords: rule.excludeKeywords ?? [],
+    furnished: rule.furnished ?? null,
+    sourceIds: rule.sourceIds ?? [],
+  };
+}
+
+function normalizePostcode(postcode: string): string {
+  return postcode.replace(/\s+/g, "").toUpperCase();
+}
+
+// Dutch postcodes: four digits, optionally followed by two letters
+function extractPostcode(address: string): string | null {
+  const match = address.match(/\b(\d{4})\s?([A-Za-z]{2})?\b/);
+  return match ? normalizePostcode(match[0]) : null;
+}
+
+function containsTerm(haystack: string, term: string): boolean {
+  const needle = normalizeText(term);
+  return needle.length > 0 && ` ${haystack} `.includes(` ${needle} `);
+}
+
+// Values a listing doesn't expose (no price, no surface, unknown interior)
+// never reject it - a missed alert is worse than an extra one.
+export function evaluateRule(rule: RuleCriteria, listing: TrackedListing): RuleMatch {
+  const reasons: string[] = [];
+  const text = normalizeText(`${listing.title} ${listing.address ?? ""}`);
+
+  if (rule.sourceIds.length > 0 && !rule.sourceIds.includes(listing.sourceId)) {
+    reasons.push("source not selected");
+  }
+
+  if (rule.maxRent !== null && listing.price !== null && listing.price > rule.maxRent) {
+    reasons.push(`rent ${listing.price} above ${rule.maxRent}`);
+  }
+
+  if (rule.minSurfaceM2 !== null && listing.surfaceM2 !== null && listing.surfaceM2 < rule.minSurfaceM2) {
+    reasons.push(`${listing.surfaceM2} m² below ${rule.minSurfaceM2}`);
+  }
+
+  if (rule.minRooms !== null && listing.rooms !== null && listing.rooms < rule.minRooms) {
+    reasons.push(`${listing.rooms} rooms below ${rule.minRooms}`);
+  }
+
+  // Cities and postcodes form one location whitelist: matching either is enough
+  if (rule.cities.length > 0 || rule.postcodes.length > 0) {
+    const postcode = listing.address ? extractPostcode(listing.address) : null;
+    const cityMatch = rule.cities.some((city) => containsTerm(text, city));
+    const postcodeMatch =
+      postcode !== null && rule.postcodes.some((prefix) => postcode.startsWith(normalizePostcode(prefix)));
+    if (!cityMatch && !postcodeMatch) {
+      reasons.push("location not in whitelist");
+    }
+  }
+
+  if (rule.includeKeywords.length > 0 && !rule.includeKeywords.some((keyword) => containsTerm(text, keyword))) {
+    reasons.push("no include keyword");
+  }
+
+  const excluded = rule.excludeKeywords.find((keyword) => containsTerm(text, keyword));
+  if (excluded) {
+    reasons.push(`excluded keyword "${excluded}"`);
+  }
+
+  if (rule.furnished !== null) {
+    const furnished = listing.furnished ?? parseFurnished(listing.title);
+    if (furnished !== null && furnished !== rule.furnished) {
+      reasons.push(furnished ? "furnished" : "unfurnished");
+    }
+  }
+
+  return { matched: reasons.length === 0, reasons };
+}
+
+// Runs a rule against the listings currently on offer, for the editor preview
+export async function previewRule(rule: RuleCriteria, limit = 50): Promise<TrackedListing[]> {
+  const listings = await storage.listTrackedListings({ limit: 1000 });
+  return listings
+    .filter((listing) => listing.status !== "removed" && evaluateRule(rule, listing).matched)
+    .slice(0, limit);
+}
+
+async function handleListingEvent(event: ListingEvent) {
+  if (event.type === "gone") return;
+
+  const rules = (await storage.listAlertRules()).filter(
+    (rule) => rule.enabled && evaluateRule(rule, event.listing).matched
+  );
+  if (rules.length > 0) {
+    await dispatchListingAlert(event, rules);
+  }
+}
+
+let engineStarted = false;
+
+export function startAlertEngine() {
+  if (engineStarted) return;
+  engineStarted = true;
+  onListingEvent(handleListingEvent);
+}
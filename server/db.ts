@@ -0,0 +1,8 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+// The pool only connects on first query, so importing this module is safe
+// even when DATABASE_URL is not set (storage falls back to MemStorage).
+export const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle(pool, { schema });
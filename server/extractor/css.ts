@@ -0,0 +1,124 @@
+import * as cheerio from "cheerio";
+import type { ExtractorConfig, Listing } from "@shared/schema";
+import type { ExtractionResult, ListingExtractor } from "./types";
+
+type FieldName = keyof ExtractorConfig["fields"];
+
+// "a.link@href" -> ["a.link", "href"]; "@href" reads the item element itself.
+// The n8n workflow template parses source selectors with this too.
+export function splitSelector(selector: string): { css: string; attr: string | null } {
+  const match = selector.match(/^(.*?)@([\w:-]+)$/);
+  if (!match) return { css: selector, attr: null };
+  return { css: match[1].trim(), attr: match[2] };
+}
+
+// Parses the first number in "€ 1.450,- per maand", "68,5 m²" or "1,450".
+// A single separator followed by exactly three digits is a thousands separator.
+export function parseNumber(text: string | null): number | null {
+  if (!text) return null;
+  const match = text.match(/\d[\d.,]*/);
+  if (!match) return null;
+
+  let raw = match[0].replace(/[.,]+$/, "");
+  const lastDot = raw.lastIndexOf(".");
+  const lastComma = raw.lastIndexOf(",");
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimalSep = lastDot > lastComma ? "." : ",";
+    const thousandsSep = decimalSep === "." ? "," : ".";
+    raw = raw.split(thousandsSep).join("").replace(decimalSep, ".");
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const parts = raw.split(lastDot !== -1 ? "." : ",");
+    const isThousands = parts.length > 2 || parts[parts.length - 1].length === 3;
+    raw = isThousands ? parts.join("") : parts.join(".");
+  }
+
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// "Gemeubileerd" / "furnished" -> true, "kaal" / "ongemeubileerd" -> false
+export function parseFurnished(text: string | null): boolean | null {
+  if (!text) return null;
+  const normalized = text.toLowerCase();
+  if (/\b(ongemeubileerd|unfurnished|kaal)\b/.test(normalized)) return false;
+  if (/\b(gemeubileerd|gemeubeld|furnished)\b/.test(normalized)) return true;
+  return null;
+}
+
+function resolveUrl(value: string | null, pageUrl: string): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value, pageUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+export class CssSelectorExtractor implements ListingExtractor {
+  readonly type = "css";
+
+  constructor(private config: ExtractorConfig) {}
+
+  extract(html: string, pageUrl: string): ExtractionResult {
+    const $ = cheerio.load(html);
+    const listings: Listing[] = [];
+    const errors: string[] = [];
+    const brokenFields = new Set<FieldName>();
+
+    let items;
+    try {
+      items = $(this.config.itemSelector).toArray();
+    } catch (error) {
+      return { listings, errors: [`Invalid item selector: ${(error as Error).message}`] };
+    }
+
+    if (items.length === 0) {
+      errors.push(`Item selector "${this.config.itemSelector}" matched nothing`);
+    }
+
+    items.forEach((element, index) => {
+      const $item = $(element);
+
+      const read = (field: FieldName, fallback?: string): string | null => {
+        const selector = this.config.fields[field] || fallback;
+        if (!selector || brokenFields.has(field)) return null;
+
+        const { css, attr } = splitSelector(selector);
+        try {
+          const target = css ? $item.find(css).first() : $item;
+          if (!target.length) return null;
+          const value = attr ? target.attr(attr) : target.text();
+          return value?.replace(/\s+/g, " ").trim() || null;
+        } catch (error) {
+          brokenFields.add(field);
+          errors.push(`Invalid ${field} selector: ${(error as Error).message}`);
+          return null;
+        }
+      };
+
+      const address = read("address");
+      const title = read("title") || address;
+      if (!title) {
+        errors.push(`Item ${index + 1}: no title or address found`);
+        return;
+      }
+
+      const priceText = read("price");
+
+      listings.push({
+        title,
+        url: resolveUrl(read("url", "a[href]@href"), pageUrl),
+        price: parseNumber(priceText),
+        priceText,
+        address,
+        surfaceM2: parseNumber(read("surface")),
+        rooms: parseNumber(read("rooms")),
+        imageUrl: resolveUrl(read("image"), pageUrl),
+        furnished: parseFurnished(read("furnished")),
+      });
+    });
+
+    return { listings, errors };
+  }
+}
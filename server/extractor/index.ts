@@ -0,0 +1,18 @@
+import type { ExtractorConfig, ListingSource } from "@shared/schema";
+import { CssSelectorExtractor } from "./css";
+import type { ListingExtractor } from "./types";
+
+export type { ExtractionResult, ListingExtractor } from "./types";
+
+// New extractor types register a factory here and extend extractorConfigSchema.type
+const extractorFactories: Record<ExtractorConfig["type"], (config: ExtractorConfig) => ListingExtractor> = {
+  css: (config) => new CssSelectorExtractor(config),
+};
+
+export function createExtractor(config: ExtractorConfig): ListingExtractor {
+  return extractorFactories[config.type](config);
+}
+
+export function getExtractorForSource(source: ListingSource): ListingExtractor | null {
+  return source.extractorConfig ? createExtractor(source.extractorConfig) : null;
+}
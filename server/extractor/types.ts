@@ -0,0 +1,12 @@
+import type { Listing } from "@shared/schema";
+
+export interface ExtractionResult {
+  listings: Listing[];
+  // Per-item problems (e.g. an item without a title); extraction continues past them
+  errors: string[];
+}
+
+export interface ListingExtractor {
+  readonly type: string;
+  extract(html: string, pageUrl: string): ExtractionResult;
+}
@@ -0,0 +1,140 @@
+import { fromZodError } from "zod-validation-error";
+import {
+  fetchResponseSchema,
+  type FetchRequest,
+  type FetchResponse,
+  type Host,
+  type ListingSource,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { getSSHConfig } from "../vps/config";
+import { execCommand } from "../vps/ssh";
+import { createTunnelCache, openTunnel, type Tunnel } from "../vps/tunnel";
+import { deployedStackPlan, serviceEndpoint, type ServiceEndpoint } from "../vps/stack";
+
+export class FetcherError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "FetcherError";
+  }
+}
+
+// The tunnel to the primary host's fetcher and the secret read through it.
+// Reused across calls so polling does not open a new SSH connection per
+// fetch, and shared by fetches made at the same moment.
+interface FetcherConnection {
+  tunnel: Tunnel;
+  secret: string;
+}
+
+const fetcherConnections = createTunnelCache<FetcherConnection>((connection) => connection.tunnel);
+
+// Closes the connection to the host's fetcher, e.g. after the host was deleted
+// or moved
+export function resetFetcherConnection(hostId: string) {
+  fetcherConnections.reset(hostId);
+}
+
+async function readRemoteFetcherSecret(tunnel: Tunnel): Promise<string> {
+  const { stdout } = await execCommand(
+    tunnel.client,
+    "grep '^FETCHER_SECRET=' /opt/rentalmonitor/.env 2>/dev/null | cut -d= -f2-",
+    { timeoutMs: 15000 }
+  );
+  const secret = stdout.trim();
+  if (!secret) {
+    throw new FetcherError("FETCHER_SECRET not found - set it on the server or deploy the stack first");
+  }
+  return secret;
+}
+
+async function openFetcherConnection(host: Host, endpoint: ServiceEndpoint): Promise<FetcherConnection> {
+  const tunnel = await openTunnel(await getSSHConfig(host), endpoint.port, endpoint.host);
+  try {
+    const secret = process.env.FETCHER_SECRET || (await readRemoteFetcherSecret(tunnel));
+    return { tunnel, secret };
+  } catch (error) {
+    tunnel.close();
+    throw error;
+  }
+}
+
+// FETCHER_URL points at a reachable fetcher (e.g. the local stub); otherwise
+// the fetcher deployed on the primary host is reached through an SSH tunnel.
+// `reset` drops that tunnel, and the secret read through it, after a failure.
+async function resolveFetcherEndpoint(): Promise<{ baseUrl: string; secret: string; reset: () => void }> {
+  if (process.env.FETCHER_URL) {
+    return {
+      baseUrl: process.env.FETCHER_URL.replace(/\/+$/, ""),
+      secret: process.env.FETCHER_SECRET || "",
+      reset: () => {},
+    };
+  }
+
+  const host = await storage.getPrimaryHost();
+  if (!host) {
+    throw new FetcherError("No hosts configured");
+  }
+
+  const scan = await storage.getLatestPreflightScan(host.id);
+  if (!scan) {
+    throw new FetcherError(`Run preflight scan on ${host.name} first`);
+  }
+
+  const endpoint = serviceEndpoint(await deployedStackPlan(host), "fetcher", scan.result.safePlan.portsToUse);
+  const { value: connection, reset } = await fetcherConnections.get(host.id, endpoint, () =>
+    openFetcherConnection(host, endpoint)
+  );
+
+  return { baseUrl: `http://127.0.0.1:${connection.tunnel.localPort}`, secret: connection.secret, reset };
+}
+
+const SOURCE_FETCH_TIMEOUT_MS = 30000;
+
+export function buildSourceFetchRequest(source: ListingSource): FetchRequest {
+  return {
+    url: source.url,
+    mode: source.mode,
+    timeout: SOURCE_FETCH_TIMEOUT_MS,
+    waitForSelector: source.waitForSelector ?? undefined,
+    screenshot: false,
+  };
+}
+
+export async function callFetcher(request: FetchRequest): Promise<FetchResponse> {
+  const { baseUrl, secret, reset } = await resolveFetcherEndpoint();
+
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/fetch`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Fetcher-Secret": secret,
+      },
+      body: JSON.stringify(request),
+      // Give the fetcher its own timeout plus some slack for the round trip
+      signal: AbortSignal.timeout(request.timeout + 15000),
+    });
+  } catch (error) {
+    reset();
+    throw new FetcherError(`Fetcher unreachable: ${(error as Error).message}`);
+  }
+
+  const body = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    // The secret may have changed on the host; read it again next time
+    if (res.status === 401) {
+      reset();
+    }
+    throw new FetcherError(body?.error || `Fetcher returned HTTP ${res.status}`, res.status);
+  }
+
+  const parsed = fetchResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new FetcherError(`Invalid fetcher response: ${fromZodError(parsed.error).message}`, res.status);
+  }
+
+  return parsed.data;
+}
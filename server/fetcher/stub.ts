@@ -0,0 +1,73 @@
+// Local stand-in for the Playwright fetcher so polling can be exercised
+// without a VPS. Run with `npm run fetcher:stub` and start the dashboard with
+// FETCHER_URL=http://127.0.0.1:3101 (and the same FETCHER_SECRET, if any).
+import express from "express";
+
+const app = express();
+app.use(express.json());
+
+const FETCHER_SECRET = process.env.FETCHER_SECRET || "";
+const PORT = parseInt(process.env.STUB_FETCHER_PORT || "3101", 10);
+
+function sampleListingsHtml(url: string): string {
+  const base = new URL(url);
+  return `<!doctype html>
+<html>
+  <head><title>Stub listings for ${base.hostname}</title></head>
+  <body>
+    <ul class="search-list">
+      <li class="listing">
+        <a class="listing-link" href="/huurwoningen/eindhoven/strijp-s-1"><h2 class="listing-title">Appartement Torenallee 20</h2></a>
+        <div class="listing-address">5617 BD Eindhoven (Strijp-S)</div>
+        <div class="listing-price">€ 1.450 per maand</div>
+        <ul class="listing-features"><li class="surface">68 m²</li><li class="rooms">3 kamers</li><li class="interior">Gemeubileerd</li></ul>
+        <img class="listing-image" src="https://images.example.com/strijp-s-1.jpg" />
+      </li>
+      <li class="listing">
+        <a class="listing-link" href="/huurwoningen/eindhoven/strijp-s-2"><h2 class="listing-title">Studio Philitelaan 5</h2></a>
+        <div class="listing-address">5617 AM Eindhoven (Strijp-S)</div>
+        <div class="listing-price">€ 995 per maand</div>
+        <ul class="listing-features"><li class="surface">34 m²</li><li class="rooms">1 kamer</li><li class="interior">Kaal</li></ul>
+        <img class="listing-image" src="https://images.example.com/strijp-s-2.jpg" />
+      </li>
+    </ul>
+  </body>
+</html>`;
+}
+
+app.get("/health", (_req, res) => {
+  res.json({ status: "ok", timestamp: new Date().toISOString(), service: "rentalmonitor-fetcher-stub" });
+});
+
+app.post("/fetch", (req, res) => {
+  const startTime = Date.now();
+
+  if (FETCHER_SECRET && req.headers["x-fetcher-secret"] !== FETCHER_SECRET) {
+    return res.status(401).json({ error: "Unauthorized - invalid or missing secret" });
+  }
+
+  const { url } = req.body ?? {};
+  if (!url) {
+    return res.status(400).json({ error: "url is required" });
+  }
+
+  let html: string;
+  try {
+    html = sampleListingsHtml(url);
+  } catch {
+    return res.status(400).json({ error: "url is invalid" });
+  }
+
+  res.json({
+    status: 200,
+    finalUrl: url,
+    html,
+    text: html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim(),
+    fetchedAt: new Date().toISOString(),
+    durationMs: Date.now() - startTime,
+  });
+});
+
+app.listen(PORT, "127.0.0.1", () => {
+  console.log(`Stub fetcher running on port ${PORT}`);
+});
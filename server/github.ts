@@ -186,7 +186,9 @@ async function getFileSha(octokit: Octokit, filePath: string): Promise<string |
   }
 }
 
-export async function syncToGitHub(): Promise<{ success: boolean; message: string; filesUpdated: number; errors: string[] }> {
+// `extraFiles` are generated content synced alongside the project files (the
+// exported n8n workflows)
+export async function syncToGitHub(extraFiles: { path: string; content: string }[] = []): Promise<{ success: boolean; message: string; filesUpdated: number; errors: string[] }> {
   const octokit = await getUncachableGitHubClient();
   const errors: string[] = [];
   let filesUpdated = 0;
@@ -199,6 +201,7 @@ export async function syncToGitHub(): Promise<{ success: boolean; message: strin
     const fullPath = path.join(projectRoot, syncPath);
     allFiles.push(...getAllFiles(fullPath, syncPath));
   }
+  allFiles.push(...extraFiles);
   
   // Upload each file
   for (const file of allFiles) {
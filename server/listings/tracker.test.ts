@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Listing } from "@shared/schema";
+import { storage } from "../storage";
+import { onListingEvent, syncListings, type ListingEvent } from "./tracker";
+
+function listing(title: string, url: string): Listing {
+  return {
+    title,
+    url,
+    price: 1450,
+    priceText: "€ 1.450,- per maand",
+    address: null,
+    surfaceM2: null,
+    rooms: null,
+    imageUrl: null,
+    furnished: null,
+  };
+}
+
+const emitted: ListingEvent[] = [];
+onListingEvent((event) => {
+  emitted.push(event);
+});
+
+test("the first sync of a source records its listings without events", async () => {
+  const source = await storage.createListingSource({ name: "Baseline", url: "https://example.com/huur" });
+  const first = [
+    listing("Stratumsedijk 1", "https://example.com/huur/1"),
+    listing("Kruisstraat 2", "https://example.com/huur/2"),
+  ];
+
+  const events = await syncListings(source.id, first);
+
+  assert.deepEqual(events, []);
+  assert.deepEqual(emitted, []);
+  assert.equal((await storage.getTrackedListingsBySource(source.id)).length, 2);
+
+  const next = await syncListings(source.id, [...first, listing("Woenselse Markt 3", "https://example.com/huur/3")]);
+
+  assert.deepEqual(
+    next.map((event) => [event.type, event.listing.title]),
+    [["new", "Woenselse Markt 3"]]
+  );
+  assert.equal(emitted.length, 1);
+});
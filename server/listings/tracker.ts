@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import { EventEmitter } from "events";
+import type { Listing, TrackedListing, InsertTrackedListing } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../log";
+
+export type ListingEvent =
+  | { type: "new"; listing: TrackedListing }
+  | { type: "changed"; listing: TrackedListing; changes: string[] }
+  | { type: "price_drop"; listing: TrackedListing; previousPrice: number }
+  | { type: "gone"; listing: TrackedListing };
+
+const listingEvents = new EventEmitter();
+
+export function onListingEvent(handler: (event: ListingEvent) => void | Promise<void>) {
+  listingEvents.on("listing", (event: ListingEvent) => {
+    Promise.resolve(handler(event)).catch((error) => {
+      log(`Listing event handler failed: ${(error as Error).message}`, "listings");
+    });
+  });
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|mc_[a-z]+|ref|referrer)$/i;
+
+// Drops the fragment and tracking parameters, sorts the remaining query and
+// trims the trailing slash, so the same listing linked from different search
+// pages maps to one URL. The URL parser already lowercases scheme and host;
+// path and query are case-sensitive and kept as they are.
+export function canonicalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// The fingerprint must survive price changes, so the price only takes part
+// when a listing has neither a URL nor an address to identify it by.
+export function fingerprintListing(sourceId: string, listing: Listing): string {
+  const canonicalUrl = listing.url ? canonicalizeUrl(listing.url) : null;
+  const identity = canonicalUrl
+    ? `url:${canonicalUrl}`
+    : listing.address
+      ? `address:${normalizeText(listing.address)}`
+      : `title:${normalizeText(listing.title)}|price:${listing.price ?? ""}`;
+
+  return createHash("sha256").update(`${sourceId}|${identity}`).digest("hex");
+}
+
+const TRACKED_FIELDS = ["title", "price", "address", "surfaceM2", "rooms", "imageUrl", "furnished"] as const;
+
+// Text fields are compared normalized so whitespace or casing noise in the
+// markup doesn't count as a change
+function fieldChanged(previous: TrackedListing, next: InsertTrackedListing, field: (typeof TRACKED_FIELDS)[number]) {
+  const before = previous[field] ?? null;
+  const after = next[field] ?? null;
+  if (typeof before === "string" && typeof after === "string" && field !== "imageUrl") {
+    return normalizeText(before) !== normalizeText(after);
+  }
+  return before !== after;
+}
+
+function toRow(sourceId: string, fingerprint: string, listing: Listing): InsertTrackedListing {
+  return {
+    sourceId,
+    fingerprint,
+    title: listing.title,
+    url: listing.url,
+    price: listing.price,
+    priceText: listing.priceText,
+    address: listing.address,
+    surfaceM2: listing.surfaceM2,
+    rooms: listing.rooms,
+    imageUrl: listing.imageUrl,
+    furnished: listing.furnished,
+  };
+}
+
+// Diffs one extraction run against the store and returns (and emits) the
+// resulting events. An empty extraction is treated as a failed parse rather
+// than every listing disappearing at once, so it never produces "gone" events.
+// The first run of a source only records what is already listed, as a
+// baseline, so adding a source doesn't alert on every listing on the site.
+export async function syncListings(sourceId: string, extracted: Listing[]): Promise<ListingEvent[]> {
+  const now = new Date();
+  const events: ListingEvent[] = [];
+  const existing = new Map(
+    (await storage.getTrackedListingsBySource(sourceId)).map((listing) => [listing.fingerprint, listing])
+  );
+  const seen = new Set<string>();
+  const baseline = existing.size === 0;
+
+  for (const listing of extracted) {
+    const fingerprint = fingerprintListing(sourceId, listing);
+    if (seen.has(fingerprint)) continue;
+    seen.add(fingerprint);
+
+    const row = toRow(sourceId, fingerprint, listing);
+    const previous = existing.get(fingerprint);
+
+    if (!previous) {
+      const created = await storage.createTrackedListing({ ...row, firstSeenAt: now, lastSeenAt: now });
+      await storage.addListingPricePoint(created.id, created.price, created.priceText);
+      if (!baseline) events.push({ type: "new", listing: created });
+      continue;
+    }
+
+    const changes = TRACKED_FIELDS.filter((field) => fieldChanged(previous, row, field));
+    const relisted = previous.status === "removed";
+
+    if (changes.length === 0 && !relisted) {
+      await storage.updateTrackedListing(previous.id, { lastSeenAt: now });
+      continue;
+    }
+
+    const updated = (await storage.updateTrackedListing(previous.id, {
+      ...row,
+      status: relisted ? "new" : "changed",
+      lastSeenAt: now,
+      lastChangedAt: changes.length > 0 ? now : previous.lastChangedAt,
+      removedAt: null,
+    }))!;
+
+    if (changes.includes("price")) {
+      await storage.addListingPricePoint(updated.id, updated.price, updated.priceText);
+    }
+
+    if (relisted) {
+      events.push({ type: "new", listing: updated });
+    } else if (
+      changes.includes("price") &&
+      previous.price !== null &&
+      updated.price !== null &&
+      updated.price < previous.price
+    ) {
+      events.push({ type: "price_drop", listing: updated, previousPrice: previous.price });
+    } else {
+      events.push({ type: "changed", listing: updated, changes });
+    }
+  }
+
+  if (extracted.length > 0) {
+    for (const listing of Array.from(existing.values())) {
+      if (seen.has(listing.fingerprint) || listing.status === "removed") continue;
+      const removed = (await storage.updateTrackedListing(listing.id, { status: "removed", removedAt: now }))!;
+      events.push({ type: "gone", listing: removed });
+    }
+  }
+
+  for (const event of events) {
+    listingEvents.emit("listing", event);
+  }
+
+  return events;
+}
@@ -0,0 +1,275 @@
+import { createHash } from "crypto";
+import type { ExtractorConfig, ListingSource, N8nWorkflow, StackPlan } from "@shared/schema";
+import { buildSourceFetchRequest } from "../fetcher/client";
+import { splitSelector } from "../extractor/css";
+import { containerServiceUrl } from "../vps/stack";
+import type { N8nCredential } from "./workflows";
+
+type FieldName = keyof ExtractorConfig["fields"];
+
+// Listing URLs remembered per workflow, to tell new listings from known ones
+const SEEN_KEPT = 500;
+// The same fallback the dashboard's extractor uses for the listing link
+const DEFAULT_URL_SELECTOR = "a[href]@href";
+
+// The header-auth credential the fetch node sends X-Fetcher-Secret with. It's
+// created when seeding, so the secret never has to be readable through `$env`.
+const FETCHER_CREDENTIAL = { id: "rentalmonitorfet", name: "Rental Monitor fetcher" };
+
+const FIELDS: FieldName[] = ["title", "price", "address", "surface", "rooms", "url", "image", "furnished"];
+
+interface WorkflowNode {
+  id: string;
+  name: string;
+  type: string;
+  typeVersion: number;
+  position: [number, number];
+  parameters: Record<string, unknown>;
+  credentials?: Record<string, { id: string; name: string }>;
+}
+
+export interface RentalPollingTemplate {
+  workflows: N8nWorkflow[];
+  // Sources left out, and fields a workflow can't read, with the reason
+  warnings: string[];
+}
+
+// The fetch nodes' credential, holding the stack's FETCHER_SECRET
+export function fetcherCredential(secret: string): N8nCredential {
+  return { ...FETCHER_CREDENTIAL, type: "httpHeaderAuth", data: { name: "X-Fetcher-Secret", value: secret } };
+}
+
+// Why the template can't be used with the plan, or null if it can. The
+// workflows run in our n8n and call the fetcher and ntfy from there.
+export function templateUnavailableReason(plan: StackPlan): string | null {
+  if (plan.n8n.mode !== "deploy") return "The stack plan doesn't deploy n8n, so there is nothing to seed";
+  for (const service of ["fetcher", "ntfy"] as const) {
+    if (plan[service].mode === "skip") return `The stack plan skips ${service}, which the workflows call`;
+  }
+  return null;
+}
+
+function digest(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+// Ids are derived from the source, so seeding again finds the workflow n8n
+// already has instead of adding a copy
+function workflowId(source: ListingSource): string {
+  return digest(`rental-polling:${source.id}`).slice(0, 16);
+}
+
+function nodeId(source: ListingSource, name: string): string {
+  const hex = digest(`rental-polling:${source.id}:${name}`);
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20, 32)].join("-");
+}
+
+// The HTML node's extraction values for each field. The node only sees the
+// item's inner HTML, so a selector reading the item element itself ("@href")
+// can't be carried over.
+function fieldExtractions(source: ListingSource, config: ExtractorConfig, warnings: string[]) {
+  const values: Record<string, unknown>[] = [];
+  for (const field of FIELDS) {
+    const selector = config.fields[field] || (field === "url" ? DEFAULT_URL_SELECTOR : undefined);
+    if (!selector) continue;
+
+    const { css, attr } = splitSelector(selector);
+    if (!css) {
+      warnings.push(`${source.name}: the ${field} selector "${selector}" reads the item itself, which n8n can't`);
+      continue;
+    }
+    values.push({
+      key: field,
+      cssSelector: css,
+      returnValue: attr ? "attribute" : "text",
+      ...(attr ? { attribute: attr } : {}),
+      returnArray: false,
+    });
+  }
+  return values;
+}
+
+// Keeps the listings this workflow hasn't seen before and turns them into
+// ntfy messages. The first run only remembers what is listed already, so
+// seeding doesn't announce the whole page.
+function notifyCode(source: ListingSource): string {
+  const page = new URL(source.url);
+  const settings = {
+    name: source.name,
+    topic: source.ntfyTopic,
+    protocol: page.protocol,
+    origin: page.origin,
+    base: new URL(".", page).toString(),
+  };
+  return [
+    `const SOURCE = ${JSON.stringify(settings)};`,
+    `const KEEP = ${SEEN_KEPT};`,
+    "",
+    "const state = $getWorkflowStaticData('global');",
+    "const firstRun = !Array.isArray(state.seen);",
+    "const seen = new Set(firstRun ? [] : state.seen);",
+    "",
+    "const absolute = (value) => {",
+    "  if (!value) return null;",
+    "  if (/^https?:\\/\\//i.test(value)) return value;",
+    "  if (value.startsWith('//')) return SOURCE.protocol + value;",
+    "  if (value.startsWith('/')) return SOURCE.origin + value;",
+    "  return SOURCE.base + value;",
+    "};",
+    "",
+    "const fresh = [];",
+    "for (const item of $input.all()) {",
+    "  const title = item.json.title || item.json.address;",
+    "  if (!title) continue;",
+    "  const url = absolute(item.json.url);",
+    "  const key = url || title + '|' + (item.json.address || '');",
+    "  if (seen.has(key)) continue;",
+    "  seen.add(key);",
+    "  fresh.push({ ...item.json, title, url });",
+    "}",
+    "state.seen = Array.from(seen).slice(-KEEP);",
+    "",
+    "if (firstRun) return [];",
+    "",
+    "return fresh.map((listing) => {",
+    "  const details = [",
+    "    listing.price,",
+    "    listing.surface,",
+    "    listing.rooms && listing.rooms + ' rooms',",
+    "    listing.furnished,",
+    "  ].filter(Boolean).join(' · ');",
+    "  const message = [listing.address, details].filter(Boolean).join('\\n') || 'New listing';",
+    "  return {",
+    "    json: {",
+    "      topic: SOURCE.topic,",
+    "      title: SOURCE.name + ': ' + listing.title,",
+    "      message,",
+    "      tags: ['house'],",
+    "      ...(listing.url ? { click: listing.url } : {}),",
+    "    },",
+    "  };",
+    "});",
+  ].join("\n");
+}
+
+// Schedule -> fetcher /fetch -> split the page into listings -> read their
+// fields -> keep the new ones -> publish each to the source's ntfy topic
+function pollingWorkflow(source: ListingSource, config: ExtractorConfig, plan: StackPlan, warnings: string[]): N8nWorkflow {
+  const request = buildSourceFetchRequest(source);
+  const chain: Omit<WorkflowNode, "id" | "position">[] = [
+    {
+      name: `Every ${source.pollIntervalMinutes} minutes`,
+      type: "n8n-nodes-base.scheduleTrigger",
+      typeVersion: 1.2,
+      parameters: { rule: { interval: [{ field: "minutes", minutesInterval: source.pollIntervalMinutes }] } },
+    },
+    {
+      name: "Fetch page",
+      type: "n8n-nodes-base.httpRequest",
+      typeVersion: 4.2,
+      parameters: {
+        method: "POST",
+        url: `${containerServiceUrl(plan, "fetcher")}/fetch`,
+        authentication: "genericCredentialType",
+        genericAuthType: "httpHeaderAuth",
+        sendBody: true,
+        specifyBody: "json",
+        jsonBody: JSON.stringify(request, null, 2),
+        // The fetcher's own timeout plus some slack for the round trip
+        options: { timeout: request.timeout + 15000 },
+      },
+      credentials: { httpHeaderAuth: FETCHER_CREDENTIAL },
+    },
+    {
+      name: "Find listings",
+      type: "n8n-nodes-base.html",
+      typeVersion: 1.2,
+      parameters: {
+        operation: "extractHtmlContent",
+        sourceData: "json",
+        dataPropertyName: "html",
+        extractionValues: {
+          values: [{ key: "items", cssSelector: config.itemSelector, returnValue: "html", returnArray: true }],
+        },
+        options: {},
+      },
+    },
+    {
+      name: "One item per listing",
+      type: "n8n-nodes-base.splitOut",
+      typeVersion: 1,
+      parameters: { fieldToSplitOut: "items", options: {} },
+    },
+    {
+      name: "Read fields",
+      type: "n8n-nodes-base.html",
+      typeVersion: 1.2,
+      parameters: {
+        operation: "extractHtmlContent",
+        sourceData: "json",
+        dataPropertyName: "items",
+        extractionValues: { values: fieldExtractions(source, config, warnings) },
+        options: { trimValues: true, cleanUpText: true },
+      },
+    },
+    {
+      name: "Keep new listings",
+      type: "n8n-nodes-base.code",
+      typeVersion: 2,
+      parameters: { jsCode: notifyCode(source) },
+    },
+    {
+      name: "Publish to ntfy",
+      type: "n8n-nodes-base.httpRequest",
+      typeVersion: 4.2,
+      parameters: {
+        method: "POST",
+        // ntfy takes JSON messages, naming their topic, at its root URL
+        url: containerServiceUrl(plan, "ntfy"),
+        sendBody: true,
+        specifyBody: "json",
+        jsonBody: "={{ JSON.stringify($json) }}",
+        options: {},
+      },
+    },
+  ];
+
+  const nodes: WorkflowNode[] = chain.map((node, index) => ({
+    ...node,
+    id: nodeId(source, node.name),
+    position: [index * 220, 0],
+  }));
+  const connections = Object.fromEntries(
+    nodes.slice(0, -1).map((node, index) => [
+      node.name,
+      { main: [[{ node: nodes[index + 1].name, type: "main", index: 0 }]] },
+    ])
+  );
+
+  return {
+    id: workflowId(source),
+    name: `Rental polling: ${source.name}`,
+    // Left for the user to switch on once they've looked it over
+    active: false,
+    nodes,
+    connections,
+    settings: { executionOrder: "v1" },
+  };
+}
+
+// One polling workflow per enabled source with an extractor; the others are
+// left out with a warning
+export function generateRentalPollingWorkflows(sources: ListingSource[], plan: StackPlan): RentalPollingTemplate {
+  const workflows: N8nWorkflow[] = [];
+  const warnings: string[] = [];
+  for (const source of sources) {
+    if (!source.enabled) {
+      warnings.push(`${source.name}: disabled, left out`);
+    } else if (!source.extractorConfig) {
+      warnings.push(`${source.name}: no extractor configured, left out`);
+    } else {
+      workflows.push(pollingWorkflow(source, source.extractorConfig, plan, warnings));
+    }
+  }
+  return { workflows, warnings };
+}
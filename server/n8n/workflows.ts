@@ -0,0 +1,260 @@
+import { createHash } from "crypto";
+import { createTwoFilesPatch } from "diff";
+import type {
+  Host,
+  N8nWorkflow,
+  StackPlan,
+  WorkflowHistory,
+  WorkflowVersion,
+  WorkflowVersionSummary,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { getSSHConfig } from "../vps/config";
+import { deployedStackPlan } from "../vps/stack";
+import { ExecError, SECRET_FILE_MODE, withSession, type ExecOptions, type SSHSession } from "../vps/ssh";
+
+// Inside the n8n container; removed again after each export or import
+const EXPORT_PATH = "/tmp/rentalmonitor-workflows.json";
+const IMPORT_PATH = "/tmp/rentalmonitor-workflow.json";
+const CLI_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Change on every save (or run) without the workflow itself changing
+const VOLATILE_FIELDS = ["createdAt", "updatedAt", "versionId", "triggerCount"];
+
+export interface WorkflowExportResult {
+  // Versions added by this export
+  created: WorkflowVersionSummary[];
+  unchanged: number;
+}
+
+// The n8n CLI only exists in our own container; a reused n8n is exported from
+// wherever it runs
+function n8nContainer(plan: StackPlan): string {
+  if (plan.n8n.mode !== "deploy") {
+    throw new Error("The stack on this host doesn't deploy n8n, so its workflows can't be exported from here");
+  }
+  return plan.n8n.containerName;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// Pretty JSON with sorted keys, so diffs and GitHub history only show real
+// changes
+export function workflowJson(workflow: N8nWorkflow): string {
+  return `${JSON.stringify(sortKeys(workflow), null, 2)}\n`;
+}
+
+function workflowHash(workflow: N8nWorkflow): string {
+  const stable = Object.fromEntries(Object.entries(workflow).filter(([key]) => !VOLATILE_FIELDS.includes(key)));
+  return createHash("sha256").update(JSON.stringify(sortKeys(stable))).digest("hex");
+}
+
+export function summarizeVersion({ content: _content, ...summary }: WorkflowVersion): WorkflowVersionSummary {
+  return summary;
+}
+
+// `n8n export:workflow` exits non-zero when there is nothing to export
+async function exportWorkflows(ssh: SSHSession, container: string, options: ExecOptions): Promise<N8nWorkflow[]> {
+  const command = `docker exec ${container} n8n export:workflow --all --output=${EXPORT_PATH}`;
+  const result = await ssh.exec(command, { ...options, timeoutMs: CLI_TIMEOUT_MS });
+  if (/No workflows found/i.test(`${result.stdout}\n${result.stderr}`)) return [];
+  if (result.exitCode !== 0) throw new ExecError(command, result);
+
+  const { stdout } = await ssh.run(`docker exec ${container} sh -c 'cat ${EXPORT_PATH} && rm -f ${EXPORT_PATH}'`, {
+    signal: options.signal,
+  });
+  const parsed = JSON.parse(stdout);
+  return (Array.isArray(parsed) ? parsed : [parsed]).filter(
+    (workflow): workflow is N8nWorkflow => typeof workflow?.id === "string" && typeof workflow?.name === "string"
+  );
+}
+
+// The highest version of each workflow, by workflow id
+function newestVersions(versions: WorkflowVersion[]): Map<string, WorkflowVersion> {
+  const newest = new Map<string, WorkflowVersion>();
+  for (const version of versions) {
+    const seen = newest.get(version.workflowId);
+    if (!seen || version.version > seen.version) newest.set(version.workflowId, version);
+  }
+  return newest;
+}
+
+// Adds a version for each workflow whose content differs from its newest one
+async function recordVersions(host: Host, workflows: N8nWorkflow[]): Promise<WorkflowExportResult> {
+  const newest = newestVersions(await storage.listWorkflowVersions(host.id));
+
+  const created: WorkflowVersionSummary[] = [];
+  for (const workflow of workflows) {
+    const hash = workflowHash(workflow);
+    const previous = newest.get(workflow.id);
+    if (previous?.hash === hash) continue;
+
+    const version = await storage.createWorkflowVersion({
+      hostId: host.id,
+      workflowId: workflow.id,
+      name: workflow.name,
+      version: (previous?.version ?? 0) + 1,
+      hash,
+      content: workflow,
+    });
+    created.push(summarizeVersion(version));
+  }
+  return { created, unchanged: workflows.length - created.length };
+}
+
+// Exports every workflow from the host's n8n through its CLI and records the
+// ones that changed
+export async function exportHostWorkflows(host: Host, options: ExecOptions = {}): Promise<WorkflowExportResult> {
+  const config = await getSSHConfig(host);
+  const container = n8nContainer(await deployedStackPlan(host));
+  const workflows = await withSession(config, (ssh) => exportWorkflows(ssh, container, options));
+  return recordVersions(host, workflows);
+}
+
+// Imports workflows or credentials into n8n in one go, replacing any with the
+// same id. n8n encrypts plain credential data with its own key on import, but
+// the file holds it in plain text, so it's only ever readable by its owner and
+// removed again whether or not the import worked.
+async function importEntities(
+  ssh: SSHSession,
+  container: string,
+  kind: "workflow" | "credentials",
+  entities: unknown[],
+  options: ExecOptions
+): Promise<void> {
+  let dir: string | null = null;
+  try {
+    dir = (await ssh.run("mktemp -d /tmp/rentalmonitor-import.XXXXXX", options)).stdout.trim();
+    const upload = `${dir}/${kind}.json`;
+    await ssh.uploadFile(`${JSON.stringify(sortKeys(entities), null, 2)}\n`, upload, { mode: SECRET_FILE_MODE });
+    // Piped in rather than `docker cp`'d so the file belongs to n8n's user
+    await ssh.run(
+      `docker exec -i ${container} sh -c 'umask 077 && cat > ${IMPORT_PATH}' < ${upload} && ` +
+        `docker exec ${container} n8n import:${kind} --input=${IMPORT_PATH}`,
+      { ...options, timeoutMs: CLI_TIMEOUT_MS }
+    );
+  } finally {
+    await ssh.exec(`${dir ? `rm -rf ${dir}; ` : ""}docker exec ${container} rm -f ${IMPORT_PATH}`);
+  }
+}
+
+// Imports the version into the host's n8n, replacing the workflow with the
+// same id (n8n deactivates imported workflows), then exports again so the
+// history shows what n8n now has
+export async function importWorkflowVersion(
+  host: Host,
+  version: WorkflowVersion,
+  options: ExecOptions = {}
+): Promise<WorkflowExportResult> {
+  const config = await getSSHConfig(host);
+  const container = n8nContainer(await deployedStackPlan(host));
+
+  const workflows = await withSession(config, async (ssh) => {
+    await importEntities(ssh, container, "workflow", [version.content], options);
+    return exportWorkflows(ssh, container, options);
+  });
+  return recordVersions(host, workflows);
+}
+
+// A credential in the shape `n8n import:credentials` takes, with plain data
+export interface N8nCredential {
+  id: string;
+  name: string;
+  type: string;
+  data: Record<string, string>;
+}
+
+export interface WorkflowSeedResult {
+  // Names of the workflows imported, and of those n8n already had
+  seeded: string[];
+  present: string[];
+}
+
+// Imports the credentials the workflows use, replacing ours from an earlier
+// seed so they follow secret changes, then the workflows n8n doesn't have yet.
+// One it already has (by id) is left alone, since it may have been edited
+// since it was seeded.
+export async function seedWorkflows(
+  ssh: SSHSession,
+  container: string,
+  workflows: N8nWorkflow[],
+  credentials: N8nCredential[],
+  options: ExecOptions = {}
+): Promise<WorkflowSeedResult> {
+  if (credentials.length > 0) {
+    await importEntities(ssh, container, "credentials", credentials, options);
+  }
+  const existing = new Set((await exportWorkflows(ssh, container, options)).map((workflow) => workflow.id));
+  const missing = workflows.filter((workflow) => !existing.has(workflow.id));
+  if (missing.length > 0) {
+    await importEntities(ssh, container, "workflow", missing, options);
+  }
+  return {
+    seeded: missing.map((workflow) => workflow.name),
+    present: workflows.filter((workflow) => existing.has(workflow.id)).map((workflow) => workflow.name),
+  };
+}
+
+// The host's workflows with their versions, by name
+export async function listWorkflowHistory(hostId: string): Promise<WorkflowHistory[]> {
+  const histories = new Map<string, WorkflowHistory>();
+  for (const version of await storage.listWorkflowVersions(hostId)) {
+    const history = histories.get(version.workflowId) ?? { workflowId: version.workflowId, name: version.name, versions: [] };
+    history.versions.push(summarizeVersion(version));
+    histories.set(version.workflowId, history);
+  }
+  return Array.from(histories.values())
+    .map((history) => {
+      const versions = history.versions.sort((a, b) => b.version - a.version);
+      return { ...history, name: versions[0].name, versions };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Unified diff of two versions' JSON; without `from`, against nothing
+export function diffWorkflowVersions(from: WorkflowVersion | null, to: WorkflowVersion): string {
+  return createTwoFilesPatch(
+    from ? `${from.name} v${from.version}` : "/dev/null",
+    `${to.name} v${to.version}`,
+    from ? workflowJson(from.content) : "",
+    workflowJson(to.content),
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+}
+
+function slug(value: string): string {
+  return (
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "workflow"
+  );
+}
+
+// The newest version of every workflow of every host, as files for the GitHub
+// sync: n8n-workflows/<host>/<name>-<id>.json
+export async function workflowSyncFiles(): Promise<{ path: string; content: string }[]> {
+  const files: { path: string; content: string }[] = [];
+  for (const host of await storage.listHosts()) {
+    const newest = newestVersions(await storage.listWorkflowVersions(host.id));
+    for (const version of Array.from(newest.values())) {
+      files.push({
+        path: `n8n-workflows/${slug(host.name)}/${slug(version.name)}-${slug(version.workflowId)}.json`,
+        content: workflowJson(version.content),
+      });
+    }
+  }
+  return files;
+}
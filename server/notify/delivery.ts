@@ -0,0 +1,65 @@
+import type { NotificationDelivery } from "@shared/schema";
+import { storage } from "../storage";
+import { NotifyError } from "./types";
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+// Keeps a burst of matching listings (or a misconfigured rule) from flooding
+// one recipient - ntfy and Telegram start rejecting bursts anyway.
+function rateLimitPerMinute(): number {
+  return parseInt(process.env.NOTIFY_RATE_LIMIT_PER_MINUTE ?? "", 10) || 10;
+}
+
+const recentSends = new Map<string, number[]>();
+
+function takeRateLimitSlot(key: string): boolean {
+  const now = Date.now();
+  const recent = (recentSends.get(key) ?? []).filter((at) => now - at < RATE_LIMIT_WINDOW_MS);
+  if (recent.length >= rateLimitPerMinute()) {
+    recentSends.set(key, recent);
+    return false;
+  }
+  recent.push(now);
+  recentSends.set(key, recent);
+  return true;
+}
+
+export interface DeliveryMeta {
+  channel: NotificationDelivery["channel"];
+  target: string;
+  title: string | null;
+  message: string;
+  channelId?: string;
+  listingId?: string;
+}
+
+// Runs one send and logs the attempt. Throws NotifyError (status 429 when
+// rate limited) after the failed delivery has been recorded.
+export async function deliver(meta: DeliveryMeta, send: () => Promise<void>): Promise<NotificationDelivery> {
+  const delivery = {
+    ...meta,
+    channelId: meta.channelId ?? null,
+    listingId: meta.listingId ?? null,
+  };
+
+  if (!takeRateLimitSlot(`${meta.channel}:${meta.target}`)) {
+    const error = `Rate limit of ${rateLimitPerMinute()} messages per minute reached for ${meta.channel} "${meta.target}"`;
+    await storage.recordNotificationDelivery({ ...delivery, status: "rate_limited", error });
+    throw new NotifyError(error, 429);
+  }
+
+  const start = Date.now();
+  try {
+    await send();
+  } catch (error) {
+    await storage.recordNotificationDelivery({
+      ...delivery,
+      status: "failed",
+      error: (error as Error).message,
+      durationMs: Date.now() - start,
+    });
+    throw error instanceof NotifyError ? error : new NotifyError((error as Error).message);
+  }
+
+  return storage.recordNotificationDelivery({ ...delivery, status: "sent", durationMs: Date.now() - start });
+}
@@ -0,0 +1,42 @@
+import type { NotificationChannelConfig, NotificationDelivery } from "@shared/schema";
+import { deliver } from "./delivery";
+import { NtfyNotifier } from "./ntfy";
+import { EmailNotifier } from "./email";
+import { TelegramNotifier } from "./telegram";
+import { WebhookNotifier } from "./webhook";
+import type { NotificationContent, Notifier } from "./types";
+
+export { NotifyError } from "./types";
+export type { NotificationContent, Notifier } from "./types";
+export { publishNtfy, resetNtfyTunnel, NtfyNotifier } from "./ntfy";
+
+type NotifierFactories = {
+  [Type in NotificationChannelConfig["type"]]: (
+    config: Extract<NotificationChannelConfig, { type: Type }>
+  ) => Notifier;
+};
+
+// New channel types register a factory here and extend notificationChannelConfigSchema
+const notifierFactories: NotifierFactories = {
+  ntfy: (config) => new NtfyNotifier(config.topic),
+  email: (config) => new EmailNotifier(config.to),
+  telegram: (config) => new TelegramNotifier(config.chatId),
+  webhook: (config) => new WebhookNotifier(config.url),
+};
+
+export function createNotifier(config: NotificationChannelConfig): Notifier {
+  const factory = notifierFactories[config.type] as (config: NotificationChannelConfig) => Notifier;
+  return factory(config);
+}
+
+// Sends through any notifier with the shared rate limit and delivery log
+export function sendNotification(
+  notifier: Notifier,
+  content: NotificationContent,
+  context: { channelId?: string; listingId?: string } = {}
+): Promise<NotificationDelivery> {
+  return deliver(
+    { channel: notifier.type, target: notifier.target, title: content.title, message: content.message, ...context },
+    () => notifier.send(content)
+  );
+}
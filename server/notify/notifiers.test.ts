@@ -0,0 +1,70 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { freePort, startScript, type ScriptProcess } from "../testing";
+import { createNotifier, type NotificationContent } from "./index";
+
+const CONTENT: NotificationContent = {
+  title: "New: Appartement Torenallee 20 - 1450",
+  message: "5617 BD Eindhoven (Strijp-S)\n68 m2 - 3 rooms",
+  url: "https://example.com/huurwoningen/eindhoven/strijp-s-1",
+};
+
+let sinks: ScriptProcess;
+let httpUrl: string;
+
+before(async () => {
+  const [smtpPort, httpPort] = [await freePort(), await freePort()];
+  sinks = await startScript(
+    "server/notify/sinks.ts",
+    { SINK_SMTP_PORT: String(smtpPort), SINK_HTTP_PORT: String(httpPort) },
+    "HTTP sink (ntfy, Telegram, webhooks) running"
+  );
+  await sinks.waitForOutput("SMTP sink running");
+
+  httpUrl = `http://127.0.0.1:${httpPort}`;
+  process.env.NTFY_URL = httpUrl;
+  process.env.SMTP_URL = `smtp://127.0.0.1:${smtpPort}`;
+  process.env.TELEGRAM_API_URL = httpUrl;
+  process.env.TELEGRAM_BOT_TOKEN = "test";
+});
+
+after(async () => {
+  await sinks?.stop();
+});
+
+test("ntfy publishes JSON to the topic", async () => {
+  await createNotifier({ type: "ntfy", topic: "rentals-ntfy-test" }).send(CONTENT);
+
+  await sinks.waitForOutput('"topic": "rentals-ntfy-test"');
+  assert.match(sinks.output(), /"label": "Open listing"/);
+});
+
+test("email sends the message with the listing link", async () => {
+  await createNotifier({ type: "email", to: "tenant@example.com" }).send(CONTENT);
+
+  await sinks.waitForOutput("[smtp] message received");
+  const output = sinks.output();
+  assert.match(output, /To: tenant@example\.com/);
+  assert.match(output, /Subject: New: Appartement Torenallee 20 - 1450/);
+  assert.match(output, /strijp-s-1/);
+});
+
+test("telegram sends a photo when the listing has an image", async () => {
+  await createNotifier({ type: "telegram", chatId: "4242" }).send({
+    ...CONTENT,
+    imageUrl: "https://images.example.com/strijp-s-1.jpg",
+  });
+
+  await sinks.waitForOutput("[telegram] sendPhoto");
+  assert.match(sinks.output(), /"chat_id": "4242"/);
+});
+
+test("webhook posts the content to its URL", async () => {
+  await createNotifier({ type: "webhook", url: `${httpUrl}/webhook/notifier-test` }).send({
+    ...CONTENT,
+    data: { listingId: "listing-1" },
+  });
+
+  await sinks.waitForOutput("[webhook] /webhook/notifier-test");
+  assert.match(sinks.output(), /"listingId": "listing-1"/);
+});
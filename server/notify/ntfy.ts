@@ -0,0 +1,102 @@
+import type { Host, NotificationDelivery, NtfyMessage } from "@shared/schema";
+import { storage } from "../storage";
+import { getSSHConfig } from "../vps/config";
+import { createTunnelCache, openTunnel, type Tunnel } from "../vps/tunnel";
+import { deployedStackPlan, serviceEndpoint } from "../vps/stack";
+import { deliver } from "./delivery";
+import { NotifyError, type NotificationContent, type Notifier } from "./types";
+
+const PUBLISH_TIMEOUT_MS = 15000;
+
+// One tunnel per host, kept open between messages
+const ntfyTunnels = createTunnelCache<Tunnel>((tunnel) => tunnel);
+
+// Closes the tunnel to the host's ntfy, e.g. after the host was deleted or moved
+export function resetNtfyTunnel(hostId: string) {
+  ntfyTunnels.reset(hostId);
+}
+
+// NTFY_URL points at a reachable ntfy server (e.g. the public proxy);
+// otherwise the ntfy on `host` (default: the primary host), ours or the one
+// its stack plan reuses, is reached through an SSH tunnel. `reset` drops that
+// tunnel after a failed publish.
+async function resolveNtfyBaseUrl(host?: Host): Promise<{ baseUrl: string; reset: () => void }> {
+  if (process.env.NTFY_URL) {
+    return { baseUrl: process.env.NTFY_URL.replace(/\/+$/, ""), reset: () => {} };
+  }
+
+  const target = host ?? (await storage.getPrimaryHost());
+  if (!target) {
+    throw new NotifyError("No hosts configured");
+  }
+
+  const scan = await storage.getLatestPreflightScan(target.id);
+  if (!scan) {
+    throw new NotifyError(`Run preflight scan on ${target.name} first`);
+  }
+
+  const endpoint = serviceEndpoint(await deployedStackPlan(target), "ntfy", scan.result.safePlan.portsToUse);
+  const { value: tunnel, reset } = await ntfyTunnels.get(target.id, endpoint, async () =>
+    openTunnel(await getSSHConfig(target), endpoint.port, endpoint.host)
+  );
+  return { baseUrl: `http://127.0.0.1:${tunnel.localPort}`, reset };
+}
+
+async function postMessage(message: NtfyMessage, host?: Host): Promise<void> {
+  const { baseUrl, reset } = await resolveNtfyBaseUrl(host);
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (process.env.NTFY_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.NTFY_TOKEN}`;
+  }
+
+  let res: Response;
+  try {
+    // Publishing as JSON to the root URL keeps the message out of headers,
+    // so quotes, newlines and non-ASCII text go through untouched
+    res = await fetch(baseUrl, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(PUBLISH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    reset();
+    throw new NotifyError(`ntfy unreachable: ${(error as Error).message}`);
+  }
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new NotifyError(body?.error || `ntfy returned HTTP ${res.status}`, res.status);
+  }
+}
+
+// Publishes a raw ntfy message (e.g. from the test route), rate limited and logged
+export function publishNtfy(
+  message: NtfyMessage,
+  context: { channelId?: string; listingId?: string } = {},
+  host?: Host
+): Promise<NotificationDelivery> {
+  return deliver(
+    { channel: "ntfy", target: message.topic, title: message.title ?? null, message: message.message, ...context },
+    () => postMessage(message, host)
+  );
+}
+
+export class NtfyNotifier implements Notifier {
+  readonly type = "ntfy";
+
+  constructor(readonly target: string) {}
+
+  send(content: NotificationContent): Promise<void> {
+    return postMessage({
+      topic: this.target,
+      title: content.title.slice(0, 256),
+      message: content.message.slice(0, 4096),
+      priority: content.priority,
+      tags: content.tags,
+      click: content.url,
+      attach: content.imageUrl,
+      actions: content.url ? [{ action: "view", label: "Open listing", url: content.url }] : undefined,
+    });
+  }
+}
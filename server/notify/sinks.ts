@@ -0,0 +1,78 @@
+// Local stand-ins for the notification channels so alerts can be exercised
+// without real accounts. Run with `npm run notify:sinks` and start the
+// dashboard with:
+//   SMTP_URL=smtp://127.0.0.1:2525
+//   NTFY_URL=http://127.0.0.1:3102
+//   TELEGRAM_API_URL=http://127.0.0.1:3102 TELEGRAM_BOT_TOKEN=test
+// Webhook channels can point at http://127.0.0.1:3102/webhook.
+import net from "net";
+import express from "express";
+
+const SMTP_PORT = parseInt(process.env.SINK_SMTP_PORT || "2525", 10);
+const HTTP_PORT = parseInt(process.env.SINK_HTTP_PORT || "3102", 10);
+
+// Just enough SMTP for nodemailer: no auth, no STARTTLS, prints each message
+const smtp = net.createServer((socket) => {
+  let buffer = "";
+  let data: string[] | null = null;
+
+  socket.write("220 notify-sink ESMTP\r\n");
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString();
+    let newline: number;
+    while ((newline = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (data) {
+        if (line === ".") {
+          console.log(`[smtp] message received:\n${data.join("\n")}\n`);
+          data = null;
+          socket.write("250 OK: queued\r\n");
+        } else {
+          data.push(line.startsWith("..") ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === "EHLO") {
+        socket.write("250-notify-sink\r\n250 8BITMIME\r\n");
+      } else if (command === "DATA") {
+        data = [];
+        socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+      } else if (command === "QUIT") {
+        socket.end("221 Bye\r\n");
+      } else {
+        socket.write("250 OK\r\n");
+      }
+    }
+  });
+
+  socket.on("error", () => socket.destroy());
+});
+
+const app = express();
+app.use(express.json());
+
+// Telegram Bot API: /bot<token>/sendMessage, /bot<token>/sendPhoto
+app.post("/bot:token/:method", (req, res) => {
+  console.log(`[telegram] ${req.params.method}`, JSON.stringify(req.body, null, 2));
+  res.json({ ok: true, result: { message_id: Date.now() } });
+});
+
+// ntfy JSON publish (POST /) and generic webhooks (any other path)
+app.post(/.*/, (req, res) => {
+  const kind = req.path === "/" ? "ntfy" : "webhook";
+  console.log(`[${kind}] ${req.path}`, JSON.stringify(req.body, null, 2));
+  res.json({ id: `sink-${Date.now()}`, event: "message" });
+});
+
+smtp.listen(SMTP_PORT, "127.0.0.1", () => {
+  console.log(`SMTP sink running on port ${SMTP_PORT}`);
+});
+
+app.listen(HTTP_PORT, "127.0.0.1", () => {
+  console.log(`HTTP sink (ntfy, Telegram, webhooks) running on port ${HTTP_PORT}`);
+});
@@ -0,0 +1,62 @@
+import { NotifyError, type NotificationContent, type Notifier } from "./types";
+
+const SEND_TIMEOUT_MS = 15000;
+// Telegram rejects photo captions longer than this
+const MAX_CAPTION_LENGTH = 1024;
+
+async function callBotApi(method: string, body: Record<string, unknown>): Promise<void> {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) {
+    throw new NotifyError("TELEGRAM_BOT_TOKEN is not configured");
+  }
+
+  // TELEGRAM_API_URL lets the local sink stand in for api.telegram.org
+  const baseUrl = (process.env.TELEGRAM_API_URL || "https://api.telegram.org").replace(/\/+$/, "");
+
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/bot${token}/${method}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new NotifyError(`Telegram unreachable: ${(error as Error).message}`);
+  }
+
+  const result = await res.json().catch(() => null);
+  if (!res.ok || !result?.ok) {
+    throw new NotifyError(result?.description || `Telegram returned HTTP ${res.status}`, res.status);
+  }
+}
+
+export class TelegramNotifier implements Notifier {
+  readonly type = "telegram";
+
+  constructor(readonly target: string) {}
+
+  async send(content: NotificationContent): Promise<void> {
+    // Plain text (no parse_mode) so listing titles never need escaping
+    const text = `${content.title}\n\n${content.message}`;
+    const replyMarkup = content.url
+      ? { inline_keyboard: [[{ text: "Open listing", url: content.url }]] }
+      : undefined;
+
+    if (content.imageUrl && text.length <= MAX_CAPTION_LENGTH) {
+      await callBotApi("sendPhoto", {
+        chat_id: this.target,
+        photo: content.imageUrl,
+        caption: text,
+        reply_markup: replyMarkup,
+      });
+      return;
+    }
+
+    await callBotApi("sendMessage", {
+      chat_id: this.target,
+      text,
+      reply_markup: replyMarkup,
+    });
+  }
+}
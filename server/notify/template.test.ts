@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_MESSAGE_TEMPLATE, DEFAULT_TITLE_TEMPLATE, renderTemplate } from "./template";
+
+test("separators left dangling by an empty field are trimmed", () => {
+  assert.equal(renderTemplate(DEFAULT_TITLE_TEMPLATE, { event: "New", title: "Studio", price: "€ 995" }), "New: Studio - € 995");
+  assert.equal(renderTemplate(DEFAULT_TITLE_TEMPLATE, { event: "New", title: "Studio", price: "" }), "New: Studio");
+  assert.equal(renderTemplate("{{title}} | {{surface}} · {{rooms}}", { title: "Studio" }), "Studio");
+});
+
+test("lines that end up empty are dropped", () => {
+  const message = renderTemplate(DEFAULT_MESSAGE_TEMPLATE, {
+    address: "",
+    details: "34 m² · 1 rooms",
+    change: "",
+    rules: "Sam (Eindhoven)",
+  });
+
+  assert.equal(message, "34 m² · 1 rooms\nMatches: Sam (Eindhoven)");
+});
+
+test("unknown placeholders render empty", () => {
+  assert.equal(renderTemplate("{{ title }} {{nope}}", { title: "Studio" }), "Studio");
+});
@@ -0,0 +1,14 @@
+// Channel templates use {{field}} placeholders; unknown fields render empty.
+export const DEFAULT_TITLE_TEMPLATE = "{{event}}: {{title}} - {{price}}";
+export const DEFAULT_MESSAGE_TEMPLATE = "{{address}}\n{{details}}\n{{change}}\nMatches: {{rules}}";
+
+// Lines that end up empty (a listing without an address, say) are dropped, and
+// separators left dangling by an empty field are trimmed.
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => vars[key] ?? "")
+    .split("\n")
+    .map((line) => line.replace(/[\s:·|-]+$/, "").trim())
+    .filter(Boolean)
+    .join("\n");
+}
@@ -0,0 +1,28 @@
+import type { NotificationChannelConfig } from "@shared/schema";
+
+export class NotifyError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "NotifyError";
+  }
+}
+
+// A rendered notification; each channel maps it onto its own format
+export interface NotificationContent {
+  title: string;
+  message: string;
+  url?: string;
+  imageUrl?: string;
+  // ntfy scale: 1 (min) to 5 (urgent)
+  priority?: number;
+  tags?: string[];
+  // Structured fields for channels that forward data rather than text (webhook)
+  data?: Record<string, unknown>;
+}
+
+export interface Notifier {
+  readonly type: NotificationChannelConfig["type"];
+  // Recipient shown in the delivery log (topic, address, chat id, URL)
+  readonly target: string;
+  send(content: NotificationContent): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { NotifyError, type NotificationContent, type Notifier } from "./types";
+
+const SEND_TIMEOUT_MS = 15000;
+
+export class WebhookNotifier implements Notifier {
+  readonly type = "webhook";
+
+  constructor(readonly target: string) {}
+
+  async send(content: NotificationContent): Promise<void> {
+    let res: Response;
+    try {
+      res = await fetch(this.target, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: content.title,
+          message: content.message,
+          url: content.url ?? null,
+          imageUrl: content.imageUrl ?? null,
+          data: content.data ?? {},
+        }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new NotifyError(`Webhook unreachable: ${(error as Error).message}`);
+    }
+
+    if (!res.ok) {
+      throw new NotifyError(`Webhook returned HTTP ${res.status}`, res.status);
+    }
+  }
+}
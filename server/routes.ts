@@ -1,9 +1,86 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { runPreflightScan } from "./vps/preflight";
-import { deployToVPS, checkVPSServices } from "./vps/deploy";
+import {
+  deployToVPS,
+  planDeploy,
+  rollbackToRelease,
+  checkVPSServices,
+  upgradeService,
+  RELEASES_KEPT,
+  type DeployOptions,
+  type DeployResult,
+} from "./vps/deploy";
+import {
+  submitJob,
+  getJob,
+  listJobs,
+  waitForJob,
+  cancelJob,
+  streamJob,
+  JobConflictError,
+  activeHostJob,
+  type JobContext,
+  type JobOutcome,
+} from "./vps/jobs";
+import { getSSHConfig, hasSSHCredentials } from "./vps/config";
+import { ensureEnvHost, resolveHost } from "./vps/hosts";
+import { scanHostKey, pinnedHostKey, trustHostKey, HostKeyConfirmationError } from "./vps/hostkeys";
+import { closeSession } from "./vps/ssh";
+import { defaultStackPlan, deployedStackPlan, hostStackPlan } from "./vps/stack";
+import { inspectImages } from "./vps/images";
+import { submitBackup, restoreHostBackup, startBackupScheduler, getBackupSchedulerState } from "./vps/backups";
+import {
+  exportHostWorkflows,
+  importWorkflowVersion,
+  listWorkflowHistory,
+  diffWorkflowVersions,
+  summarizeVersion,
+  workflowSyncFiles,
+} from "./n8n/workflows";
+import {
+  generateRentalPollingWorkflows,
+  templateUnavailableReason,
+  type RentalPollingTemplate,
+} from "./n8n/template";
+import { startHealthMonitor, getHealthMonitorState, summarizeUptime, uptimeWindowStart } from "./vps/monitor";
+import { startScheduler, stopScheduler, runSource, syncSource, getSchedulerState } from "./scheduler/scheduler";
 import { getGitHubUser, createRepository, getRepositories, checkRepositoryExists, syncToGitHub, getLastCommit } from "./github";
-import type { PreflightResult, DeploymentStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { fromZodError } from "zod-validation-error";
+import { callFetcher, buildSourceFetchRequest, resetFetcherConnection } from "./fetcher/client";
+import { createExtractor } from "./extractor";
+import { startAlertEngine, previewRule, toRuleCriteria } from "./alerts/rules";
+import { publishNtfy, resetNtfyTunnel, createNotifier, sendNotification, NotifyError } from "./notify";
+import { buildTestContent } from "./alerts/dispatch";
+import {
+  extractorConfigSchema,
+  insertListingSourceSchema,
+  updateListingSourceSchema,
+  insertAlertRuleSchema,
+  updateAlertRuleSchema,
+  ntfyMessageSchema,
+  insertNotificationChannelSchema,
+  updateNotificationChannelSchema,
+  insertHostSchema,
+  updateHostSchema,
+  trustHostKeySchema,
+  stackPlanSchema,
+  upgradableServices,
+  upgradeServiceSchema,
+  jobKinds,
+  jobStatuses,
+  uptimeWindows,
+  type Job,
+  type Host,
+  type PreflightResult,
+  type DeploymentStatus,
+  type DeployStep,
+  type StackPlan,
+  type StackPorts,
+  type UpgradableService,
+  type UptimeWindow,
+} from "@shared/schema";
 
 // Auth middleware - requires X-Admin-Key header
 function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
@@ -40,206 +117,1490 @@ function rateLimitGitHubSync(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
-// In-memory state
-let lastPreflightResult: PreflightResult | null = null;
-let deploymentStatus: DeploymentStatus = {
+const SSE_HEARTBEAT_MS = 15000;
+
+// Persisted state - survives server restarts when backed by Postgres
+const DEFAULT_DEPLOYMENT_STATUS: DeploymentStatus = {
   status: "idle",
   message: "Ready to scan VPS",
 };
 
-function getSSHConfig() {
-  const host = process.env.VPS_PERSONAL_IP;
-  const username = process.env.VPS_PERSONAL_USER;
-  const privateKey = process.env.VPS_SSH_PRIVATE_KEY;
-
-  if (!host || !username || !privateKey) {
-    const missing = [];
-    if (!host) missing.push("VPS_PERSONAL_IP");
-    if (!username) missing.push("VPS_PERSONAL_USER");
-    if (!privateKey) missing.push("VPS_SSH_PRIVATE_KEY");
-    throw new Error(`Missing required secrets: ${missing.join(", ")}`);
-  }
+async function getLastPreflightResult(hostId: string): Promise<PreflightResult | null> {
+  const scan = await storage.getLatestPreflightScan(hostId);
+  return scan?.result ?? null;
+}
+
+// Host-scoped routes take ?hostId= (or hostId in the body) and fall back to
+// the primary host
+function requestHostId(req: Request): string | undefined {
+  const hostId = req.query.hostId ?? req.body?.hostId;
+  return typeof hostId === "string" && hostId ? hostId : undefined;
+}
+
+async function findRequestHost(req: Request): Promise<Host | undefined> {
+  return resolveHost(requestHostId(req));
+}
+
+function hostNotFound(req: Request): string {
+  return requestHostId(req) ? "Host not found" : "No hosts configured - add one on the Hosts tab";
+}
+
+// Closes the fetcher and ntfy tunnels to the host; the next request opens new
+// ones with its current settings
+function closeTunnels(hostId: string) {
+  resetFetcherConnection(hostId);
+  resetNtfyTunnel(hostId);
+}
+
+// A jump host must exist and its chain must not lead back to the host itself
+async function checkJumpHost(jumpHostId: string, hostId?: string): Promise<string | null> {
+  let current = await storage.getHost(jumpHostId);
+  if (!current) return "Jump host not found";
+
+  for (let hops = 1; current; hops++) {
+    if (current.id === hostId) return "Jump host chain would loop back to this host";
+    if (hops > 3) return "Jump host chain is longer than 3 hops";
+    current = current.jumpHostId ? await storage.getHost(current.jumpHostId) : undefined;
+  }
+  return null;
+}
+
+// Conflicting jobs are rejected with 409 unless the caller asks to queue
+function wantsQueue(req: Request): boolean {
+  return req.query.queue === "true" || req.body?.queue === true;
+}
+
+async function getDeploymentStatus(hostId: string): Promise<DeploymentStatus> {
+  return (await storage.getDeploymentStatus(hostId)) ?? DEFAULT_DEPLOYMENT_STATUS;
+}
+
+// Records the release a deploy or upgrade snapshotted, and forgets the ones it
+// pruned on the host. Returns the release's id when it is now running.
+async function saveRelease(
+  host: Host,
+  result: DeployResult,
+  ports: StackPorts,
+  plan: StackPlan
+): Promise<string | undefined> {
+  if (!result.release) return undefined;
+  const release = await storage.createRelease({
+    hostId: host.id,
+    name: result.release,
+    ports,
+    plan,
+    status: result.success ? "success" : "error",
+    message: result.message,
+  });
+  // The run removed the same directories on the host
+  const stale = (await storage.listReleases(host.id)).slice(RELEASES_KEPT);
+  await storage.deleteReleases(stale.map((old) => old.id));
+  return result.success ? release.id : undefined;
+}
+
+// The job task shared by deploys, rollbacks and upgrades: records step
+// progress and the outcome in the host's deployment status. `recordRelease`
+// stores what the run did to the host's releases and returns the release now
+// running, if any.
+async function runDeploymentJob<R extends DeployResult>(
+  host: Host,
+  { log, signal }: JobContext,
+  message: string,
+  run: (options: DeployOptions) => Promise<R>,
+  recordRelease: (result: R) => Promise<string | undefined>
+): Promise<JobOutcome<R>> {
+  await storage.recordDeploymentStatus(host.id, { status: "deploying", message });
+
+  // Step updates are recorded in order, and before the final status
+  let stepUpdates = Promise.resolve();
+  const onSteps = (steps: DeployStep[]) => {
+    const running = steps.find((step) => step.status === "running");
+    stepUpdates = stepUpdates
+      .then(() =>
+        storage.recordDeploymentStatus(host.id, {
+          status: "deploying",
+          message: running ? `${running.label}...` : message,
+          steps,
+        })
+      )
+      .then(
+        () => {},
+        (error) => log("stderr", `Could not record deploy progress: ${(error as Error).message}`)
+      );
+  };
+
+  try {
+    const result = await run({ onLog: log, onSteps, signal });
+    await stepUpdates;
+    const releaseId = await recordRelease(result);
+    await storage.recordDeploymentStatus(
+      host.id,
+      signal.aborted
+        ? { ...(await getDeploymentStatus(host.id)), status: "idle", message: "Deployment cancelled", steps: result.steps }
+        : {
+            status: result.success ? "success" : "error",
+            message: result.message,
+            lastDeploy: new Date().toISOString(),
+            services: result.services,
+            steps: result.steps,
+            releaseId,
+          }
+    );
+    return { success: result.success, message: result.message, result };
+  } catch (error) {
+    await storage.recordDeploymentStatus(host.id, {
+      status: "error",
+      message: (error as Error).message,
+    });
+    throw error;
+  }
+}
+
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  // Apply admin auth to all /api routes except health
+  app.use("/api", (req, res, next) => {
+    // Skip auth for public health check
+    if (req.path === "/health") {
+      return next();
+    }
+    requireAdminAuth(req, res, next);
+  });
+
+  // Public health check (no auth required)
+  app.get("/api/health", (req, res) => {
+    res.json({ status: "ok", timestamp: new Date().toISOString() });
+  });
+
+  // Get deployment status of a host
+  app.get("/api/status", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        if (requestHostId(req)) {
+          return res.status(404).json({ error: hostNotFound(req) });
+        }
+        return res.json({
+          host: null,
+          deploymentStatus: { status: "idle", message: "Add a host to get started" },
+          lastPreflightResult: null,
+          secretsConfigured: false,
+        });
+      }
+
+      res.json({
+        host,
+        deploymentStatus: await getDeploymentStatus(host.id),
+        lastPreflightResult: await getLastPreflightResult(host.id),
+        secretsConfigured: hasSSHCredentials(host),
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Run preflight scan (as a job, so it can't overlap a deploy on the same host)
+  app.post("/api/preflight", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+      const config = await getSSHConfig(host);
+
+      const job = submitJob(
+        "preflight",
+        host,
+        async ({ signal }) => {
+          await storage.recordDeploymentStatus(host.id, {
+            status: "scanning",
+            message: "Running preflight scan...",
+          });
+
+          try {
+            const result = await runPreflightScan(config, signal);
+            await storage.savePreflightResult(host.id, result);
+
+            await storage.recordDeploymentStatus(host.id, {
+              status: "idle",
+              message: "Preflight scan completed",
+              lastScan: result.timestamp,
+            });
+            return { success: true, message: "Preflight scan completed", result };
+          } catch (error) {
+            await storage.recordDeploymentStatus(
+              host.id,
+              signal.aborted
+                ? { ...(await getDeploymentStatus(host.id)), status: "idle", message: "Preflight scan cancelled" }
+                : { status: "error", message: (error as Error).message }
+            );
+            throw error;
+          }
+        },
+        { queue: wantsQueue(req) }
+      );
+
+      const { job: finished, result } = await waitForJob(job.id);
+      if (finished.status !== "success") {
+        return res.status(finished.status === "cancelled" ? 409 : 500).json({ error: finished.message, job: finished });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // List previous preflight scans (newest first)
+  app.get("/api/preflight/history", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit ?? "20"), 10) || 20, 100);
+      const scans = await storage.listPreflightScans({ hostId: requestHostId(req), limit });
+
+      res.json({
+        scans: scans.map((scan) => ({
+          id: scan.id,
+          hostId: scan.hostId,
+          hostname: scan.hostname,
+          readyToDeploy: scan.readyToDeploy,
+          warningCount: scan.result.safePlan.warnings.length,
+          containerCount: scan.result.docker.containers.length,
+          createdAt: scan.createdAt,
+        })),
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Get a single preflight scan
+  app.get("/api/preflight/:id", async (req, res) => {
+    try {
+      const scan = await storage.getPreflightScan(req.params.id);
+      if (!scan) {
+        return res.status(404).json({ error: "Preflight scan not found" });
+      }
+      res.json(scan);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Deploy to VPS - starts the deploy as a job and returns its id; follow
+  // progress via /api/jobs/:id/stream
+  app.post("/api/deploy", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const lastPreflightResult = await getLastPreflightResult(host.id);
+      if (!lastPreflightResult) {
+        return res.status(400).json({ error: "Run preflight scan first" });
+      }
+
+      if (!lastPreflightResult.safePlan.readyToDeploy) {
+        return res.status(400).json({ error: "VPS is not ready for deployment. Docker may not be installed." });
+      }
+
+      const config = await getSSHConfig(host);
+      const ports = lastPreflightResult.safePlan.portsToUse;
+      const stackPlan = hostStackPlan(host);
+
+      // A dry run only reads from the host, so it runs directly rather than as
+      // a job, but not while a job may be changing what it reads
+      if (req.query.dryRun === "true") {
+        const active = activeHostJob(host.id);
+        if (active) {
+          return res.status(409).json({ error: new JobConflictError(active).message, job: active });
+        }
+        const plan = await planDeploy(config, ports, stackPlan);
+        return res.json({ dryRun: true, plan });
+      }
+
+      // Optionally seed n8n with a polling workflow per listing source
+      let template: RentalPollingTemplate | null = null;
+      if (req.query.seedWorkflows === "true" || req.body?.seedWorkflows === true) {
+        const reason = templateUnavailableReason(stackPlan);
+        if (reason) {
+          return res.status(400).json({ error: reason });
+        }
+        template = generateRentalPollingWorkflows(await storage.listListingSources(), stackPlan);
+        if (template.workflows.length === 0) {
+          return res.status(400).json({ error: "No enabled listing source has an extractor to build a workflow from" });
+        }
+      }
+
+      const job = submitJob(
+        "deploy",
+        host,
+        (context) =>
+          runDeploymentJob(
+            host,
+            context,
+            "Deploying services to VPS...",
+            (options) => {
+              for (const warning of template?.warnings ?? []) context.log("info", `Workflow template: ${warning}`);
+              return deployToVPS(config, ports, stackPlan, { ...options, seedWorkflows: template?.workflows });
+            },
+            (result) => saveRelease(host, result, ports, stackPlan)
+          ),
+        { queue: wantsQueue(req) }
+      );
+
+      res.status(202).json({ deploymentId: job.id, job });
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Restore a release's files on its host and restart the stack, as a job
+  app.post("/api/deploy/rollback/:releaseId", async (req, res) => {
+    try {
+      const release = await storage.getRelease(req.params.releaseId);
+      if (!release) {
+        return res.status(404).json({ error: "Release not found" });
+      }
+      const host = await storage.getHost(release.hostId);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+
+      const config = await getSSHConfig(host);
+      const job = submitJob(
+        "rollback",
+        host,
+        (context) =>
+          runDeploymentJob(
+            host,
+            context,
+            `Rolling back to release ${release.name}...`,
+            (options) => rollbackToRelease(config, release, options),
+            async (result) => {
+              if (!result.success) return undefined;
+              await storage.updateRelease(release.id, { restoredAt: new Date() });
+              return release.id;
+            }
+          ),
+        { queue: wantsQueue(req) }
+      );
+
+      res.status(202).json({ deploymentId: job.id, job });
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Releases snapshotted by deploys to the host (newest first)
+  app.get("/api/releases", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const status = await storage.getDeploymentStatus(host.id);
+      res.json({ releases: await storage.listReleases(host.id), currentReleaseId: status?.releaseId ?? null });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Postgres backups of the host (newest first) and the backup schedule
+  app.get("/api/backups", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      res.json({ backups: await storage.listBackups(host.id), schedule: getBackupSchedulerState() });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Back up the host's Postgres now, as a job
+  app.post("/api/backups", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+      if (!(await getDeploymentStatus(host.id)).lastDeploy) {
+        return res.status(400).json({ error: "Deploy the stack first" });
+      }
+
+      const job = submitBackup(host, "manual", { queue: wantsQueue(req) });
+      res.status(202).json({ job });
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Restore a backup over its host's database, as a job; the current data is
+  // backed up first
+  app.post("/api/backups/:id/restore", async (req, res) => {
+    try {
+      const backup = await storage.getBackup(req.params.id);
+      if (!backup) {
+        return res.status(404).json({ error: "Backup not found" });
+      }
+      const host = await storage.getHost(backup.hostId);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+
+      const job = submitJob(
+        "restore",
+        host,
+        async (context) => {
+          const safety = await restoreHostBackup(host, backup, context);
+          return {
+            success: true,
+            message: `Restored ${backup.name}; the previous data is in ${safety.name}`,
+            result: { restored: backup, preRestore: safety },
+          };
+        },
+        { queue: wantsQueue(req) }
+      );
+
+      res.status(202).json({ job });
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Configured image of each deployed service next to the one its container
+  // runs. Only reads from the host, so it runs directly rather than as a job,
+  // but not while a job may be replacing the containers.
+  app.get("/api/images", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+      const active = activeHostJob(host.id);
+      if (active) {
+        return res.status(409).json({ error: new JobConflictError(active).message, job: active });
+      }
+
+      const config = await getSSHConfig(host);
+      const images = await inspectImages(config, hostStackPlan(host), await deployedStackPlan(host));
+      res.json({ images });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Move one service of the running stack to another image tag, as a job. The
+  // tag is kept in the host's stack plan when the upgrade succeeds.
+  app.post("/api/images/:service/upgrade", async (req, res) => {
+    try {
+      const service = req.params.service as UpgradableService;
+      if (!(upgradableServices as readonly string[]).includes(service)) {
+        return res.status(400).json({ error: `Only ${upgradableServices.join(", ")} can be upgraded on their own` });
+      }
+      const parsed = upgradeServiceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+      const { imageTag } = parsed.data;
+
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const status = await getDeploymentStatus(host.id);
+      if (!status.lastDeploy) {
+        return res.status(400).json({ error: "Deploy the stack first" });
+      }
+      const plan = await deployedStackPlan(host);
+      if (plan[service].mode !== "deploy") {
+        return res.status(400).json({ error: `${service} is not deployed by this stack` });
+      }
+      const current = status.releaseId ? await storage.getRelease(status.releaseId) : undefined;
+      const ports = current?.ports ?? (await getLastPreflightResult(host.id))?.safePlan.portsToUse;
+      if (!ports) {
+        return res.status(400).json({ error: "Run preflight scan first" });
+      }
+
+      const config = await getSSHConfig(host);
+      const upgraded: StackPlan = { ...plan, [service]: { ...plan[service], imageTag } };
+      const job = submitJob(
+        "upgrade",
+        host,
+        (context) =>
+          runDeploymentJob(
+            host,
+            context,
+            `Upgrading ${service} to ${imageTag}...`,
+            (options) => upgradeService(config, ports, plan, service, imageTag, options),
+            async (result) => {
+              if (result.success) {
+                // The next deploy would otherwise put the old tag back
+                const latest = (await storage.getHost(host.id)) ?? host;
+                const hostPlan = hostStackPlan(latest);
+                await storage.setStackPlan(host.id, {
+                  ...hostPlan,
+                  [service]: { ...hostPlan[service], imageTag },
+                });
+              }
+              const releaseId = await saveRelease(host, result, ports, upgraded);
+              // A reverted upgrade leaves the previous release running
+              return releaseId ?? (result.reverted ? status.releaseId : undefined);
+            }
+          ),
+        { queue: wantsQueue(req) }
+      );
+
+      res.status(202).json({ deploymentId: job.id, job });
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // n8n workflows exported from the host, each with its versions (newest first)
+  app.get("/api/workflows", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      res.json({ workflows: await listWorkflowHistory(host.id) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // The rental-polling workflows a deploy to the host would seed n8n with
+  app.get("/api/workflows/template", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const plan = hostStackPlan(host);
+      const unavailable = templateUnavailableReason(plan);
+      const template = unavailable
+        ? { workflows: [], warnings: [] }
+        : generateRentalPollingWorkflows(await storage.listListingSources(), plan);
+      res.json({ ...template, unavailable });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Export the host's n8n workflows (as a job) and add a version of each one
+  // that changed
+  app.post("/api/workflows/export", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const job = submitJob(
+        "workflow_export",
+        host,
+        async ({ log, signal }) => {
+          const result = await exportHostWorkflows(host, { onOutput: log, signal });
+          return {
+            success: true,
+            message: `Exported workflows: ${result.created.length} changed, ${result.unchanged} unchanged`,
+            result,
+          };
+        },
+        { queue: wantsQueue(req) }
+      );
+
+      const { job: finished, result } = await waitForJob(job.id);
+      if (finished.status !== "success") {
+        return res.status(finished.status === "cancelled" ? 409 : 500).json({ error: finished.message, job: finished });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // A workflow version with its JSON
+  app.get("/api/workflows/versions/:id", async (req, res) => {
+    try {
+      const version = await storage.getWorkflowVersion(req.params.id);
+      if (!version) {
+        return res.status(404).json({ error: "Workflow version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Diff of a version against ?against= (another version of the same
+  // workflow), by default the version before it
+  app.get("/api/workflows/versions/:id/diff", async (req, res) => {
+    try {
+      const version = await storage.getWorkflowVersion(req.params.id);
+      if (!version) {
+        return res.status(404).json({ error: "Workflow version not found" });
+      }
+
+      const versions = await storage.listWorkflowVersions(version.hostId, version.workflowId);
+      const against =
+        typeof req.query.against === "string"
+          ? versions.find((other) => other.id === req.query.against)
+          : versions.find((other) => other.version === version.version - 1);
+      if (typeof req.query.against === "string" && !against) {
+        return res.status(404).json({ error: "Version to compare against not found for this workflow" });
+      }
+
+      res.json({
+        version: summarizeVersion(version),
+        against: against ? summarizeVersion(against) : null,
+        diff: diffWorkflowVersions(against ?? null, version),
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Import a version into its host's n8n as a job, replacing the workflow
+  app.post("/api/workflows/versions/:id/import", async (req, res) => {
+    try {
+      const version = await storage.getWorkflowVersion(req.params.id);
+      if (!version) {
+        return res.status(404).json({ error: "Workflow version not found" });
+      }
+      const host = await storage.getHost(version.hostId);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+
+      const job = submitJob(
+        "workflow_import",
+        host,
+        async ({ log, signal }) => {
+          const result = await importWorkflowVersion(host, version, { onOutput: log, signal });
+          return { success: true, message: `Imported ${version.name} v${version.version}`, result };
+        },
+        { queue: wantsQueue(req) }
+      );
+
+      const { job: finished, result } = await waitForJob(job.id);
+      if (finished.status !== "success") {
+        return res.status(finished.status === "cancelled" ? 409 : 500).json({ error: finished.message, job: finished });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Check service health
+  app.get("/api/health-check", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const lastPreflightResult = await getLastPreflightResult(host.id);
+      if (!lastPreflightResult) {
+        return res.status(400).json({ error: "Run preflight scan first" });
+      }
+
+      const config = await getSSHConfig(host);
+      const stackPlan = await deployedStackPlan(host);
+      const job = submitJob(
+        "health_check",
+        host,
+        async ({ signal }) => {
+          const services = await checkVPSServices(config, lastPreflightResult.safePlan.portsToUse, stackPlan, signal);
+          await storage.recordDeploymentStatus(host.id, {
+            ...(await getDeploymentStatus(host.id)),
+            services,
+          });
+          return { success: true, message: "Health check completed", result: services };
+        },
+        { queue: wantsQueue(req) }
+      );
+
+      const { job: finished, result } = await waitForJob(job.id);
+      if (finished.status !== "success") {
+        return res.status(finished.status === "cancelled" ? 409 : 500).json({ error: finished.message, job: finished });
+      }
+      res.json({ services: result });
+    } catch (error) {
+      if (error instanceof JobConflictError) {
+        return res.status(409).json({ error: error.message, job: error.active });
+      }
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Uptime of the host's services from the health monitor's samples
+  app.get("/api/health-monitor", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const window = (uptimeWindows as readonly string[]).includes(String(req.query.window))
+        ? (req.query.window as UptimeWindow)
+        : "24h";
+      const now = Date.now();
+      const samples = await storage.listHealthSamples(host.id, uptimeWindowStart(window, now));
+
+      res.json({
+        monitor: getHealthMonitorState(),
+        window,
+        services: summarizeUptime(samples, window, now),
+        lastSample: samples[samples.length - 1] ?? null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // List recent jobs (newest first)
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit ?? "20"), 10) || 20, 50);
+      const kind = (jobKinds as readonly string[]).includes(String(req.query.kind))
+        ? (req.query.kind as Job["kind"])
+        : undefined;
+      const status = (jobStatuses as readonly string[]).includes(String(req.query.status))
+        ? (req.query.status as Job["status"])
+        : undefined;
+
+      res.json({ jobs: listJobs({ hostId: requestHostId(req), kind, status, limit }) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Get a job with its buffered log and (once finished) result.
+  // /api/deploy/:id is kept for deploy ids returned by POST /api/deploy.
+  app.get(["/api/jobs/:id", "/api/deploy/:id"], async (req, res) => {
+    try {
+      const job = getJob(req.params.id as string);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Cancel a queued or running job; a running one closes its SSH session
+  // and kills the remote command
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const current = getJob(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (current.job.status !== "queued" && current.job.status !== "running") {
+        return res.status(409).json({ error: `Job already ${current.job.status}`, job: current.job });
+      }
+
+      res.json({ job: cancelJob(req.params.id) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Stream job output as Server-Sent Events. Each line is a "log" event
+  // whose id is its sequence number, so a reconnect with Last-Event-ID
+  // resumes where it left off; a final "done" event carries the result.
+  app.get(["/api/jobs/:id/stream", "/api/deploy/:id/stream"], async (req, res) => {
+    const id = req.params.id as string;
+    if (!getJob(id)) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    const afterSeq = parseInt(String(req.headers["last-event-id"] ?? req.query.after ?? "0"), 10) || 0;
+    const abort = new AbortController();
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+
+    // Comment lines keep proxies from closing an idle stream while
+    // docker is busy building without printing anything
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+    res.on("close", () => abort.abort());
+
+    try {
+      for await (const event of streamJob(id, afterSeq, abort.signal)) {
+        if (event.type === "log") {
+          res.write(`id: ${event.line.seq}\nevent: log\ndata: ${JSON.stringify(event.line)}\n\n`);
+        } else {
+          res.write(`event: done\ndata: ${JSON.stringify({ job: event.job, result: event.result })}\n\n`);
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      res.end();
+    }
+  });
+
+  // Test ntfy notification
+  app.post("/api/test-ntfy", async (req, res) => {
+    try {
+      const parsed = ntfyMessageSchema.safeParse({
+        topic: "strijps",
+        message: "Test notification from LivingRental Alert",
+        tags: ["test_tube"],
+        ...req.body,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const host = await findRequestHost(req);
+      if (!host && !process.env.NTFY_URL) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const delivery = await publishNtfy(parsed.data, {}, host);
+      res.json({ success: true, delivery, topic: parsed.data.topic });
+    } catch (error) {
+      const status = error instanceof NotifyError && error.status === 429 ? 429 : 500;
+      res.status(status).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/notifications/deliveries", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit ?? "50"), 10) || 50, 500);
+      const channelId = typeof req.query.channelId === "string" ? req.query.channelId : undefined;
+      const channel = ["ntfy", "email", "telegram", "webhook"].includes(String(req.query.channel))
+        ? (req.query.channel as "ntfy" | "email" | "telegram" | "webhook")
+        : undefined;
+
+      const deliveries = await storage.listNotificationDeliveries({ channel, channelId, limit });
+      res.json({ deliveries });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Notification channels
+  app.get("/api/channels", async (req, res) => {
+    try {
+      const channels = await storage.listNotificationChannels();
+      res.json({ channels });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/channels/:id", async (req, res) => {
+    try {
+      const channel = await storage.getNotificationChannel(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      res.json(channel);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/channels", async (req, res) => {
+    try {
+      const parsed = insertNotificationChannelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const channel = await storage.createNotificationChannel(parsed.data);
+      res.status(201).json(channel);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/channels/:id", async (req, res) => {
+    try {
+      const parsed = updateNotificationChannelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const channel = await storage.updateNotificationChannel(req.params.id, parsed.data);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      res.json(channel);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/channels/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteNotificationChannel(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-  return { host, username, privateKey };
-}
+  // Send the channel's templates rendered with the latest listing
+  app.post("/api/channels/:id/test", async (req, res) => {
+    try {
+      const channel = await storage.getNotificationChannel(req.params.id);
+      if (!channel) {
+        return res.status(404).json({ error: "Channel not found" });
+      }
 
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  // Apply admin auth to all /api routes except health
-  app.use("/api", (req, res, next) => {
-    // Skip auth for public health check
-    if (req.path === "/health") {
-      return next();
+      const content = await buildTestContent(channel);
+      const delivery = await sendNotification(createNotifier(channel.config), content, { channelId: channel.id });
+      res.json({ success: true, delivery });
+    } catch (error) {
+      const status = error instanceof NotifyError && error.status === 429 ? 429 : 500;
+      res.status(status).json({ error: (error as Error).message });
     }
-    requireAdminAuth(req, res, next);
   });
 
-  // Public health check (no auth required)
-  app.get("/api/health", (req, res) => {
-    res.json({ status: "ok", timestamp: new Date().toISOString() });
+  // Get proxy config snippet
+  app.get("/api/proxy-config", async (req, res) => {
+    try {
+      const host = await findRequestHost(req);
+      if (!host) {
+        return res.status(404).json({ error: hostNotFound(req) });
+      }
+
+      const lastPreflightResult = await getLastPreflightResult(host.id);
+      if (!lastPreflightResult) {
+        return res.status(400).json({ error: "Run preflight scan first" });
+      }
+
+      res.json({
+        proxyType: lastPreflightResult.reverseProxy.type,
+        configSnippet: lastPreflightResult.safePlan.proxyConfigSnippet,
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
   });
 
-  // Get deployment status
-  app.get("/api/status", (req, res) => {
-    res.json({
-      deploymentStatus,
-      lastPreflightResult,
-      secretsConfigured: Boolean(
-        process.env.VPS_PERSONAL_IP &&
-        process.env.VPS_PERSONAL_USER &&
-        process.env.VPS_SSH_PRIVATE_KEY
-      ),
-    });
+  // Host inventory CRUD. credentialsConfigured tells whether a key, agent or
+  // password is available; the secrets themselves are never returned.
+  app.get("/api/hosts", async (req, res) => {
+    try {
+      const hosts = await storage.listHosts();
+      res.json({ hosts: hosts.map((host) => ({ ...host, credentialsConfigured: hasSSHCredentials(host) })) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
   });
 
-  // Run preflight scan
-  app.post("/api/preflight", async (req, res) => {
+  app.get("/api/hosts/:id", async (req, res) => {
     try {
-      const config = getSSHConfig();
-      
-      deploymentStatus = {
-        status: "scanning",
-        message: "Running preflight scan...",
-      };
+      const host = await storage.getHost(req.params.id);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+      res.json({ ...host, credentialsConfigured: hasSSHCredentials(host) });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      const result = await runPreflightScan(config);
-      lastPreflightResult = result;
+  app.post("/api/hosts", async (req, res) => {
+    try {
+      const parsed = insertHostSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
 
-      deploymentStatus = {
-        status: "idle",
-        message: "Preflight scan completed",
-        lastScan: result.timestamp,
-      };
+      const existing = await storage.listHosts();
+      if (existing.some((host) => host.name === parsed.data.name)) {
+        return res.status(409).json({ error: `A host named "${parsed.data.name}" already exists` });
+      }
+      const jumpError = parsed.data.jumpHostId && (await checkJumpHost(parsed.data.jumpHostId));
+      if (jumpError) {
+        return res.status(400).json({ error: jumpError });
+      }
 
-      res.json(result);
+      // The first host becomes primary so the scheduler has somewhere to go
+      const host = await storage.createHost({ ...parsed.data, primary: parsed.data.primary || existing.length === 0 });
+      res.status(201).json(host);
     } catch (error) {
-      deploymentStatus = {
-        status: "error",
-        message: (error as Error).message,
-      };
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  // Deploy to VPS
-  app.post("/api/deploy", async (req, res) => {
+  app.patch("/api/hosts/:id", async (req, res) => {
     try {
-      if (!lastPreflightResult) {
-        return res.status(400).json({ error: "Run preflight scan first" });
+      const parsed = updateHostSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
       }
 
-      if (!lastPreflightResult.safePlan.readyToDeploy) {
-        return res.status(400).json({ error: "VPS is not ready for deployment. Docker may not be installed." });
+      if (parsed.data.name) {
+        const existing = await storage.listHosts();
+        if (existing.some((host) => host.name === parsed.data.name && host.id !== req.params.id)) {
+          return res.status(409).json({ error: `A host named "${parsed.data.name}" already exists` });
+        }
       }
 
-      const config = getSSHConfig();
-      
-      deploymentStatus = {
-        status: "deploying",
-        message: "Deploying services to VPS...",
-      };
+      const existing = await storage.getHost(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+      const jumpError = parsed.data.jumpHostId && (await checkJumpHost(parsed.data.jumpHostId, existing.id));
+      if (jumpError) {
+        return res.status(400).json({ error: jumpError });
+      }
+
+      const host = await storage.updateHost(existing.id, parsed.data);
+      // The pooled connection was made with the old address or credentials
+      closeSession(existing.id);
+      // A new address or port is a different server as far as SSH is
+      // concerned, so its key is pinned afresh on the next connection
+      const moved =
+        (parsed.data.address !== undefined && parsed.data.address !== existing.address) ||
+        (parsed.data.sshPort !== undefined && parsed.data.sshPort !== existing.sshPort);
+      // The fetcher and ntfy tunnels would keep reaching the old server
+      if (moved || (parsed.data.jumpHostId !== undefined && parsed.data.jumpHostId !== existing.jumpHostId)) {
+        closeTunnels(existing.id);
+      }
+      if (moved && existing.hostKeyFingerprint) {
+        return res.json(await storage.setHostKey(existing.id, null));
+      }
+      res.json(host);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // The pinned host key next to the one the server presents right now, so a
+  // changed key can be compared (e.g. with `ssh-keygen -lf`) before re-trusting
+  app.get("/api/hosts/:id/host-key", async (req, res) => {
+    try {
+      const host = await storage.getHost(req.params.id);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
 
-      const result = await deployToVPS(config, lastPreflightResult.safePlan.portsToUse);
+      const presented = await scanHostKey(await getSSHConfig(host));
+      const pinned = pinnedHostKey(host);
+      res.json({
+        pinned,
+        pinnedAt: host.hostKeyPinnedAt,
+        presented,
+        matches: pinned?.fingerprint === presented.fingerprint,
+      });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      deploymentStatus = {
-        status: result.success ? "success" : "error",
-        message: result.message,
-        lastDeploy: new Date().toISOString(),
-        services: result.services,
-      };
+  // Re-trust: pins the presented key, which must match the fingerprint the
+  // user confirmed
+  app.post("/api/hosts/:id/host-key/trust", async (req, res) => {
+    try {
+      const parsed = trustHostKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
 
-      res.json(result);
+      const host = await storage.getHost(req.params.id);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+
+      const trusted = await trustHostKey(host, await getSSHConfig(host), parsed.data.fingerprint);
+      closeSession(host.id);
+      res.json(trusted);
     } catch (error) {
-      deploymentStatus = {
-        status: "error",
-        message: (error as Error).message,
-      };
+      if (error instanceof HostKeyConfirmationError) {
+        return res.status(409).json({ error: error.message });
+      }
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  // Check service health
-  app.get("/api/health-check", async (req, res) => {
+  // The stack plan the next deploy to the host uses; `custom` is false while
+  // the host still deploys the default stack
+  app.get("/api/hosts/:id/stack-plan", async (req, res) => {
     try {
-      if (!lastPreflightResult) {
-        return res.status(400).json({ error: "Run preflight scan first" });
+      const host = await storage.getHost(req.params.id);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
       }
+      res.json({ plan: hostStackPlan(host), custom: host.stackPlan !== null, defaults: defaultStackPlan() });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      const config = getSSHConfig();
-      const services = await checkVPSServices(config, lastPreflightResult.safePlan.portsToUse);
+  // Takes effect on the next deploy; the running stack keeps the plan it was
+  // deployed with
+  app.put("/api/hosts/:id/stack-plan", async (req, res) => {
+    try {
+      const parsed = stackPlanSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
 
-      deploymentStatus = {
-        ...deploymentStatus,
-        services,
-      };
+      const host = await storage.setStackPlan(req.params.id, parsed.data);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+      res.json({ plan: hostStackPlan(host), custom: true, defaults: defaultStackPlan() });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      res.json({ services });
+  app.delete("/api/hosts/:id/stack-plan", async (req, res) => {
+    try {
+      const host = await storage.setStackPlan(req.params.id, null);
+      if (!host) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+      res.json({ plan: hostStackPlan(host), custom: false, defaults: defaultStackPlan() });
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  // Test ntfy notification
-  app.post("/api/test-ntfy", async (req, res) => {
+  // Deleting a host also drops its preflight scans and status history
+  app.delete("/api/hosts/:id", async (req, res) => {
     try {
-      if (!lastPreflightResult) {
-        return res.status(400).json({ error: "Run preflight scan first" });
+      // Queued jobs would run against a host that no longer exists
+      const active = activeHostJob(req.params.id);
+      if (active) {
+        return res.status(409).json({ error: new JobConflictError(active).message, job: active });
       }
 
-      const { topic = "strijps", message = "Test notification from LivingRental Alert" } = req.body;
-      const config = getSSHConfig();
-      
-      // We'll use the VPS to send the test notification via curl
-      const { Client } = await import("ssh2");
-      const client = new Client();
-      
-      await new Promise<void>((resolve, reject) => {
-        client.on("ready", () => resolve());
-        client.on("error", reject);
-        client.connect({
-          host: config.host,
-          port: 22,
-          username: config.username,
-          privateKey: config.privateKey,
-        });
-      });
+      const deleted = await storage.deleteHost(req.params.id);
+      closeSession(req.params.id);
+      closeTunnels(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Host not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      const ntfyPort = lastPreflightResult.safePlan.portsToUse.ntfy;
-      
-      const result = await new Promise<string>((resolve, reject) => {
-        client.exec(`curl -s -d "${message}" http://127.0.0.1:${ntfyPort}/${topic}`, (err, stream) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-          let output = "";
-          stream.on("close", () => resolve(output));
-          stream.on("data", (data: Buffer) => {
-            output += data.toString();
-          });
-        });
+  // Listing sources CRUD
+  app.get("/api/sources", async (req, res) => {
+    try {
+      const sources = await storage.listListingSources();
+      res.json({ sources });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/sources/:id", async (req, res) => {
+    try {
+      const source = await storage.getListingSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ error: "Source not found" });
+      }
+      res.json(source);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/sources", async (req, res) => {
+    try {
+      const parsed = insertListingSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const source = await storage.createListingSource(parsed.data);
+      await syncSource(source.id);
+      res.status(201).json(source);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/sources/:id", async (req, res) => {
+    try {
+      const parsed = updateListingSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const source = await storage.updateListingSource(req.params.id, parsed.data);
+      if (!source) {
+        return res.status(404).json({ error: "Source not found" });
+      }
+      await syncSource(source.id);
+      res.json(source);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/sources/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteListingSource(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Source not found" });
+      }
+      await syncSource(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Fetch a source once and run its extractor; an unsaved extractorConfig in
+  // the body takes precedence so selectors can be tuned before saving
+  app.post("/api/sources/:id/test-extract", async (req, res) => {
+    try {
+      const source = await storage.getListingSource(req.params.id);
+      if (!source) {
+        return res.status(404).json({ error: "Source not found" });
+      }
+
+      let config = source.extractorConfig;
+      if (req.body?.extractorConfig) {
+        const parsed = extractorConfigSchema.safeParse(req.body.extractorConfig);
+        if (!parsed.success) {
+          return res.status(400).json({ error: fromZodError(parsed.error).message });
+        }
+        config = parsed.data;
+      }
+
+      if (!config) {
+        return res.status(400).json({ error: "Configure extractor selectors first" });
+      }
+
+      const response = await callFetcher(buildSourceFetchRequest(source));
+      const { listings, errors } = createExtractor(config).extract(response.html, response.finalUrl);
+
+      res.json({
+        fetch: {
+          status: response.status,
+          finalUrl: response.finalUrl,
+          durationMs: response.durationMs,
+          htmlLength: response.html.length,
+        },
+        listings,
+        errors,
       });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
 
-      client.end();
-      
-      res.json({ success: true, result, topic });
+  // Tracked listings
+  app.get("/api/listings", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1000);
+      const sourceId = typeof req.query.sourceId === "string" ? req.query.sourceId : undefined;
+      const status = ["new", "changed", "removed"].includes(String(req.query.status))
+        ? (req.query.status as "new" | "changed" | "removed")
+        : undefined;
+
+      const listings = await storage.listTrackedListings({ sourceId, status, limit });
+      res.json({ listings });
     } catch (error) {
       res.status(500).json({ error: (error as Error).message });
     }
   });
 
-  // Get proxy config snippet
-  app.get("/api/proxy-config", (req, res) => {
-    if (!lastPreflightResult) {
-      return res.status(400).json({ error: "Run preflight scan first" });
+  app.get("/api/listings/:id", async (req, res) => {
+    try {
+      const listing = await storage.getTrackedListing(req.params.id);
+      if (!listing) {
+        return res.status(404).json({ error: "Listing not found" });
+      }
+
+      const priceHistory = await storage.getListingPriceHistory(listing.id);
+      res.json({ ...listing, priceHistory });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
     }
+  });
 
-    res.json({
-      proxyType: lastPreflightResult.reverseProxy.type,
-      configSnippet: lastPreflightResult.safePlan.proxyConfigSnippet,
-    });
+  // Polling scheduler
+  app.get("/api/scheduler/status", (req, res) => {
+    res.json(getSchedulerState());
+  });
+
+  app.post("/api/scheduler/start", async (req, res) => {
+    try {
+      res.json(await startScheduler());
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/scheduler/stop", (req, res) => {
+    res.json(stopScheduler());
+  });
+
+  app.post("/api/scheduler/run/:sourceId", async (req, res) => {
+    try {
+      const source = await storage.getListingSource(req.params.sourceId);
+      if (!source) {
+        return res.status(404).json({ error: "Source not found" });
+      }
+
+      const run = await runSource(source.id, "manual");
+      res.json(run);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/scheduler/runs", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit ?? "50"), 10) || 50, 500);
+      const sourceId = typeof req.query.sourceId === "string" ? req.query.sourceId : undefined;
+      const runs = await storage.listSchedulerRuns({ sourceId, limit });
+      res.json({ runs });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Alert rules
+  app.get("/api/rules", async (req, res) => {
+    try {
+      const rules = await storage.listAlertRules();
+      res.json({ rules });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Preview an unsaved rule from the editor against the current listings
+  app.post("/api/rules/preview", async (req, res) => {
+    try {
+      const parsed = insertAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const listings = await previewRule(toRuleCriteria(parsed.data));
+      res.json({ listings });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/rules/:id", async (req, res) => {
+    try {
+      const rule = await storage.getAlertRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/rules/:id/preview", async (req, res) => {
+    try {
+      const rule = await storage.getAlertRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+
+      const listings = await previewRule(rule);
+      res.json({ listings });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/rules", async (req, res) => {
+    try {
+      const parsed = insertAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const rule = await storage.createAlertRule(parsed.data);
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.patch("/api/rules/:id", async (req, res) => {
+    try {
+      const parsed = updateAlertRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const rule = await storage.updateAlertRule(req.params.id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/rules/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteAlertRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
   });
 
   // GitHub API routes
@@ -307,7 +1668,7 @@ export async function registerRoutes(
   // Sync project to GitHub (with rate limiting)
   app.post("/api/github/sync", rateLimitGitHubSync, async (req, res) => {
     try {
-      const result = await syncToGitHub();
+      const result = await syncToGitHub(await workflowSyncFiles());
       lastGitHubSync = Date.now(); // Update timestamp after successful sync
       res.json(result);
     } catch (error) {
@@ -325,5 +1686,14 @@ export async function registerRoutes(
     }
   });
 
+  await ensureEnvHost();
+  startAlertEngine();
+  startHealthMonitor();
+  startBackupScheduler();
+
+  if (process.env.SCHEDULER_AUTOSTART === "true") {
+    await startScheduler();
+  }
+
   return httpServer;
 }
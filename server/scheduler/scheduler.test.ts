@@ -0,0 +1,89 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { ExtractorConfig } from "@shared/schema";
+import { storage } from "../storage";
+import { freePort, startScript, type ScriptProcess } from "../testing";
+import { getSchedulerState, runSource, startScheduler, stopScheduler, syncSource } from "./scheduler";
+
+const SECRET = "stub-secret";
+
+// Matches the sample page the fetcher stub serves
+const STUB_EXTRACTOR: ExtractorConfig = {
+  type: "css",
+  itemSelector: "li.listing",
+  fields: {
+    title: ".listing-title",
+    price: ".listing-price",
+    address: ".listing-address",
+    surface: ".surface",
+    rooms: ".rooms",
+    url: "a.listing-link@href",
+    image: "img.listing-image@src",
+    furnished: ".interior",
+  },
+};
+
+let stub: ScriptProcess;
+
+before(async () => {
+  const port = await freePort();
+  stub = await startScript(
+    "server/fetcher/stub.ts",
+    { STUB_FETCHER_PORT: String(port), FETCHER_SECRET: SECRET },
+    "Stub fetcher running"
+  );
+  process.env.FETCHER_URL = `http://127.0.0.1:${port}`;
+  process.env.FETCHER_SECRET = SECRET;
+});
+
+after(async () => {
+  stopScheduler();
+  await stub?.stop();
+});
+
+test("a manual run fetches the page and records its listings", async () => {
+  const source = await storage.createListingSource({
+    name: "Stub",
+    url: "https://example.com/huurwoningen/eindhoven",
+    extractorConfig: STUB_EXTRACTOR,
+  });
+
+  const run = await runSource(source.id, "manual");
+
+  assert.equal(run.status, "success", run.error ?? undefined);
+  assert.equal(run.httpStatus, 200);
+  assert.equal(run.listingCount, 2);
+  const listings = await storage.getTrackedListingsBySource(source.id);
+  assert.deepEqual(listings.map((listing) => listing.title).sort(), ["Appartement Torenallee 20", "Studio Philitelaan 5"]);
+});
+
+test("a run the fetcher refuses is recorded as an error", async () => {
+  const source = await storage.createListingSource({ name: "Wrong secret", url: "https://example.com/huur" });
+  process.env.FETCHER_SECRET = "not-the-secret";
+  try {
+    const run = await runSource(source.id, "manual");
+
+    assert.equal(run.status, "error");
+    assert.equal(run.httpStatus, 401);
+  } finally {
+    process.env.FETCHER_SECRET = SECRET;
+  }
+});
+
+test("a source edited during a manual run is scheduled again once it settles", async () => {
+  await startScheduler();
+  const source = await storage.createListingSource({ name: "Edited", url: "https://example.com/huur" });
+
+  const pending = runSource(source.id, "manual");
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(getSchedulerState().sources.find((entry) => entry.sourceId === source.id)?.inFlight, true);
+
+  await storage.updateListingSource(source.id, { pollIntervalMinutes: 30 });
+  await syncSource(source.id);
+  await pending;
+  await new Promise((resolve) => setImmediate(resolve));
+
+  const entry = getSchedulerState().sources.find((candidate) => candidate.sourceId === source.id);
+  assert.equal(entry?.inFlight, false);
+  assert.notEqual(entry?.nextRunAt, null);
+});
@@ -0,0 +1,194 @@
+import type { ListingSource, SchedulerRun } from "@shared/schema";
+import { storage } from "../storage";
+import { callFetcher, buildSourceFetchRequest, FetcherError } from "../fetcher/client";
+import { getExtractorForSource } from "../extractor";
+import { syncListings } from "../listings/tracker";
+import { log } from "../log";
+
+// Each run is scheduled interval ± 10% so sources with the same interval
+// don't hit the fetcher (and the rental sites) at the same moment.
+const JITTER_RATIO = 0.1;
+const MAX_INITIAL_DELAY_MS = 60 * 1000;
+
+interface ScheduledSource {
+  timer: NodeJS.Timeout;
+  nextRunAt: Date;
+}
+
+let running = false;
+let startedAt: Date | null = null;
+const scheduled = new Map<string, ScheduledSource>();
+const inFlight = new Set<string>();
+// Sources edited while a fetch was in flight; rescheduled once it settles
+const pendingResync = new Set<string>();
+
+export interface SchedulerState {
+  running: boolean;
+  startedAt: string | null;
+  sources: Array<{ sourceId: string; nextRunAt: string | null; inFlight: boolean }>;
+}
+
+function jitteredDelay(intervalMinutes: number): number {
+  const base = intervalMinutes * 60 * 1000;
+  const jitter = base * JITTER_RATIO * (Math.random() * 2 - 1);
+  return Math.max(1000, Math.round(base + jitter));
+}
+
+function unschedule(sourceId: string) {
+  const entry = scheduled.get(sourceId);
+  if (entry) {
+    clearTimeout(entry.timer);
+    scheduled.delete(sourceId);
+  }
+}
+
+function scheduleSource(source: ListingSource, delayMs: number) {
+  unschedule(source.id);
+  const timer = setTimeout(() => {
+    scheduled.delete(source.id);
+    void runScheduledSource(source.id);
+  }, delayMs);
+  scheduled.set(source.id, { timer, nextRunAt: new Date(Date.now() + delayMs) });
+}
+
+async function runScheduledSource(sourceId: string) {
+  if (!running) return;
+
+  try {
+    await runSource(sourceId, "schedule");
+  } catch (error) {
+    log(`Run for source ${sourceId} failed: ${(error as Error).message}`, "scheduler");
+  }
+
+  // Re-read the source so edits made while the fetch was in flight apply
+  const source = await storage.getListingSource(sourceId).catch(() => undefined);
+  if (running && source?.enabled) {
+    scheduleSource(source, jitteredDelay(source.pollIntervalMinutes));
+  }
+}
+
+export async function runSource(sourceId: string, trigger: SchedulerRun["trigger"]): Promise<SchedulerRun> {
+  const source = await storage.getListingSource(sourceId);
+  if (!source) {
+    throw new Error("Source not found");
+  }
+
+  if (inFlight.has(sourceId)) {
+    throw new Error(`A fetch for "${source.name}" is already running`);
+  }
+
+  inFlight.add(sourceId);
+  try {
+    const run = await storage.createSchedulerRun({ sourceId, trigger });
+    return await fetchSource(source, run);
+  } finally {
+    inFlight.delete(sourceId);
+    if (pendingResync.delete(sourceId)) {
+      syncSource(sourceId).catch((error) =>
+        log(`Rescheduling source ${sourceId} failed: ${(error as Error).message}`, "scheduler")
+      );
+    }
+  }
+}
+
+// Fetches and extracts the source and records the outcome on the run
+async function fetchSource(source: ListingSource, run: SchedulerRun): Promise<SchedulerRun> {
+  const start = Date.now();
+
+  try {
+    const response = await callFetcher(buildSourceFetchRequest(source));
+    const extraction = getExtractorForSource(source)?.extract(response.html, response.finalUrl);
+    const events = extraction ? await syncListings(source.id, extraction.listings) : [];
+
+    const summary = ["new", "changed", "price_drop", "gone"]
+      .map((type) => [type, events.filter((event) => event.type === type).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ");
+
+    log(
+      `${source.name}: HTTP ${response.status} in ${Date.now() - start}ms` +
+        (extraction ? `, ${extraction.listings.length} listings` : "") +
+        (summary ? ` (${summary})` : ""),
+      "scheduler"
+    );
+
+    return (await storage.updateSchedulerRun(run.id, {
+      status: "success",
+      httpStatus: response.status,
+      durationMs: Date.now() - start,
+      listingCount: extraction?.listings.length ?? null,
+      error: extraction?.errors.length ? extraction.errors.join("; ") : null,
+      finishedAt: new Date(),
+    }))!;
+  } catch (error) {
+    log(`${source.name}: ${(error as Error).message}`, "scheduler");
+
+    return (await storage.updateSchedulerRun(run.id, {
+      status: "error",
+      httpStatus: error instanceof FetcherError ? error.status ?? null : null,
+      durationMs: Date.now() - start,
+      error: (error as Error).message,
+      finishedAt: new Date(),
+    }))!;
+  }
+}
+
+export async function startScheduler(): Promise<SchedulerState> {
+  if (!running) {
+    running = true;
+    startedAt = new Date();
+
+    const sources = await storage.listListingSources();
+    for (const source of sources.filter((s) => s.enabled)) {
+      // Stagger the first runs instead of firing everything at startup
+      const initialDelay = Math.random() * Math.min(MAX_INITIAL_DELAY_MS, jitteredDelay(source.pollIntervalMinutes));
+      scheduleSource(source, Math.round(initialDelay));
+    }
+
+    log(`Started with ${scheduled.size} enabled sources`, "scheduler");
+  }
+
+  return getSchedulerState();
+}
+
+export function stopScheduler(): SchedulerState {
+  if (running) {
+    running = false;
+    startedAt = null;
+    Array.from(scheduled.keys()).forEach(unschedule);
+    log("Stopped", "scheduler");
+  }
+
+  return getSchedulerState();
+}
+
+// Called after a source is created, edited or deleted. A source with a fetch
+// in flight is rescheduled when that fetch settles.
+export async function syncSource(sourceId: string): Promise<void> {
+  unschedule(sourceId);
+  if (!running) return;
+  if (inFlight.has(sourceId)) {
+    pendingResync.add(sourceId);
+    return;
+  }
+
+  const source = await storage.getListingSource(sourceId);
+  if (source?.enabled) {
+    scheduleSource(source, jitteredDelay(source.pollIntervalMinutes));
+  }
+}
+
+export function getSchedulerState(): SchedulerState {
+  const sourceIds = new Set([...Array.from(scheduled.keys()), ...Array.from(inFlight)]);
+
+  return {
+    running,
+    startedAt: startedAt?.toISOString() ?? null,
+    sources: Array.from(sourceIds).map((sourceId) => ({
+      sourceId,
+      nextRunAt: scheduled.get(sourceId)?.nextRunAt.toISOString() ?? null,
+      inFlight: inFlight.has(sourceId),
+    })),
+  };
+}
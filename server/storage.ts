@@ -1,5 +1,57 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  users,
+  hosts,
+  preflightScans,
+  deploymentStatusEvents,
+  healthSamples,
+  releases,
+  backups,
+  workflowVersions,
+  listingSources,
+  schedulerRuns,
+  listings,
+  listingPriceHistory,
+  alertRules,
+  notificationDeliveries,
+  notificationChannels,
+  type User,
+  type InsertUser,
+  type Host,
+  type InsertHost,
+  type UpdateHost,
+  type HostKey,
+  type StackPlan,
+  type PreflightResult,
+  type PreflightScan,
+  type DeploymentStatus,
+  type HealthSample,
+  type InsertHealthSample,
+  type Release,
+  type InsertRelease,
+  type Backup,
+  type InsertBackup,
+  type WorkflowVersion,
+  type InsertWorkflowVersion,
+  type ListingSource,
+  type InsertListingSource,
+  type UpdateListingSource,
+  type SchedulerRun,
+  type InsertSchedulerRun,
+  type TrackedListing,
+  type InsertTrackedListing,
+  type ListingPricePoint,
+  type AlertRule,
+  type InsertAlertRule,
+  type UpdateAlertRule,
+  type NotificationDelivery,
+  type InsertNotificationDelivery,
+  type NotificationChannel,
+  type InsertNotificationChannel,
+  type UpdateNotificationChannel,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, inArray, lt, ne, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +60,126 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  listHosts(): Promise<Host[]>;
+  getHost(id: string): Promise<Host | undefined>;
+  // The host flagged primary, or the oldest one when none is
+  getPrimaryHost(): Promise<Host | undefined>;
+  createHost(host: InsertHost): Promise<Host>;
+  updateHost(id: string, patch: UpdateHost): Promise<Host | undefined>;
+  // Pins (or with null, forgets) the SSH host key accepted for a host
+  setHostKey(id: string, key: HostKey | null): Promise<Host | undefined>;
+  // null goes back to the default plan
+  setStackPlan(id: string, plan: StackPlan | null): Promise<Host | undefined>;
+  deleteHost(id: string): Promise<boolean>;
+
+  savePreflightResult(hostId: string, result: PreflightResult): Promise<PreflightScan>;
+  getPreflightScan(id: string): Promise<PreflightScan | undefined>;
+  getLatestPreflightScan(hostId: string): Promise<PreflightScan | undefined>;
+  listPreflightScans(options: { hostId?: string; limit: number }): Promise<PreflightScan[]>;
+
+  recordDeploymentStatus(hostId: string, status: DeploymentStatus): Promise<DeploymentStatus>;
+  getDeploymentStatus(hostId: string): Promise<DeploymentStatus | undefined>;
+
+  recordHealthSample(sample: InsertHealthSample): Promise<HealthSample>;
+  // Oldest first
+  listHealthSamples(hostId: string, since: Date): Promise<HealthSample[]>;
+  pruneHealthSamples(before: Date): Promise<number>;
+
+  createRelease(release: InsertRelease): Promise<Release>;
+  getRelease(id: string): Promise<Release | undefined>;
+  // Newest first
+  listReleases(hostId: string): Promise<Release[]>;
+  updateRelease(id: string, patch: Partial<InsertRelease>): Promise<Release | undefined>;
+  deleteReleases(ids: string[]): Promise<void>;
+
+  createBackup(backup: InsertBackup): Promise<Backup>;
+  getBackup(id: string): Promise<Backup | undefined>;
+  // Newest first
+  listBackups(hostId: string): Promise<Backup[]>;
+  updateBackup(id: string, patch: Partial<InsertBackup>): Promise<Backup | undefined>;
+  deleteBackups(ids: string[]): Promise<void>;
+
+  createWorkflowVersion(version: InsertWorkflowVersion): Promise<WorkflowVersion>;
+  getWorkflowVersion(id: string): Promise<WorkflowVersion | undefined>;
+  // Newest first
+  listWorkflowVersions(hostId: string, workflowId?: string): Promise<WorkflowVersion[]>;
+
+  listListingSources(): Promise<ListingSource[]>;
+  getListingSource(id: string): Promise<ListingSource | undefined>;
+  createListingSource(source: InsertListingSource): Promise<ListingSource>;
+  updateListingSource(id: string, patch: UpdateListingSource): Promise<ListingSource | undefined>;
+  deleteListingSource(id: string): Promise<boolean>;
+
+  createSchedulerRun(run: InsertSchedulerRun): Promise<SchedulerRun>;
+  updateSchedulerRun(id: string, patch: Partial<InsertSchedulerRun>): Promise<SchedulerRun | undefined>;
+  listSchedulerRuns(options: { sourceId?: string; limit: number }): Promise<SchedulerRun[]>;
+
+  listTrackedListings(options: {
+    sourceId?: string;
+    status?: TrackedListing["status"];
+    limit: number;
+  }): Promise<TrackedListing[]>;
+  getTrackedListingsBySource(sourceId: string): Promise<TrackedListing[]>;
+  getTrackedListing(id: string): Promise<TrackedListing | undefined>;
+  createTrackedListing(listing: InsertTrackedListing): Promise<TrackedListing>;
+  updateTrackedListing(id: string, patch: Partial<InsertTrackedListing>): Promise<TrackedListing | undefined>;
+  addListingPricePoint(listingId: string, price: number | null, priceText: string | null): Promise<ListingPricePoint>;
+  getListingPriceHistory(listingId: string): Promise<ListingPricePoint[]>;
+
+  listAlertRules(): Promise<AlertRule[]>;
+  getAlertRule(id: string): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: string): Promise<boolean>;
+
+  listNotificationChannels(): Promise<NotificationChannel[]>;
+  getNotificationChannel(id: string): Promise<NotificationChannel | undefined>;
+  createNotificationChannel(channel: InsertNotificationChannel): Promise<NotificationChannel>;
+  updateNotificationChannel(id: string, patch: UpdateNotificationChannel): Promise<NotificationChannel | undefined>;
+  deleteNotificationChannel(id: string): Promise<boolean>;
+
+  recordNotificationDelivery(delivery: InsertNotificationDelivery): Promise<NotificationDelivery>;
+  listNotificationDeliveries(options: {
+    channel?: NotificationDelivery["channel"];
+    channelId?: string;
+    limit: number;
+  }): Promise<NotificationDelivery[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private hosts: Map<string, Host>;
+  private preflightScans: PreflightScan[];
+  private deploymentStatus: Map<string, DeploymentStatus>;
+  private healthSamples: HealthSample[];
+  private releases: Release[];
+  private backups: Backup[];
+  private workflowVersions: WorkflowVersion[];
+  private listingSources: Map<string, ListingSource>;
+  private schedulerRuns: SchedulerRun[];
+  private trackedListings: Map<string, TrackedListing>;
+  private listingPriceHistory: ListingPricePoint[];
+  private alertRules: Map<string, AlertRule>;
+  private notificationChannels: Map<string, NotificationChannel>;
+  private notificationDeliveries: NotificationDelivery[];
 
   constructor() {
     this.users = new Map();
+    this.hosts = new Map();
+    this.preflightScans = [];
+    this.deploymentStatus = new Map();
+    this.healthSamples = [];
+    this.releases = [];
+    this.backups = [];
+    this.workflowVersions = [];
+    this.listingSources = new Map();
+    this.schedulerRuns = [];
+    this.trackedListings = new Map();
+    this.listingPriceHistory = [];
+    this.alertRules = new Map();
+    this.notificationChannels = new Map();
+    this.notificationDeliveries = [];
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +198,938 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listHosts(): Promise<Host[]> {
+    return Array.from(this.hosts.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getHost(id: string): Promise<Host | undefined> {
+    return this.hosts.get(id);
+  }
+
+  async getPrimaryHost(): Promise<Host | undefined> {
+    const all = await this.listHosts();
+    return all.find((host) => host.primary) ?? all[0];
+  }
+
+  // Only one host can be primary
+  private clearPrimary(exceptId: string) {
+    for (const host of Array.from(this.hosts.values())) {
+      if (host.id !== exceptId && host.primary) {
+        this.hosts.set(host.id, { ...host, primary: false });
+      }
+    }
+  }
+
+  async createHost(insertHost: InsertHost): Promise<Host> {
+    const now = new Date();
+    const host: Host = {
+      sshPort: 22,
+      username: "root",
+      keyRef: "VPS_SSH_PRIVATE_KEY",
+      useAgent: false,
+      keepaliveIntervalMs: 15000,
+      readyTimeoutMs: 20000,
+      tags: [],
+      primary: false,
+      hostKeyType: null,
+      hostKeyFingerprint: null,
+      hostKeyPinnedAt: null,
+      stackPlan: null,
+      ...insertHost,
+      passphraseRef: insertHost.passphraseRef ?? null,
+      passwordRef: insertHost.passwordRef ?? null,
+      jumpHostId: insertHost.jumpHostId ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.hosts.set(host.id, host);
+    if (host.primary) this.clearPrimary(host.id);
+    return host;
+  }
+
+  async updateHost(id: string, patch: UpdateHost): Promise<Host | undefined> {
+    const existing = this.hosts.get(id);
+    if (!existing) return undefined;
+    const host: Host = { ...existing, ...patch, updatedAt: new Date() };
+    this.hosts.set(id, host);
+    if (host.primary) this.clearPrimary(id);
+    return host;
+  }
+
+  async setHostKey(id: string, key: HostKey | null): Promise<Host | undefined> {
+    const existing = this.hosts.get(id);
+    if (!existing) return undefined;
+    const host: Host = {
+      ...existing,
+      hostKeyType: key?.type ?? null,
+      hostKeyFingerprint: key?.fingerprint ?? null,
+      hostKeyPinnedAt: key ? new Date() : null,
+      updatedAt: new Date(),
+    };
+    this.hosts.set(id, host);
+    return host;
+  }
+
+  async setStackPlan(id: string, plan: StackPlan | null): Promise<Host | undefined> {
+    const existing = this.hosts.get(id);
+    if (!existing) return undefined;
+    const host: Host = { ...existing, stackPlan: plan, updatedAt: new Date() };
+    this.hosts.set(id, host);
+    return host;
+  }
+
+  async deleteHost(id: string): Promise<boolean> {
+    this.preflightScans = this.preflightScans.filter((scan) => scan.hostId !== id);
+    this.deploymentStatus.delete(id);
+    this.healthSamples = this.healthSamples.filter((sample) => sample.hostId !== id);
+    this.releases = this.releases.filter((release) => release.hostId !== id);
+    this.backups = this.backups.filter((backup) => backup.hostId !== id);
+    this.workflowVersions = this.workflowVersions.filter((version) => version.hostId !== id);
+    for (const host of Array.from(this.hosts.values())) {
+      if (host.jumpHostId === id) {
+        this.hosts.set(host.id, { ...host, jumpHostId: null });
+      }
+    }
+    return this.hosts.delete(id);
+  }
+
+  async savePreflightResult(hostId: string, result: PreflightResult): Promise<PreflightScan> {
+    const scan: PreflightScan = {
+      id: randomUUID(),
+      hostId,
+      hostname: result.osInfo.hostname,
+      readyToDeploy: result.safePlan.readyToDeploy,
+      result,
+      createdAt: new Date(),
+    };
+    this.preflightScans.unshift(scan);
+    return scan;
+  }
+
+  async getPreflightScan(id: string): Promise<PreflightScan | undefined> {
+    return this.preflightScans.find((scan) => scan.id === id);
+  }
+
+  async getLatestPreflightScan(hostId: string): Promise<PreflightScan | undefined> {
+    return this.preflightScans.find((scan) => scan.hostId === hostId);
+  }
+
+  async listPreflightScans(options: { hostId?: string; limit: number }): Promise<PreflightScan[]> {
+    return this.preflightScans
+      .filter((scan) => !options.hostId || scan.hostId === options.hostId)
+      .slice(0, options.limit);
+  }
+
+  async recordDeploymentStatus(hostId: string, status: DeploymentStatus): Promise<DeploymentStatus> {
+    this.deploymentStatus.set(hostId, status);
+    return status;
+  }
+
+  async getDeploymentStatus(hostId: string): Promise<DeploymentStatus | undefined> {
+    return this.deploymentStatus.get(hostId);
+  }
+
+  async recordHealthSample(insertSample: InsertHealthSample): Promise<HealthSample> {
+    const sample: HealthSample = {
+      id: randomUUID(),
+      hostId: insertSample.hostId,
+      services: insertSample.services ?? null,
+      error: insertSample.error ?? null,
+      checkedAt: insertSample.checkedAt ?? new Date(),
+    };
+    this.healthSamples.push(sample);
+    return sample;
+  }
+
+  async listHealthSamples(hostId: string, since: Date): Promise<HealthSample[]> {
+    return this.healthSamples.filter((sample) => sample.hostId === hostId && sample.checkedAt >= since);
+  }
+
+  async pruneHealthSamples(before: Date): Promise<number> {
+    const kept = this.healthSamples.filter((sample) => sample.checkedAt >= before);
+    const pruned = this.healthSamples.length - kept.length;
+    this.healthSamples = kept;
+    return pruned;
+  }
+
+  async createRelease(insertRelease: InsertRelease): Promise<Release> {
+    const release: Release = {
+      id: randomUUID(),
+      hostId: insertRelease.hostId,
+      name: insertRelease.name,
+      ports: insertRelease.ports,
+      plan: insertRelease.plan ?? null,
+      status: insertRelease.status,
+      message: insertRelease.message ?? null,
+      createdAt: insertRelease.createdAt ?? new Date(),
+      restoredAt: insertRelease.restoredAt ?? null,
+    };
+    this.releases.unshift(release);
+    return release;
+  }
+
+  async getRelease(id: string): Promise<Release | undefined> {
+    return this.releases.find((release) => release.id === id);
+  }
+
+  async listReleases(hostId: string): Promise<Release[]> {
+    return this.releases.filter((release) => release.hostId === hostId);
+  }
+
+  async updateRelease(id: string, patch: Partial<InsertRelease>): Promise<Release | undefined> {
+    const index = this.releases.findIndex((release) => release.id === id);
+    if (index === -1) return undefined;
+    this.releases[index] = { ...this.releases[index], ...patch };
+    return this.releases[index];
+  }
+
+  async deleteReleases(ids: string[]): Promise<void> {
+    this.releases = this.releases.filter((release) => !ids.includes(release.id));
+  }
+
+  async createBackup(insertBackup: InsertBackup): Promise<Backup> {
+    const backup: Backup = {
+      id: randomUUID(),
+      hostId: insertBackup.hostId,
+      name: insertBackup.name,
+      sizeBytes: insertBackup.sizeBytes,
+      trigger: insertBackup.trigger,
+      localPath: insertBackup.localPath ?? null,
+      createdAt: insertBackup.createdAt ?? new Date(),
+      restoredAt: insertBackup.restoredAt ?? null,
+    };
+    this.backups.unshift(backup);
+    return backup;
+  }
+
+  async getBackup(id: string): Promise<Backup | undefined> {
+    return this.backups.find((backup) => backup.id === id);
+  }
+
+  async listBackups(hostId: string): Promise<Backup[]> {
+    return this.backups.filter((backup) => backup.hostId === hostId);
+  }
+
+  async updateBackup(id: string, patch: Partial<InsertBackup>): Promise<Backup | undefined> {
+    const index = this.backups.findIndex((backup) => backup.id === id);
+    if (index === -1) return undefined;
+    this.backups[index] = { ...this.backups[index], ...patch };
+    return this.backups[index];
+  }
+
+  async deleteBackups(ids: string[]): Promise<void> {
+    this.backups = this.backups.filter((backup) => !ids.includes(backup.id));
+  }
+
+  async createWorkflowVersion(insertVersion: InsertWorkflowVersion): Promise<WorkflowVersion> {
+    const version: WorkflowVersion = {
+      id: randomUUID(),
+      hostId: insertVersion.hostId,
+      workflowId: insertVersion.workflowId,
+      name: insertVersion.name,
+      version: insertVersion.version,
+      hash: insertVersion.hash,
+      content: insertVersion.content,
+      createdAt: insertVersion.createdAt ?? new Date(),
+    };
+    this.workflowVersions.unshift(version);
+    return version;
+  }
+
+  async getWorkflowVersion(id: string): Promise<WorkflowVersion | undefined> {
+    return this.workflowVersions.find((version) => version.id === id);
+  }
+
+  async listWorkflowVersions(hostId: string, workflowId?: string): Promise<WorkflowVersion[]> {
+    return this.workflowVersions.filter(
+      (version) => version.hostId === hostId && (!workflowId || version.workflowId === workflowId)
+    );
+  }
+
+  async listListingSources(): Promise<ListingSource[]> {
+    return Array.from(this.listingSources.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+  }
+
+  async getListingSource(id: string): Promise<ListingSource | undefined> {
+    return this.listingSources.get(id);
+  }
+
+  async createListingSource(insertSource: InsertListingSource): Promise<ListingSource> {
+    const now = new Date();
+    const source: ListingSource = {
+      mode: "http",
+      pollIntervalMinutes: 15,
+      enabled: true,
+      ntfyTopic: "strijps",
+      ...insertSource,
+      waitForSelector: insertSource.waitForSelector ?? null,
+      extractorConfig: insertSource.extractorConfig ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.listingSources.set(source.id, source);
+    return source;
+  }
+
+  async updateListingSource(id: string, patch: UpdateListingSource): Promise<ListingSource | undefined> {
+    const existing = this.listingSources.get(id);
+    if (!existing) return undefined;
+    const source: ListingSource = { ...existing, ...patch, updatedAt: new Date() };
+    this.listingSources.set(id, source);
+    return source;
+  }
+
+  async deleteListingSource(id: string): Promise<boolean> {
+    this.schedulerRuns = this.schedulerRuns.filter((run) => run.sourceId !== id);
+    for (const listing of Array.from(this.trackedListings.values())) {
+      if (listing.sourceId === id) {
+        this.trackedListings.delete(listing.id);
+        this.listingPriceHistory = this.listingPriceHistory.filter((point) => point.listingId !== listing.id);
+        this.notificationDeliveries
+          .filter((delivery) => delivery.listingId === listing.id)
+          .forEach((delivery) => (delivery.listingId = null));
+      }
+    }
+    return this.listingSources.delete(id);
+  }
+
+  async createSchedulerRun(insertRun: InsertSchedulerRun): Promise<SchedulerRun> {
+    const run: SchedulerRun = {
+      status: "running",
+      httpStatus: null,
+      durationMs: null,
+      listingCount: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+      ...insertRun,
+      id: randomUUID(),
+    };
+    this.schedulerRuns.unshift(run);
+    return run;
+  }
+
+  async updateSchedulerRun(id: string, patch: Partial<InsertSchedulerRun>): Promise<SchedulerRun | undefined> {
+    const index = this.schedulerRuns.findIndex((run) => run.id === id);
+    if (index === -1) return undefined;
+    this.schedulerRuns[index] = { ...this.schedulerRuns[index], ...patch };
+    return this.schedulerRuns[index];
+  }
+
+  async listSchedulerRuns(options: { sourceId?: string; limit: number }): Promise<SchedulerRun[]> {
+    return this.schedulerRuns
+      .filter((run) => !options.sourceId || run.sourceId === options.sourceId)
+      .slice(0, options.limit);
+  }
+
+  async listTrackedListings(options: {
+    sourceId?: string;
+    status?: TrackedListing["status"];
+    limit: number;
+  }): Promise<TrackedListing[]> {
+    return Array.from(this.trackedListings.values())
+      .filter((listing) => !options.sourceId || listing.sourceId === options.sourceId)
+      .filter((listing) => !options.status || listing.status === options.status)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .slice(0, options.limit);
+  }
+
+  async getTrackedListingsBySource(sourceId: string): Promise<TrackedListing[]> {
+    return Array.from(this.trackedListings.values()).filter((listing) => listing.sourceId === sourceId);
+  }
+
+  async getTrackedListing(id: string): Promise<TrackedListing | undefined> {
+    return this.trackedListings.get(id);
+  }
+
+  async createTrackedListing(insertListing: InsertTrackedListing): Promise<TrackedListing> {
+    const now = new Date();
+    const listing: TrackedListing = {
+      status: "new",
+      firstSeenAt: now,
+      lastSeenAt: now,
+      ...insertListing,
+      url: insertListing.url ?? null,
+      price: insertListing.price ?? null,
+      priceText: insertListing.priceText ?? null,
+      address: insertListing.address ?? null,
+      surfaceM2: insertListing.surfaceM2 ?? null,
+      rooms: insertListing.rooms ?? null,
+      imageUrl: insertListing.imageUrl ?? null,
+      furnished: insertListing.furnished ?? null,
+      lastChangedAt: insertListing.lastChangedAt ?? null,
+      removedAt: insertListing.removedAt ?? null,
+      id: randomUUID(),
+    };
+    this.trackedListings.set(listing.id, listing);
+    return listing;
+  }
+
+  async updateTrackedListing(id: string, patch: Partial<InsertTrackedListing>): Promise<TrackedListing | undefined> {
+    const existing = this.trackedListings.get(id);
+    if (!existing) return undefined;
+    const listing: TrackedListing = { ...existing, ...patch };
+    this.trackedListings.set(id, listing);
+    return listing;
+  }
+
+  async addListingPricePoint(listingId: string, price: number | null, priceText: string | null): Promise<ListingPricePoint> {
+    const point: ListingPricePoint = { id: randomUUID(), listingId, price, priceText, observedAt: new Date() };
+    this.listingPriceHistory.push(point);
+    return point;
+  }
+
+  async getListingPriceHistory(listingId: string): Promise<ListingPricePoint[]> {
+    return this.listingPriceHistory.filter((point) => point.listingId === listingId);
+  }
+
+  async listAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const now = new Date();
+    const rule: AlertRule = {
+      enabled: true,
+      cities: [],
+      postcodes: [],
+      includeKeywords: [],
+      excludeKeywords: [],
+      sourceIds: [],
+      channelIds: [],
+      ...insertRule,
+      maxRent: insertRule.maxRent ?? null,
+      minSurfaceM2: insertRule.minSurfaceM2 ?? null,
+      minRooms: insertRule.minRooms ?? null,
+      furnished: insertRule.furnished ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.alertRules.set(rule.id, rule);
+    return rule;
+  }
+
+  async updateAlertRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined> {
+    const existing = this.alertRules.get(id);
+    if (!existing) return undefined;
+    const rule: AlertRule = { ...existing, ...patch, updatedAt: new Date() };
+    this.alertRules.set(id, rule);
+    return rule;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    return this.alertRules.delete(id);
+  }
+
+  async listNotificationChannels(): Promise<NotificationChannel[]> {
+    return Array.from(this.notificationChannels.values()).sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | undefined> {
+    return this.notificationChannels.get(id);
+  }
+
+  async createNotificationChannel(insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const now = new Date();
+    const channel: NotificationChannel = {
+      enabled: true,
+      ...insertChannel,
+      titleTemplate: insertChannel.titleTemplate ?? null,
+      messageTemplate: insertChannel.messageTemplate ?? null,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.notificationChannels.set(channel.id, channel);
+    return channel;
+  }
+
+  async updateNotificationChannel(id: string, patch: UpdateNotificationChannel): Promise<NotificationChannel | undefined> {
+    const existing = this.notificationChannels.get(id);
+    if (!existing) return undefined;
+    const channel: NotificationChannel = { ...existing, ...patch, updatedAt: new Date() };
+    this.notificationChannels.set(id, channel);
+    return channel;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    for (const rule of Array.from(this.alertRules.values())) {
+      if (rule.channelIds.includes(id)) {
+        rule.channelIds = rule.channelIds.filter((channelId) => channelId !== id);
+      }
+    }
+    this.notificationDeliveries
+      .filter((delivery) => delivery.channelId === id)
+      .forEach((delivery) => (delivery.channelId = null));
+    return this.notificationChannels.delete(id);
+  }
+
+  async recordNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const delivery: NotificationDelivery = {
+      channel: "ntfy",
+      ...insertDelivery,
+      channelId: insertDelivery.channelId ?? null,
+      title: insertDelivery.title ?? null,
+      error: insertDelivery.error ?? null,
+      listingId: insertDelivery.listingId ?? null,
+      durationMs: insertDelivery.durationMs ?? null,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.notificationDeliveries.unshift(delivery);
+    return delivery;
+  }
+
+  async listNotificationDeliveries(options: {
+    channel?: NotificationDelivery["channel"];
+    channelId?: string;
+    limit: number;
+  }): Promise<NotificationDelivery[]> {
+    return this.notificationDeliveries
+      .filter((delivery) => !options.channel || delivery.channel === options.channel)
+      .filter((delivery) => !options.channelId || delivery.channelId === options.channelId)
+      .slice(0, options.limit);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async listHosts(): Promise<Host[]> {
+    return db.select().from(hosts).orderBy(asc(hosts.createdAt));
+  }
+
+  async getHost(id: string): Promise<Host | undefined> {
+    const [host] = await db.select().from(hosts).where(eq(hosts.id, id));
+    return host;
+  }
+
+  async getPrimaryHost(): Promise<Host | undefined> {
+    const [host] = await db.select().from(hosts).orderBy(desc(hosts.primary), asc(hosts.createdAt)).limit(1);
+    return host;
+  }
+
+  async createHost(insertHost: InsertHost): Promise<Host> {
+    return db.transaction(async (tx) => {
+      if (insertHost.primary) {
+        await tx.update(hosts).set({ primary: false }).where(eq(hosts.primary, true));
+      }
+      const [host] = await tx.insert(hosts).values(insertHost).returning();
+      return host;
+    });
+  }
+
+  async updateHost(id: string, patch: UpdateHost): Promise<Host | undefined> {
+    return db.transaction(async (tx) => {
+      if (patch.primary) {
+        await tx.update(hosts).set({ primary: false }).where(and(eq(hosts.primary, true), ne(hosts.id, id)));
+      }
+      const [host] = await tx
+        .update(hosts)
+        .set({ ...patch, updatedAt: new Date() })
+        .where(eq(hosts.id, id))
+        .returning();
+      return host;
+    });
+  }
+
+  async setHostKey(id: string, key: HostKey | null): Promise<Host | undefined> {
+    const [host] = await db
+      .update(hosts)
+      .set({
+        hostKeyType: key?.type ?? null,
+        hostKeyFingerprint: key?.fingerprint ?? null,
+        hostKeyPinnedAt: key ? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(hosts.id, id))
+      .returning();
+    return host;
+  }
+
+  async setStackPlan(id: string, plan: StackPlan | null): Promise<Host | undefined> {
+    const [host] = await db
+      .update(hosts)
+      .set({ stackPlan: plan, updatedAt: new Date() })
+      .where(eq(hosts.id, id))
+      .returning();
+    return host;
+  }
+
+  async deleteHost(id: string): Promise<boolean> {
+    const deleted = await db.delete(hosts).where(eq(hosts.id, id)).returning({ id: hosts.id });
+    return deleted.length > 0;
+  }
+
+  async savePreflightResult(hostId: string, result: PreflightResult): Promise<PreflightScan> {
+    const [scan] = await db
+      .insert(preflightScans)
+      .values({
+        hostId,
+        hostname: result.osInfo.hostname,
+        readyToDeploy: result.safePlan.readyToDeploy,
+        result,
+      })
+      .returning();
+    return scan;
+  }
+
+  async getPreflightScan(id: string): Promise<PreflightScan | undefined> {
+    const [scan] = await db.select().from(preflightScans).where(eq(preflightScans.id, id));
+    return scan;
+  }
+
+  async getLatestPreflightScan(hostId: string): Promise<PreflightScan | undefined> {
+    const [scan] = await db
+      .select()
+      .from(preflightScans)
+      .where(eq(preflightScans.hostId, hostId))
+      .orderBy(desc(preflightScans.createdAt))
+      .limit(1);
+    return scan;
+  }
+
+  async listPreflightScans(options: { hostId?: string; limit: number }): Promise<PreflightScan[]> {
+    return db
+      .select()
+      .from(preflightScans)
+      .where(options.hostId ? eq(preflightScans.hostId, options.hostId) : undefined)
+      .orderBy(desc(preflightScans.createdAt))
+      .limit(options.limit);
+  }
+
+  async recordDeploymentStatus(hostId: string, status: DeploymentStatus): Promise<DeploymentStatus> {
+    await db.insert(deploymentStatusEvents).values({
+      hostId,
+      status: status.status,
+      message: status.message,
+      snapshot: status,
+    });
+    return status;
+  }
+
+  async getDeploymentStatus(hostId: string): Promise<DeploymentStatus | undefined> {
+    const [event] = await db
+      .select()
+      .from(deploymentStatusEvents)
+      .where(eq(deploymentStatusEvents.hostId, hostId))
+      .orderBy(desc(deploymentStatusEvents.createdAt))
+      .limit(1);
+    return event?.snapshot;
+  }
+
+  async recordHealthSample(insertSample: InsertHealthSample): Promise<HealthSample> {
+    const [sample] = await db.insert(healthSamples).values(insertSample).returning();
+    return sample;
+  }
+
+  async listHealthSamples(hostId: string, since: Date): Promise<HealthSample[]> {
+    return db
+      .select()
+      .from(healthSamples)
+      .where(and(eq(healthSamples.hostId, hostId), gte(healthSamples.checkedAt, since)))
+      .orderBy(asc(healthSamples.checkedAt));
+  }
+
+  async pruneHealthSamples(before: Date): Promise<number> {
+    const pruned = await db
+      .delete(healthSamples)
+      .where(lt(healthSamples.checkedAt, before))
+      .returning({ id: healthSamples.id });
+    return pruned.length;
+  }
+
+  async createRelease(insertRelease: InsertRelease): Promise<Release> {
+    const [release] = await db.insert(releases).values(insertRelease).returning();
+    return release;
+  }
+
+  async getRelease(id: string): Promise<Release | undefined> {
+    const [release] = await db.select().from(releases).where(eq(releases.id, id));
+    return release;
+  }
+
+  async listReleases(hostId: string): Promise<Release[]> {
+    return db.select().from(releases).where(eq(releases.hostId, hostId)).orderBy(desc(releases.createdAt));
+  }
+
+  async updateRelease(id: string, patch: Partial<InsertRelease>): Promise<Release | undefined> {
+    const [release] = await db.update(releases).set(patch).where(eq(releases.id, id)).returning();
+    return release;
+  }
+
+  async deleteReleases(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(releases).where(inArray(releases.id, ids));
+  }
+
+  async createBackup(insertBackup: InsertBackup): Promise<Backup> {
+    const [backup] = await db.insert(backups).values(insertBackup).returning();
+    return backup;
+  }
+
+  async getBackup(id: string): Promise<Backup | undefined> {
+    const [backup] = await db.select().from(backups).where(eq(backups.id, id));
+    return backup;
+  }
+
+  async listBackups(hostId: string): Promise<Backup[]> {
+    return db.select().from(backups).where(eq(backups.hostId, hostId)).orderBy(desc(backups.createdAt));
+  }
+
+  async updateBackup(id: string, patch: Partial<InsertBackup>): Promise<Backup | undefined> {
+    const [backup] = await db.update(backups).set(patch).where(eq(backups.id, id)).returning();
+    return backup;
+  }
+
+  async deleteBackups(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(backups).where(inArray(backups.id, ids));
+  }
+
+  async createWorkflowVersion(insertVersion: InsertWorkflowVersion): Promise<WorkflowVersion> {
+    const [version] = await db.insert(workflowVersions).values(insertVersion).returning();
+    return version;
+  }
+
+  async getWorkflowVersion(id: string): Promise<WorkflowVersion | undefined> {
+    const [version] = await db.select().from(workflowVersions).where(eq(workflowVersions.id, id));
+    return version;
+  }
+
+  async listWorkflowVersions(hostId: string, workflowId?: string): Promise<WorkflowVersion[]> {
+    return db
+      .select()
+      .from(workflowVersions)
+      .where(
+        workflowId
+          ? and(eq(workflowVersions.hostId, hostId), eq(workflowVersions.workflowId, workflowId))
+          : eq(workflowVersions.hostId, hostId)
+      )
+      .orderBy(desc(workflowVersions.createdAt), desc(workflowVersions.version));
+  }
+
+  async listListingSources(): Promise<ListingSource[]> {
+    return db.select().from(listingSources).orderBy(asc(listingSources.createdAt));
+  }
+
+  async getListingSource(id: string): Promise<ListingSource | undefined> {
+    const [source] = await db.select().from(listingSources).where(eq(listingSources.id, id));
+    return source;
+  }
+
+  async createListingSource(insertSource: InsertListingSource): Promise<ListingSource> {
+    const [source] = await db.insert(listingSources).values(insertSource).returning();
+    return source;
+  }
+
+  async updateListingSource(id: string, patch: UpdateListingSource): Promise<ListingSource | undefined> {
+    const [source] = await db
+      .update(listingSources)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(listingSources.id, id))
+      .returning();
+    return source;
+  }
+
+  async deleteListingSource(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(listingSources)
+      .where(eq(listingSources.id, id))
+      .returning({ id: listingSources.id });
+    return deleted.length > 0;
+  }
+
+  async createSchedulerRun(insertRun: InsertSchedulerRun): Promise<SchedulerRun> {
+    const [run] = await db.insert(schedulerRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async updateSchedulerRun(id: string, patch: Partial<InsertSchedulerRun>): Promise<SchedulerRun | undefined> {
+    const [run] = await db
+      .update(schedulerRuns)
+      .set(patch)
+      .where(eq(schedulerRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async listSchedulerRuns(options: { sourceId?: string; limit: number }): Promise<SchedulerRun[]> {
+    return db
+      .select()
+      .from(schedulerRuns)
+      .where(options.sourceId ? eq(schedulerRuns.sourceId, options.sourceId) : undefined)
+      .orderBy(desc(schedulerRuns.startedAt))
+      .limit(options.limit);
+  }
+
+  async listTrackedListings(options: {
+    sourceId?: string;
+    status?: TrackedListing["status"];
+    limit: number;
+  }): Promise<TrackedListing[]> {
+    const conditions: SQL[] = [];
+    if (options.sourceId) conditions.push(eq(listings.sourceId, options.sourceId));
+    if (options.status) conditions.push(eq(listings.status, options.status));
+
+    return db
+      .select()
+      .from(listings)
+      .where(and(...conditions))
+      .orderBy(desc(listings.lastSeenAt))
+      .limit(options.limit);
+  }
+
+  async getTrackedListingsBySource(sourceId: string): Promise<TrackedListing[]> {
+    return db.select().from(listings).where(eq(listings.sourceId, sourceId));
+  }
+
+  async getTrackedListing(id: string): Promise<TrackedListing | undefined> {
+    const [listing] = await db.select().from(listings).where(eq(listings.id, id));
+    return listing;
+  }
+
+  async createTrackedListing(insertListing: InsertTrackedListing): Promise<TrackedListing> {
+    const [listing] = await db.insert(listings).values(insertListing).returning();
+    return listing;
+  }
+
+  async updateTrackedListing(id: string, patch: Partial<InsertTrackedListing>): Promise<TrackedListing | undefined> {
+    const [listing] = await db.update(listings).set(patch).where(eq(listings.id, id)).returning();
+    return listing;
+  }
+
+  async addListingPricePoint(listingId: string, price: number | null, priceText: string | null): Promise<ListingPricePoint> {
+    const [point] = await db.insert(listingPriceHistory).values({ listingId, price, priceText }).returning();
+    return point;
+  }
+
+  async getListingPriceHistory(listingId: string): Promise<ListingPricePoint[]> {
+    return db
+      .select()
+      .from(listingPriceHistory)
+      .where(eq(listingPriceHistory.listingId, listingId))
+      .orderBy(asc(listingPriceHistory.observedAt));
+  }
+
+  async listAlertRules(): Promise<AlertRule[]> {
+    return db.select().from(alertRules).orderBy(asc(alertRules.createdAt));
+  }
+
+  async getAlertRule(id: string): Promise<AlertRule | undefined> {
+    const [rule] = await db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule;
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await db.insert(alertRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateAlertRule(id: string, patch: UpdateAlertRule): Promise<AlertRule | undefined> {
+    const [rule] = await db
+      .update(alertRules)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(alertRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteAlertRule(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(alertRules)
+      .where(eq(alertRules.id, id))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  async listNotificationChannels(): Promise<NotificationChannel[]> {
+    return db.select().from(notificationChannels).orderBy(asc(notificationChannels.createdAt));
+  }
+
+  async getNotificationChannel(id: string): Promise<NotificationChannel | undefined> {
+    const [channel] = await db.select().from(notificationChannels).where(eq(notificationChannels.id, id));
+    return channel;
+  }
+
+  async createNotificationChannel(insertChannel: InsertNotificationChannel): Promise<NotificationChannel> {
+    const [channel] = await db.insert(notificationChannels).values(insertChannel).returning();
+    return channel;
+  }
+
+  async updateNotificationChannel(id: string, patch: UpdateNotificationChannel): Promise<NotificationChannel | undefined> {
+    const [channel] = await db
+      .update(notificationChannels)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(notificationChannels.id, id))
+      .returning();
+    return channel;
+  }
+
+  async deleteNotificationChannel(id: string): Promise<boolean> {
+    // Rules keep channel ids in an array column, so there is no FK to cascade
+    await db
+      .update(alertRules)
+      .set({ channelIds: sql`array_remove(${alertRules.channelIds}, ${id})` })
+      .where(sql`${id} = any(${alertRules.channelIds})`);
+    const deleted = await db
+      .delete(notificationChannels)
+      .where(eq(notificationChannels.id, id))
+      .returning({ id: notificationChannels.id });
+    return deleted.length > 0;
+  }
+
+  async recordNotificationDelivery(insertDelivery: InsertNotificationDelivery): Promise<NotificationDelivery> {
+    const [delivery] = await db.insert(notificationDeliveries).values(insertDelivery).returning();
+    return delivery;
+  }
+
+  async listNotificationDeliveries(options: {
+    channel?: NotificationDelivery["channel"];
+    channelId?: string;
+    limit: number;
+  }): Promise<NotificationDelivery[]> {
+    const conditions: SQL[] = [];
+    if (options.channel) conditions.push(eq(notificationDeliveries.channel, options.channel));
+    if (options.channelId) conditions.push(eq(notificationDeliveries.channelId, options.channelId));
+
+    return db
+      .select()
+      .from(notificationDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(options.limit);
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep state in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage()
+  : new MemStorage();
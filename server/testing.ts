@@ -0,0 +1,75 @@
+// Helpers for tests that run one of the local stand-ins (the fetcher stub, the
+// notification sinks) as a separate process, the way `npm run` starts them.
+import { spawn } from "child_process";
+import net, { type AddressInfo } from "net";
+
+const START_TIMEOUT_MS = 20000;
+
+export interface ScriptProcess {
+  // Everything the script printed so far
+  output(): string;
+  // Resolves once the output contains `text`, rejects after `timeoutMs`
+  waitForOutput(text: string, timeoutMs?: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// A port nothing listens on right now
+export async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+// Starts a TypeScript script with `env` added and waits until it prints `ready`
+export async function startScript(path: string, env: Record<string, string>, ready: string): Promise<ScriptProcess> {
+  const child = spawn(process.execPath, ["--import", "tsx", path], {
+    env: { ...process.env, ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let output = "";
+  const waiters = new Set<() => void>();
+  const append = (chunk: Buffer) => {
+    output += chunk.toString();
+    waiters.forEach((check) => check());
+  };
+  child.stdout.on("data", append);
+  child.stderr.on("data", append);
+
+  const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+
+  const waitForOutput = (text: string, timeoutMs = START_TIMEOUT_MS) =>
+    new Promise<void>((resolve, reject) => {
+      const check = () => {
+        if (!output.includes(text)) return;
+        clearTimeout(timer);
+        waiters.delete(check);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error(`${path} did not print "${text}" within ${timeoutMs}ms:\n${output}`));
+      }, timeoutMs);
+      waiters.add(check);
+      check();
+    });
+
+  const stop = async () => {
+    if (child.exitCode === null && child.signalCode === null) child.kill();
+    await exited;
+  };
+
+  try {
+    await Promise.race([
+      waitForOutput(ready),
+      exited.then(() => Promise.reject(new Error(`${path} exited before it was ready:\n${output}`))),
+    ]);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return { output: () => output, waitForOutput, stop };
+}
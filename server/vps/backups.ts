@@ -0,0 +1,246 @@
+import { mkdir, unlink } from "fs/promises";
+import path from "path";
+import type { Backup, BackupTrigger, Host, Job, StackPlan } from "@shared/schema";
+import { storage } from "../storage";
+import { getSSHConfig } from "./config";
+import { releaseName } from "./deploy";
+import { deployedStackPlan } from "./stack";
+import { isHostBusy, submitJob, type JobContext, type JobLogger } from "./jobs";
+import { shellQuote, withSession, type SSHSession } from "./ssh";
+import { log } from "../log";
+
+const BACKUPS_DIR = "/opt/rentalmonitor/backups";
+// The database and role the compose file creates
+const DATABASE = "rentalmonitor";
+const DATABASE_USER = "rentalmonitor";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DUMP_TIMEOUT_MS = 15 * 60 * 1000;
+// How often the scheduler looks for hosts due a backup
+const SCHEDULE_CHECK_MS = 15 * 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let startedAt: Date | null = null;
+let lastRunAt: Date | null = null;
+
+export interface BackupSchedulerState {
+  running: boolean;
+  intervalHours: number;
+  kept: number;
+  downloading: boolean;
+  startedAt: string | null;
+  lastRunAt: string | null;
+}
+
+function backupIntervalHours(): number {
+  const hours = parseFloat(process.env.BACKUP_INTERVAL_HOURS ?? "");
+  return Number.isNaN(hours) ? 24 : Math.max(0, hours);
+}
+
+function backupsKept(): number {
+  const kept = parseInt(process.env.BACKUP_KEEP ?? "", 10);
+  return Number.isNaN(kept) ? 7 : Math.max(1, kept);
+}
+
+function downloadDir(): string | null {
+  return process.env.BACKUP_DOWNLOAD_DIR || null;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+// Backups cover the stack's own Postgres only; a reused one is backed up by
+// whoever runs it
+function postgresContainer(plan: StackPlan): string {
+  if (plan.postgres.mode !== "deploy") {
+    throw new Error("The stack on this host doesn't deploy Postgres, so there is nothing to back up");
+  }
+  return plan.postgres.containerName;
+}
+
+// Dumps into a .partial file that is only renamed once pg_dump succeeded, so a
+// failed or cancelled dump never looks like a backup. Returns the size.
+async function dumpDatabase(ssh: SSHSession, container: string, name: string, signal?: AbortSignal): Promise<number> {
+  const file = `${BACKUPS_DIR}/${name}`;
+  const result = await ssh.run(
+    `mkdir -p ${BACKUPS_DIR} && ` +
+      `if docker exec ${container} pg_dump -U ${DATABASE_USER} -d ${DATABASE} -Fc > ${file}.partial; ` +
+      `then mv ${file}.partial ${file} && stat -c %s ${file}; else rm -f ${file}.partial; exit 1; fi`,
+    { signal, timeoutMs: DUMP_TIMEOUT_MS }
+  );
+  return parseInt(result.stdout.trim(), 10) || 0;
+}
+
+// Removes all but the newest `kept` dumps (names sort chronologically), never
+// `protect`, and returns the names removed
+async function pruneDumps(ssh: SSHSession, kept: number, protect: string | null, signal?: AbortSignal): Promise<string[]> {
+  const listing = await ssh.run(`rm -f ${BACKUPS_DIR}/*.partial; ls -1 ${BACKUPS_DIR}`, { signal });
+  const names = listing.stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((name) => name.endsWith(".dump"))
+    .sort();
+  const stale = names.slice(0, Math.max(0, names.length - kept)).filter((name) => name !== protect);
+  if (stale.length > 0) {
+    await ssh.run(`cd ${BACKUPS_DIR} && rm -f -- ${stale.map(shellQuote).join(" ")}`, { signal });
+  }
+  return stale;
+}
+
+// A failed download leaves the backup on the host only; it doesn't fail it
+async function downloadDump(ssh: SSHSession, host: Host, name: string, onLog: JobLogger): Promise<string | null> {
+  const dir = downloadDir();
+  if (!dir) return null;
+
+  const localPath = path.join(dir, host.id, name);
+  try {
+    await mkdir(path.dirname(localPath), { recursive: true });
+    await ssh.fetchFile(`${BACKUPS_DIR}/${name}`, localPath);
+    onLog("info", `Downloaded to ${localPath}`);
+    return localPath;
+  } catch (error) {
+    onLog("stderr", `Could not download the backup: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+// Takes a pg_dump of the host's Postgres, prunes the oldest beyond BACKUP_KEEP
+// (on the host and their downloaded copies) and records it. `protect` is never
+// pruned, for the backup a restore is about to use.
+export async function backupHost(
+  host: Host,
+  trigger: BackupTrigger,
+  { log: onLog, signal }: JobContext,
+  protect: string | null = null
+): Promise<Backup> {
+  const config = await getSSHConfig(host);
+  const container = postgresContainer(await deployedStackPlan(host));
+  const name = `${DATABASE}-${releaseName()}.dump`;
+
+  const { sizeBytes, localPath, pruned } = await withSession(config, async (ssh) => {
+    onLog("info", `Dumping ${DATABASE} from ${container} to ${BACKUPS_DIR}/${name}`);
+    const sizeBytes = await dumpDatabase(ssh, container, name, signal);
+    onLog("info", `Backup is ${formatSize(sizeBytes)}`);
+
+    const pruned = await pruneDumps(ssh, backupsKept(), protect, signal);
+    if (pruned.length > 0) {
+      onLog("info", `Removed ${pruned.length} old ${pruned.length === 1 ? "backup" : "backups"}: ${pruned.join(", ")}`);
+    }
+    return { sizeBytes, pruned, localPath: await downloadDump(ssh, host, name, onLog) };
+  });
+
+  const backup = await storage.createBackup({ hostId: host.id, name, sizeBytes, trigger, localPath });
+  const stale = (await storage.listBackups(host.id)).filter((old) => pruned.includes(old.name));
+  for (const old of stale) {
+    if (old.localPath) await unlink(old.localPath).catch(() => {});
+  }
+  await storage.deleteBackups(stale.map((old) => old.id));
+  return backup;
+}
+
+// Replaces the host's database with the backup's content, in one transaction
+// so a failed restore leaves it as it was. The current data is backed up first
+// (as `pre_restore`), and n8n is stopped meanwhile so it doesn't write to the
+// tables being replaced. Returns that pre-restore backup.
+export async function restoreHostBackup(host: Host, backup: Backup, context: JobContext): Promise<Backup> {
+  const { log: onLog, signal } = context;
+  const config = await getSSHConfig(host);
+  const plan = await deployedStackPlan(host);
+  const container = postgresContainer(plan);
+  const file = `${BACKUPS_DIR}/${backup.name}`;
+
+  await withSession(config, async (ssh) => {
+    const check = await ssh.exec(`test -f ${file}`, { signal });
+    if (check.exitCode !== 0) {
+      throw new Error(`Backup ${backup.name} is no longer on the host`);
+    }
+  });
+
+  const safety = await backupHost(host, "pre_restore", context, backup.name);
+
+  await withSession(config, async (ssh) => {
+    const n8n = plan.n8n.mode === "deploy" ? plan.n8n.containerName : null;
+    if (n8n) {
+      onLog("info", `Stopping ${n8n}`);
+      await ssh.run(`docker stop ${n8n}`, { signal });
+    }
+    try {
+      onLog("info", `Restoring ${backup.name} into ${DATABASE}`);
+      await ssh.run(
+        `docker exec -i ${container} pg_restore -U ${DATABASE_USER} -d ${DATABASE} ` +
+          `--clean --if-exists --no-owner --single-transaction < ${file}`,
+        { onOutput: onLog, signal, timeoutMs: DUMP_TIMEOUT_MS }
+      );
+    } finally {
+      // Started again even when the restore failed or was cancelled
+      if (n8n) {
+        await ssh.run(`docker start ${n8n}`).then(
+          () => onLog("info", `Started ${n8n}`),
+          (error) => onLog("stderr", `Could not start ${n8n}: ${(error as Error).message}`)
+        );
+      }
+    }
+  });
+
+  await storage.updateBackup(backup.id, { restoredAt: new Date() });
+  return safety;
+}
+
+export function submitBackup(host: Host, trigger: BackupTrigger, options: { queue?: boolean } = {}): Job {
+  return submitJob(
+    "backup",
+    host,
+    async (context) => {
+      const backup = await backupHost(host, trigger, context);
+      return { success: true, message: `Backed up to ${backup.name} (${formatSize(backup.sizeBytes)})`, result: backup };
+    },
+    options
+  );
+}
+
+// A deployed host gets a scheduled backup once its newest backup (of any kind)
+// is older than the interval. Busy hosts are tried again on the next check.
+async function backUpDueHosts() {
+  lastRunAt = new Date();
+  const intervalMs = backupIntervalHours() * HOUR_MS;
+
+  for (const host of await storage.listHosts()) {
+    try {
+      const status = await storage.getDeploymentStatus(host.id);
+      if (!status?.lastDeploy || isHostBusy(host.id)) continue;
+      if ((await deployedStackPlan(host)).postgres.mode !== "deploy") continue;
+
+      const [newest] = await storage.listBackups(host.id);
+      if (newest && Date.now() - newest.createdAt.getTime() < intervalMs) continue;
+      submitBackup(host, "scheduled");
+      log(`${host.name}: scheduled backup started`, "backups");
+    } catch (error) {
+      log(`${host.name}: ${(error as Error).message}`, "backups");
+    }
+  }
+}
+
+// Backs up every deployed host each BACKUP_INTERVAL_HOURS (default 24; 0
+// disables scheduled backups), keeping the newest BACKUP_KEEP (default 7)
+export function startBackupScheduler(): BackupSchedulerState {
+  if (!timer && backupIntervalHours() > 0) {
+    startedAt = new Date();
+    timer = setInterval(() => {
+      void backUpDueHosts().catch((error) => log(`Check failed: ${(error as Error).message}`, "backups"));
+    }, Math.min(SCHEDULE_CHECK_MS, backupIntervalHours() * HOUR_MS));
+    log(`Backing up deployed hosts every ${backupIntervalHours()}h, keeping ${backupsKept()}`, "backups");
+  }
+  return getBackupSchedulerState();
+}
+
+export function getBackupSchedulerState(): BackupSchedulerState {
+  return {
+    running: timer !== null,
+    intervalHours: backupIntervalHours(),
+    kept: backupsKept(),
+    downloading: downloadDir() !== null,
+    startedAt: startedAt?.toISOString() ?? null,
+    lastRunAt: lastRunAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,76 @@
+import { isAllowedSecretRef, type Host } from "@shared/schema";
+import type { SSHConfig } from "./ssh";
+import { hostKeyVerifier } from "./hostkeys";
+import { storage } from "../storage";
+
+// Bastions of bastions are allowed, up to this many hops
+const MAX_JUMPS = 3;
+
+// A reference outside SSH_*/VPS_* (e.g. one stored before that was enforced)
+// reads as unset
+function readSecret(ref: string | null): string | undefined {
+  return ref && isAllowedSecretRef(ref) ? process.env[ref] || undefined : undefined;
+}
+
+function describeSecret(ref: string): string {
+  return isAllowedSecretRef(ref) ? `secret ${ref} is not set` : `secret ${ref} is not an SSH_ or VPS_ variable`;
+}
+
+// Resolves a host's secret references to the credentials held in the
+// environment, and its jump host (if any) to a config of its own. Connections
+// made with the result pin and check the server's host key.
+export async function getSSHConfig(host: Host, via: string[] = []): Promise<SSHConfig> {
+  const privateKey = readSecret(host.keyRef);
+  const password = readSecret(host.passwordRef);
+  const agent = host.useAgent ? process.env.SSH_AUTH_SOCK : undefined;
+
+  if (!privateKey && !password && !agent) {
+    throw new Error(`Missing SSH credentials for ${host.name}: ${describeMissingCredentials(host)}`);
+  }
+  if (privateKey && host.passphraseRef && !readSecret(host.passphraseRef)) {
+    throw new Error(`Missing SSH key passphrase for ${host.name}: ${describeSecret(host.passphraseRef)}`);
+  }
+
+  const config: SSHConfig = {
+    host: host.address,
+    port: host.sshPort,
+    username: host.username,
+    privateKey,
+    passphrase: readSecret(host.passphraseRef),
+    agent,
+    password,
+    keepaliveInterval: host.keepaliveIntervalMs,
+    readyTimeout: host.readyTimeoutMs,
+    verifyHostKey: hostKeyVerifier(host),
+    poolKey: host.id,
+  };
+
+  if (host.jumpHostId) {
+    const chain = [...via, host.id];
+    if (chain.includes(host.jumpHostId) || chain.length > MAX_JUMPS) {
+      throw new Error(`Jump host chain for ${host.name} loops or is longer than ${MAX_JUMPS} hops`);
+    }
+    const jumpHost = await storage.getHost(host.jumpHostId);
+    if (!jumpHost) {
+      throw new Error(`Jump host for ${host.name} no longer exists`);
+    }
+    config.jump = await getSSHConfig(jumpHost, chain);
+  }
+
+  return config;
+}
+
+function describeMissingCredentials(host: Host): string {
+  const missing: string[] = [];
+  if (host.keyRef) missing.push(describeSecret(host.keyRef));
+  if (host.useAgent) missing.push("SSH_AUTH_SOCK is not set");
+  if (host.passwordRef) missing.push(describeSecret(host.passwordRef));
+  return missing.length > 0 ? missing.join(", ") : "no key, agent or password configured";
+}
+
+// Whether at least one way of authenticating is available
+export function hasSSHCredentials(host: Host): boolean {
+  return Boolean(
+    readSecret(host.keyRef) || readSecret(host.passwordRef) || (host.useAgent && process.env.SSH_AUTH_SOCK)
+  );
+}
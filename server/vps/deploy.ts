@@ -1,70 +1,97 @@
-import { Client, SFTPWrapper } from "ssh2";
-import { connectSSH } from "./preflight";
+import {
+  withSession,
+  ExecError,
+  SECRET_FILE_MODE,
+  type ExecResult,
+  type SSHConfig,
+  type SSHSession,
+  type UploadOptions,
+} from "./ssh";
+import { waitForReady, readyDeadlineMs, probeServices, parseComposePs } from "./readiness";
+import { defaultStackPlan, imageRef, reusedPostgres, serviceEndpoint } from "./stack";
 import { nanoid } from "nanoid";
-
-interface SSHConfig {
-  host: string;
-  username: string;
-  privateKey: string;
-}
-
-interface DeployResult {
+import { createTwoFilesPatch } from "diff";
+import type {
+  DeployPlan,
+  DeployPlanFile,
+  DeployPlanService,
+  DeployStep,
+  N8nWorkflow,
+  ServicesHealth,
+  StackPlan,
+  StackPorts,
+  StackService,
+  UpgradableService,
+} from "@shared/schema";
+import type { JobLogger } from "./jobs";
+import { seedWorkflows } from "../n8n/workflows";
+import { fetcherCredential } from "../n8n/template";
+
+export interface DeployResult {
   success: boolean;
   message: string;
   logs: string[];
-  services: {
-    postgres: { running: boolean; healthy: boolean };
-    n8n: { running: boolean; healthy: boolean; url?: string };
-    ntfy: { running: boolean; healthy: boolean; url?: string };
-    fetcher: { running: boolean; healthy: boolean; url?: string };
-  };
+  steps: DeployStep[];
+  services: ServicesHealth;
+  // Name of the release snapshotted (deploy) or restored (rollback); null if
+  // the deploy failed before the snapshot
+  release: string | null;
 }
 
-async function execCommand(client: Client, command: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    client.exec(command, (err, stream) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      let output = "";
-      let errorOutput = "";
-      stream.on("close", () => {
-        resolve(output + errorOutput);
-      });
-      stream.on("data", (data: Buffer) => {
-        output += data.toString();
-      });
-      stream.stderr.on("data", (data: Buffer) => {
-        errorOutput += data.toString();
-      });
-    });
-  });
-}
+// Addresses meaning "the VPS itself" to an existing Postgres' host
+const LOCAL_HOSTS = ["localhost", "127.0.0.1"];
 
-async function uploadFile(client: Client, content: string, remotePath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    client.sftp((err, sftp: SFTPWrapper) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      const stream = sftp.createWriteStream(remotePath);
-      stream.on("close", () => resolve());
-      stream.on("error", reject);
-      stream.write(content);
-      stream.end();
-    });
-  });
+// Container name and resource limits of a deployed service
+function serviceOptions(service: StackService): string {
+  return [
+    `    container_name: ${service.containerName}`,
+    ...(service.memoryLimit ? [`    mem_limit: ${service.memoryLimit}`] : []),
+    ...(service.cpuLimit ? [`    cpus: ${service.cpuLimit}`] : []),
+  ].join("\n");
 }
 
-export function generateDockerCompose(ports: { postgres: number; n8n: number; ntfy: number; fetcher: number }): string {
-  return `version: '3.8'
+// n8n's database settings: our postgres service, or the existing Postgres the
+// plan reuses. An existing one on the VPS itself is reached through the
+// host's gateway address, so it has to listen on the Docker bridge too.
+function n8nDatabase(plan: StackPlan): { env: string; extra: string } {
+  const external = reusedPostgres(plan);
+  if (!external) {
+    return {
+      env: `      - DB_POSTGRESDB_HOST=postgres
+      - DB_POSTGRESDB_PORT=5432
+      - DB_POSTGRESDB_DATABASE=rentalmonitor
+      - DB_POSTGRESDB_USER=rentalmonitor
+      - DB_POSTGRESDB_PASSWORD=\${POSTGRES_PASSWORD}`,
+      extra: "",
+    };
+  }
 
-services:
-  postgres:
-    image: postgres:15-alpine
-    container_name: rentalmonitor_postgres
+  const onHost = !external.network && LOCAL_HOSTS.includes(external.host);
+  return {
+    env: `      - DB_POSTGRESDB_HOST=${onHost ? "host.docker.internal" : external.host}
+      - DB_POSTGRESDB_PORT=${external.port}
+      - DB_POSTGRESDB_DATABASE=${external.database}
+      - DB_POSTGRESDB_USER=${external.user}
+      - DB_POSTGRESDB_PASSWORD=\${${external.passwordVar}}`,
+    extra: onHost
+      ? `
+    extra_hosts:
+      - "host.docker.internal:host-gateway"`
+      : "",
+  };
+}
+
+// Only the services the plan deploys are included; reused and skipped ones
+// are left to whatever already runs on the host
+export function generateDockerCompose(ports: StackPorts, plan: StackPlan = defaultStackPlan()): string {
+  const services: string[] = [];
+  const volumes: string[] = [];
+  const externalNetwork = reusedPostgres(plan)?.network ?? null;
+
+  if (plan.postgres.mode === "deploy") {
+    services.push(`  postgres:
+    image: ${imageRef(plan, "postgres")}
+${serviceOptions(plan.postgres)}
     restart: unless-stopped
     environment:
       POSTGRES_USER: rentalmonitor
@@ -79,10 +106,15 @@ services:
       interval: 10s
       timeout: 5s
       retries: 5
+`);
+    volumes.push("rentalmonitor_postgres_data");
+  }
 
-  n8n:
-    image: n8nio/n8n:latest
-    container_name: rentalmonitor_n8n
+  if (plan.n8n.mode === "deploy") {
+    const database = n8nDatabase(plan);
+    services.push(`  n8n:
+    image: ${imageRef(plan, "n8n")}
+${serviceOptions(plan.n8n)}
     restart: unless-stopped
     ports:
       - "127.0.0.1:${ports.n8n}:5678"
@@ -92,31 +124,32 @@ services:
       - N8N_BASIC_AUTH_PASSWORD=\${N8N_PASSWORD}
       - N8N_ENCRYPTION_KEY=\${N8N_ENCRYPTION_KEY}
       - DB_TYPE=postgresdb
-      - DB_POSTGRESDB_HOST=postgres
-      - DB_POSTGRESDB_PORT=5432
-      - DB_POSTGRESDB_DATABASE=rentalmonitor
-      - DB_POSTGRESDB_USER=rentalmonitor
-      - DB_POSTGRESDB_PASSWORD=\${POSTGRES_PASSWORD}
+${database.env}
       - GENERIC_TIMEZONE=Europe/Amsterdam
       - N8N_HOST=\${N8N_HOST}
       - N8N_PROTOCOL=https
       - WEBHOOK_URL=\${WEBHOOK_URL}
     volumes:
-      - rentalmonitor_n8n_data:/home/node/.n8n
+      - rentalmonitor_n8n_data:/home/node/.n8n${database.extra}
     networks:
-      - rentalmonitor_net
+      - rentalmonitor_net${externalNetwork ? `
+      - postgres_external` : ""}${plan.postgres.mode === "deploy" ? `
     depends_on:
       postgres:
-        condition: service_healthy
+        condition: service_healthy` : ""}
     healthcheck:
       test: ["CMD", "wget", "--spider", "-q", "http://localhost:5678/healthz"]
       interval: 30s
       timeout: 10s
       retries: 3
+`);
+    volumes.push("rentalmonitor_n8n_data");
+  }
 
-  ntfy:
-    image: binwiederhier/ntfy:latest
-    container_name: rentalmonitor_ntfy
+  if (plan.ntfy.mode === "deploy") {
+    services.push(`  ntfy:
+    image: ${imageRef(plan, "ntfy")}
+${serviceOptions(plan.ntfy)}
     restart: unless-stopped
     ports:
       - "127.0.0.1:${ports.ntfy}:80"
@@ -132,12 +165,16 @@ services:
       interval: 30s
       timeout: 10s
       retries: 3
+`);
+    volumes.push("rentalmonitor_ntfy_cache", "rentalmonitor_ntfy_data");
+  }
 
-  fetcher:
+  if (plan.fetcher.mode === "deploy") {
+    services.push(`  fetcher:
     build:
       context: ./fetcher
       dockerfile: Dockerfile
-    container_name: rentalmonitor_fetcher
+${serviceOptions(plan.fetcher)}
     restart: unless-stopped
     ports:
       - "127.0.0.1:${ports.fetcher}:3001"
@@ -151,21 +188,28 @@ services:
       interval: 30s
       timeout: 10s
       retries: 3
+`);
+  }
+
+  return `version: '3.8'
 
-volumes:
-  rentalmonitor_postgres_data:
-  rentalmonitor_n8n_data:
-  rentalmonitor_ntfy_cache:
-  rentalmonitor_ntfy_data:
+services:
+${services.join("\n")}
+${volumes.length > 0 ? `volumes:
+${volumes.map((volume) => `  ${volume}:`).join("\n")}
 
-networks:
+` : ""}networks:
   rentalmonitor_net:
     name: rentalmonitor_net
     driver: bridge
-`;
+${externalNetwork ? `  postgres_external:
+    name: ${externalNetwork}
+    external: true
+` : ""}`;
 }
 
-export function generateEnvExample(): string {
+export function generateEnvExample(plan: StackPlan = defaultStackPlan()): string {
+  const external = reusedPostgres(plan);
   return `# LivingRental Alert - Environment Configuration
 # Copy this to .env and fill in real values
 
@@ -181,7 +225,10 @@ WEBHOOK_URL=https://n8n.yourdomain.com
 
 # Fetcher Service
 FETCHER_SECRET=your_fetcher_api_secret_here
-`;
+${external ? `
+# Existing Postgres used by n8n
+${external.passwordVar}=password_of_${external.user}
+` : ""}`;
 }
 
 export function generateEnvFile(): string {
@@ -208,8 +255,8 @@ FETCHER_SECRET=${fetcherSecret}
 `;
 }
 
-export function generateFetcherDockerfile(): string {
-  return `FROM mcr.microsoft.com/playwright:v1.40.0-focal
+export function generateFetcherDockerfile(plan: StackPlan = defaultStackPlan()): string {
+  return `FROM ${imageRef(plan, "fetcher")}
 
 WORKDIR /app
 
@@ -226,7 +273,13 @@ CMD ["node", "index.js"]
 `;
 }
 
-export function generateFetcherPackageJson(): string {
+// The playwright package has to match the browsers baked into the base image,
+// so it is pinned to the version in the image tag (e.g. v1.40.0-focal)
+function playwrightVersion(imageTag: string): string {
+  return imageTag.match(/^v(\d+\.\d+\.\d+)/)?.[1] ?? "^1.40.0";
+}
+
+export function generateFetcherPackageJson(plan: StackPlan = defaultStackPlan()): string {
   return JSON.stringify({
     name: "rentalmonitor-fetcher",
     version: "1.0.0",
@@ -237,7 +290,7 @@ export function generateFetcherPackageJson(): string {
     },
     dependencies: {
       express: "^4.18.2",
-      playwright: "^1.40.0"
+      playwright: playwrightVersion(plan.fetcher.imageTag)
     }
   }, null, 2);
 }
@@ -377,141 +430,617 @@ app.listen(PORT, '0.0.0.0', () => {
 `;
 }
 
-export async function deployToVPS(
-  config: SSHConfig,
-  ports: { postgres: number; n8n: number; ntfy: number; fetcher: number }
-): Promise<DeployResult> {
+const REMOTE_DIR = "/opt/rentalmonitor";
+const RELEASES_DIR = `${REMOTE_DIR}/releases`;
+// Older release directories are removed by the deploy that snapshots a new
+// one; routes drop their records to match
+export const RELEASES_KEPT = 10;
+// The generated files a release consists of, relative to REMOTE_DIR
+const RELEASE_FILES = [
+  "docker-compose.yml",
+  ".env.example",
+  "README.md",
+  "fetcher/Dockerfile",
+  "fetcher/package.json",
+  "fetcher/index.js",
+];
+
+// The generated files of the stack by path relative to REMOTE_DIR (the
+// release files). The .env is separate: it holds secrets and is only created
+// when missing.
+function stackFiles(ports: StackPorts, plan: StackPlan): Record<string, string> {
+  return {
+    "docker-compose.yml": generateDockerCompose(ports, plan),
+    ".env.example": generateEnvExample(plan),
+    "README.md": generateReadme(ports, plan),
+    "fetcher/Dockerfile": generateFetcherDockerfile(plan),
+    "fetcher/package.json": generateFetcherPackageJson(plan),
+    "fetcher/index.js": generateFetcherService(),
+  };
+}
+// A build or image pull can take a while
+const COMPOSE_TIMEOUT_MS = 20 * 60 * 1000;
+// Step output kept in the report; the full output is in the job log
+const STEP_OUTPUT_LIMIT = 4000;
+
+const STEP_LABEL: Record<DeployStep["name"], string> = {
+  mkdir: "Create directories",
+  upload_compose: "Upload compose file",
+  upload_env: "Prepare .env",
+  upload_fetcher: "Upload fetcher service",
+  snapshot: "Snapshot release",
+  restore: "Restore release",
+  build: "Build images",
+  pull: "Pull image",
+  up: "Start containers",
+  recreate: "Recreate container",
+  wait_healthy: "Wait for services to be healthy",
+  seed_workflows: "Seed n8n workflows",
+  revert: "Revert to the previous version",
+};
+
+const DEPLOY_STEPS: DeployStep["name"][] = [
+  "mkdir",
+  "upload_compose",
+  "upload_env",
+  "upload_fetcher",
+  "snapshot",
+  "build",
+  "up",
+  "wait_healthy",
+];
+const ROLLBACK_STEPS: DeployStep["name"][] = ["restore", "build", "up", "wait_healthy"];
+const UPGRADE_STEPS: DeployStep["name"][] = ["upload_compose", "pull", "recreate", "wait_healthy", "snapshot", "revert"];
+
+const NOT_CHECKED = { running: false, healthy: false, lastError: "Not checked" };
+const NO_SERVICES: ServicesHealth = {
+  postgres: NOT_CHECKED,
+  n8n: NOT_CHECKED,
+  ntfy: NOT_CHECKED,
+  fetcher: NOT_CHECKED,
+};
+
+interface StepOutcome {
+  output: string;
+  exitCode?: number | null;
+}
+
+function clipOutput(output: string): string {
+  const trimmed = output.trim();
+  return trimmed.length > STEP_OUTPUT_LIMIT ? `...${trimmed.slice(-STEP_OUTPUT_LIMIT)}` : trimmed;
+}
+
+function commandOutput(result: ExecResult): string {
+  return [result.stdout, result.stderr].filter((text) => text.trim()).join("\n");
+}
+
+// Release directory names sort chronologically, which pruning relies on
+export function releaseName(date = new Date()): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+}
+
+export interface DeployOptions {
+  // Progress messages and remote command output, as they happen
+  onLog?: JobLogger;
+  // Called with a fresh copy of the step report whenever a step changes
+  onSteps?: (steps: DeployStep[]) => void;
+  // Aborting kills the running remote command
+  signal?: AbortSignal;
+  // How long to wait for the stack to become healthy after `up`
+  readyTimeoutMs?: number;
+  // Workflows a deploy imports into n8n once the stack is healthy, unless n8n
+  // already has them, along with the credential holding the fetcher secret
+  seedWorkflows?: N8nWorkflow[];
+}
+
+type StepRunner = ReturnType<typeof createStepRunner>;
+
+// Keeps the step report and log of a deploy, rollback or upgrade. `runStep`
+// marks a step running, then successful or failed; `fail` skips the steps that
+// never ran and turns the error into the result.
+function createStepRunner(names: DeployStep["name"][], onLog: JobLogger, onSteps: (steps: DeployStep[]) => void) {
   const logs: string[] = [];
-  const client = await connectSSH(config);
+  const info = (text: string) => {
+    logs.push(text);
+    onLog("info", text);
+  };
+  const steps: DeployStep[] = names.map((name) => ({
+    name,
+    label: STEP_LABEL[name],
+    status: "pending",
+    exitCode: null,
+    output: "",
+    durationMs: null,
+  }));
+  const publishSteps = () => onSteps(steps.map((step) => ({ ...step })));
+
+  const runStep = async <T extends StepOutcome>(name: DeployStep["name"], task: () => Promise<T>): Promise<T> => {
+    const step = steps.find((candidate) => candidate.name === name)!;
+    step.status = "running";
+    publishSteps();
+    info(`${step.label}...`);
+
+    const startedAt = Date.now();
+    try {
+      const outcome = await task();
+      Object.assign(step, { status: "success", exitCode: outcome.exitCode ?? null, output: clipOutput(outcome.output) });
+      return outcome;
+    } catch (error) {
+      const failed = error instanceof ExecError;
+      Object.assign(step, {
+        status: "error",
+        exitCode: failed ? error.result.exitCode : null,
+        output: clipOutput(failed ? commandOutput(error.result) || error.message : (error as Error).message),
+      });
+      throw error;
+    } finally {
+      step.durationMs = Date.now() - startedAt;
+      publishSteps();
+    }
+  };
 
-  try {
-    logs.push("Connected to VPS");
+  const skipPending = () => {
+    for (const step of steps) {
+      if (step.status === "pending") step.status = "skipped";
+    }
+    publishSteps();
+  };
 
-    // Create directory structure
-    logs.push("Creating directory structure...");
-    await execCommand(client, "mkdir -p /opt/rentalmonitor/{fetcher,logs}");
+  const fail = (error: unknown, release: string | null): DeployResult => {
+    skipPending();
+    info(`Error: ${(error as Error).message}`);
+
+    // Command failures point at the step's output; anything else (e.g. a
+    // readiness timeout naming the services) is short enough to include
+    const failed = steps.find((step) => step.status === "error");
+    const reason =
+      error instanceof ExecError
+        ? error.result.exitCode !== null
+          ? ` (exit ${error.result.exitCode})`
+          : ""
+        : `: ${(error as Error).message}`;
+    return {
+      success: false,
+      message: failed ? `${failed.label} failed${reason}` : (error as Error).message,
+      logs,
+      steps,
+      services: NO_SERVICES,
+      release,
+    };
+  };
 
-    // Upload Docker Compose file
-    logs.push("Uploading docker-compose.yml...");
-    await uploadFile(client, generateDockerCompose(ports), "/opt/rentalmonitor/docker-compose.yml");
+  return { logs, steps, info, runStep, skipPending, fail };
+}
 
-    // Upload .env.example
-    logs.push("Uploading .env.example...");
-    await uploadFile(client, generateEnvExample(), "/opt/rentalmonitor/.env.example");
+// Runs a `docker compose` command in the stack directory as a step
+async function composeStep(
+  ssh: SSHSession,
+  runner: StepRunner,
+  name: DeployStep["name"],
+  command: string,
+  { onLog = () => {}, signal }: DeployOptions
+): Promise<StepOutcome> {
+  return runner.runStep(name, async () => {
+    const result = await ssh.run(`cd ${REMOTE_DIR} && ${command}`, { onOutput: onLog, signal, timeoutMs: COMPOSE_TIMEOUT_MS });
+    runner.logs.push(commandOutput(result));
+    return { output: commandOutput(result), exitCode: result.exitCode };
+  });
+}
 
-    // Check if .env exists, if not create with generated secrets
-    const envExists = await execCommand(client, "test -f /opt/rentalmonitor/.env && echo 'exists' || echo 'missing'");
-    if (envExists.trim() === "missing") {
-      logs.push("Creating .env with generated secrets...");
-      await uploadFile(client, generateEnvFile(), "/opt/rentalmonitor/.env");
-    } else {
-      logs.push(".env already exists, keeping existing configuration");
+// The build, up and wait-for-health steps shared by deploys and rollbacks
+async function startStack(
+  ssh: SSHSession,
+  runner: StepRunner,
+  ports: StackPorts,
+  plan: StackPlan,
+  options: DeployOptions
+): Promise<ServicesHealth> {
+  const { onLog = () => {}, signal, readyTimeoutMs = readyDeadlineMs() } = options;
+  await composeStep(ssh, runner, "build", "docker compose build", options);
+  // Services the plan no longer deploys are orphans now; their volumes stay
+  await composeStep(ssh, runner, "up", "docker compose up -d --remove-orphans", options);
+
+  const { services } = await runner.runStep("wait_healthy", async () => {
+    const ready = await waitForReady(ssh, REMOTE_DIR, ports, plan, { deadlineMs: readyTimeoutMs, onLog, signal });
+    const output = `All services healthy after ${Math.round(ready.elapsedMs / 1000)}s (${ready.attempts} checks)`;
+    runner.logs.push(output);
+    return { output, services: ready.services };
+  });
+  return services;
+}
+
+// Copies the live release files into a new release directory and prunes the
+// oldest beyond RELEASES_KEPT
+async function snapshotRelease(ssh: SSHSession, signal?: AbortSignal): Promise<StepOutcome & { name: string }> {
+  const name = releaseName();
+  const dir = `${RELEASES_DIR}/${name}`;
+  const result = await ssh.run(
+    `mkdir -p ${dir} && cd ${REMOTE_DIR} && cp --parents ${RELEASE_FILES.join(" ")} ${dir}/ && ` +
+      `cd ${RELEASES_DIR} && ls -1 | sort | head -n -${RELEASES_KEPT} | xargs -r rm -rf --`,
+    { signal }
+  );
+  return { name, output: `Saved ${RELEASE_FILES.join(", ")} to ${dir}`, exitCode: result.exitCode };
+}
+
+// Runs the deploy as named steps, stopping at the first one that fails (a
+// non-zero exit, a timeout or an unhealthy service) and marking the rest
+// skipped. The returned result still carries the full log for callers that
+// only wait. The uploaded files are snapshotted as a release before the build,
+// so even a failed deploy can be inspected or restored.
+export async function deployToVPS(
+  config: SSHConfig,
+  ports: StackPorts,
+  plan: StackPlan,
+  options: DeployOptions = {}
+): Promise<DeployResult> {
+  const { onLog = () => {}, onSteps = () => {}, signal, seedWorkflows: seed } = options;
+  const runner = createStepRunner(seed ? [...DEPLOY_STEPS, "seed_workflows"] : DEPLOY_STEPS, onLog, onSteps);
+  const { runStep, info, logs, steps } = runner;
+  let release: string | null = null;
+
+  const files = stackFiles(ports, plan);
+  const external = reusedPostgres(plan);
+  const upload = async (
+    ssh: SSHSession,
+    entries: Array<[content: string, path: string]>,
+    options?: UploadOptions
+  ): Promise<StepOutcome> => {
+    for (const [content, path] of entries) {
+      await ssh.uploadFile(content, path, options);
     }
+    return { output: entries.map(([content, path]) => `Wrote ${path} (${Buffer.byteLength(content)} bytes)`).join("\n") };
+  };
+  const uploadFiles = (ssh: SSHSession, paths: string[]) =>
+    upload(ssh, paths.map((path) => [files[path], `${REMOTE_DIR}/${path}`]));
 
-    // Upload fetcher service files
-    logs.push("Uploading fetcher service...");
-    await uploadFile(client, generateFetcherDockerfile(), "/opt/rentalmonitor/fetcher/Dockerfile");
-    await uploadFile(client, generateFetcherPackageJson(), "/opt/rentalmonitor/fetcher/package.json");
-    await uploadFile(client, generateFetcherService(), "/opt/rentalmonitor/fetcher/index.js");
+  try {
+    return await withSession(config, async (ssh) => {
+      info("Connected to VPS");
 
-    // Create README
-    logs.push("Creating README...");
-    const readme = generateReadme(ports);
-    await uploadFile(client, readme, "/opt/rentalmonitor/README.md");
+      await runStep("mkdir", async () => {
+        const result = await ssh.run(`mkdir -p ${REMOTE_DIR}/{fetcher,logs,releases}`, { signal });
+        return { output: `Created ${REMOTE_DIR}/fetcher, logs and releases`, exitCode: result.exitCode };
+      });
 
-    // Start the stack
-    logs.push("Starting Docker Compose stack...");
-    const composeOutput = await execCommand(client, "cd /opt/rentalmonitor && docker compose up -d --build 2>&1");
-    logs.push(composeOutput);
+      await runStep("upload_compose", () => uploadFiles(ssh, ["docker-compose.yml", ".env.example", "README.md"]));
+
+      // Keep an existing .env, otherwise create one with generated secrets.
+      // The password of a reused Postgres can't be generated, so it has to
+      // be there already.
+      await runStep("upload_env", async () => {
+        const envCheck = await ssh.exec(`test -f ${REMOTE_DIR}/.env`, { signal });
+        const outcome =
+          envCheck.exitCode === 0
+            ? { output: ".env already exists, keeping existing configuration" }
+            : await upload(ssh, [[generateEnvFile(), `${REMOTE_DIR}/.env`]], { mode: SECRET_FILE_MODE });
+        if (external) {
+          const varCheck = await ssh.exec(`grep -q '^${external.passwordVar}=.' ${REMOTE_DIR}/.env`, { signal });
+          if (varCheck.exitCode !== 0) {
+            throw new Error(
+              `${external.passwordVar} is not set in ${REMOTE_DIR}/.env; add the password of the existing Postgres there`
+            );
+          }
+        }
+        return outcome;
+      });
+
+      await runStep("upload_fetcher", () =>
+        uploadFiles(ssh, ["fetcher/Dockerfile", "fetcher/package.json", "fetcher/index.js"])
+      );
+
+      release = (await runStep("snapshot", () => snapshotRelease(ssh, signal))).name;
+
+      const services = await startStack(ssh, runner, ports, plan, options);
+
+      if (seed && plan.n8n.mode === "deploy") {
+        const container = plan.n8n.containerName;
+        await runStep("seed_workflows", async () => {
+          const secret = await ssh.run(`grep '^FETCHER_SECRET=' ${REMOTE_DIR}/.env | cut -d= -f2-`, { signal });
+          if (!secret.stdout.trim()) {
+            throw new Error(`FETCHER_SECRET is not set in ${REMOTE_DIR}/.env, so the workflows can't call the fetcher`);
+          }
+          const { seeded, present } = await seedWorkflows(
+            ssh,
+            container,
+            seed,
+            [fetcherCredential(secret.stdout.trim())],
+            { onOutput: onLog, signal }
+          );
+          const output = [
+            seeded.length > 0 ? `Imported ${seeded.join(", ")}` : "No new workflows to import",
+            ...(present.length > 0 ? [`Already in n8n, left as they are: ${present.join(", ")}`] : []),
+          ].join("\n");
+          runner.logs.push(output);
+          return { output };
+        });
+      }
+      runner.skipPending();
+
+      return {
+        success: true,
+        message: "Deployment completed successfully",
+        logs,
+        steps,
+        services,
+        release,
+      };
+    });
+  } catch (error) {
+    return runner.fail(error, release);
+  }
+}
 
-    // Wait for services to start
-    logs.push("Waiting for services to start...");
-    await new Promise((resolve) => setTimeout(resolve, 10000));
+// Copies a release's files back over the live ones and restarts the stack
+// with them. The release's own ports and plan are waited on, since its compose
+// file has them baked in.
+export async function rollbackToRelease(
+  config: SSHConfig,
+  release: { name: string; ports: StackPorts; plan: StackPlan | null },
+  options: DeployOptions = {}
+): Promise<DeployResult> {
+  const { onLog = () => {}, onSteps = () => {}, signal } = options;
+  const runner = createStepRunner(ROLLBACK_STEPS, onLog, onSteps);
+  const dir = `${RELEASES_DIR}/${release.name}`;
 
-    // Check service health
-    logs.push("Checking service health...");
-    const psOutput = await execCommand(client, "cd /opt/rentalmonitor && docker compose ps --format json 2>/dev/null || docker compose ps");
-    logs.push(psOutput);
+  try {
+    return await withSession(config, async (ssh) => {
+      runner.info("Connected to VPS");
+
+      await runner.runStep("restore", async () => {
+        const check = await ssh.exec(`test -f ${dir}/docker-compose.yml`, { signal });
+        if (check.exitCode !== 0) {
+          throw new Error(`Release ${release.name} is no longer on the host`);
+        }
+        const result = await ssh.run(`cp -a ${dir}/. ${REMOTE_DIR}/`, { signal });
+        return { output: `Restored ${RELEASE_FILES.join(", ")} from ${dir}`, exitCode: result.exitCode };
+      });
 
-    // Test fetcher health endpoint
-    const fetcherHealth = await execCommand(client, `curl -s http://127.0.0.1:${ports.fetcher}/health 2>/dev/null || echo 'failed'`);
-    const fetcherRunning = fetcherHealth.includes("ok");
+      const services = await startStack(ssh, runner, release.ports, release.plan ?? defaultStackPlan(), options);
 
-    // Test ntfy health
-    const ntfyHealth = await execCommand(client, `curl -s http://127.0.0.1:${ports.ntfy}/v1/health 2>/dev/null || echo 'failed'`);
-    const ntfyRunning = ntfyHealth.includes("healthy") || !ntfyHealth.includes("failed");
+      return {
+        success: true,
+        message: `Rolled back to release ${release.name}`,
+        logs: runner.logs,
+        steps: runner.steps,
+        services,
+        release: release.name,
+      };
+    });
+  } catch (error) {
+    return runner.fail(error, release.name);
+  }
+}
 
-    // Check n8n
-    const n8nHealth = await execCommand(client, `curl -s http://127.0.0.1:${ports.n8n}/healthz 2>/dev/null || echo 'failed'`);
-    const n8nRunning = !n8nHealth.includes("failed");
+export interface UpgradeResult extends DeployResult {
+  // The upgrade failed and the service is back on its previous tag
+  reverted: boolean;
+}
 
-    // Check postgres
-    const postgresCheck = await execCommand(client, "docker exec rentalmonitor_postgres pg_isready -U rentalmonitor 2>/dev/null || echo 'failed'");
-    const postgresRunning = postgresCheck.includes("accepting connections");
+// Moves one service of the running stack (deployed with `plan`) to another
+// image tag: the compose file is rewritten with the new tag, the image pulled
+// and only that container recreated; --no-deps leaves Postgres alone when n8n
+// is upgraded. If the pull, recreate or health wait fails, the previous
+// compose file is put back and the container recreated from it.
+export async function upgradeService(
+  config: SSHConfig,
+  ports: StackPorts,
+  plan: StackPlan,
+  service: UpgradableService,
+  imageTag: string,
+  options: DeployOptions = {}
+): Promise<UpgradeResult> {
+  const { onLog = () => {}, onSteps = () => {}, signal, readyTimeoutMs = readyDeadlineMs() } = options;
+  const runner = createStepRunner(UPGRADE_STEPS, onLog, onSteps);
+  const upgraded: StackPlan = { ...plan, [service]: { ...plan[service], imageTag } };
+  const from = imageRef(plan, service);
+  const to = imageRef(upgraded, service);
+  const composePath = `${REMOTE_DIR}/docker-compose.yml`;
 
-    client.end();
+  try {
+    return await withSession(config, async (ssh) => {
+      runner.info(`Upgrading ${service} from ${from} to ${to}`);
+      const previous = await ssh.downloadFile(composePath);
+      if (previous === null) {
+        throw new Error(`${composePath} does not exist; deploy the stack first`);
+      }
 
-    return {
-      success: true,
-      message: "Deployment completed successfully",
-      logs,
-      services: {
-        postgres: { running: postgresRunning, healthy: postgresRunning },
-        n8n: { running: n8nRunning, healthy: n8nRunning, url: `http://127.0.0.1:${ports.n8n}` },
-        ntfy: { running: ntfyRunning, healthy: ntfyRunning, url: `http://127.0.0.1:${ports.ntfy}` },
-        fetcher: { running: fetcherRunning, healthy: fetcherRunning, url: `http://127.0.0.1:${ports.fetcher}` },
-      },
-    };
+      let services: ServicesHealth;
+      try {
+        await runner.runStep("upload_compose", async () => {
+          await ssh.uploadFile(generateDockerCompose(ports, upgraded), composePath);
+          return { output: `Set ${service} to ${to} in ${composePath}` };
+        });
+        await composeStep(ssh, runner, "pull", `docker compose pull ${service}`, options);
+        await composeStep(ssh, runner, "recreate", `docker compose up -d --no-deps ${service}`, options);
+        ({ services } = await runner.runStep("wait_healthy", async () => {
+          const ready = await waitForReady(ssh, REMOTE_DIR, ports, upgraded, {
+            deadlineMs: readyTimeoutMs,
+            onLog,
+            signal,
+            services: [service],
+          });
+          const output = `${service} healthy on ${to} after ${Math.round(ready.elapsedMs / 1000)}s`;
+          runner.logs.push(output);
+          return { output, services: ready.services };
+        }));
+      } catch (error) {
+        // Reverting runs even when the job was cancelled: a half-done upgrade
+        // leaves the compose file pointing at the new tag
+        let reverted: ServicesHealth | null = null;
+        try {
+          ({ services: reverted } = await runner.runStep("revert", async () => {
+            await ssh.uploadFile(previous, composePath);
+            const result = await ssh.run(`cd ${REMOTE_DIR} && docker compose up -d --no-deps ${service}`, {
+              onOutput: onLog,
+              timeoutMs: COMPOSE_TIMEOUT_MS,
+            });
+            const ready = await waitForReady(ssh, REMOTE_DIR, ports, plan, {
+              deadlineMs: readyTimeoutMs,
+              onLog,
+              services: [service],
+            });
+            return { output: `${commandOutput(result)}\n${service} is back on ${from}`.trim(), services: ready.services };
+          }));
+        } catch (revertError) {
+          runner.info(`Revert failed: ${(revertError as Error).message}`);
+        }
+        const failed = runner.fail(error, null);
+        return {
+          ...failed,
+          message: `${failed.message}; ${reverted ? `reverted to ${from}` : `reverting to ${from} failed too`}`,
+          services: reverted ?? failed.services,
+          reverted: reverted !== null,
+        };
+      }
+
+      const release = (await runner.runStep("snapshot", () => snapshotRelease(ssh, signal))).name;
+      runner.skipPending();
+      return {
+        success: true,
+        message: `Upgraded ${service} to ${to}`,
+        logs: runner.logs,
+        steps: runner.steps,
+        services,
+        release,
+        reverted: false,
+      };
+    });
   } catch (error) {
-    client.end();
-    logs.push(`Error: ${(error as Error).message}`);
-    return {
-      success: false,
-      message: (error as Error).message,
-      logs,
-      services: {
-        postgres: { running: false, healthy: false },
-        n8n: { running: false, healthy: false },
-        ntfy: { running: false, healthy: false },
-        fetcher: { running: false, healthy: false },
-      },
-    };
+    return { ...runner.fail(error, null), reverted: false };
+  }
+}
+
+// A compose file's service definitions by name, as text. Only the layout the
+// generated file uses is understood: services as two-space indented keys
+// under the top-level `services:`.
+function composeServices(compose: string): Map<string, string> {
+  const services = new Map<string, string>();
+  let inServices = false;
+  let current: string | null = null;
+
+  for (const line of compose.split("\n")) {
+    if (/^\S/.test(line)) {
+      inServices = line.startsWith("services:");
+      current = null;
+      continue;
+    }
+    if (!inServices) continue;
+    const name = line.match(/^  ([\w.-]+):\s*$/)?.[1];
+    if (name) {
+      current = name;
+      services.set(name, "");
+    } else if (current && line.trim()) {
+      services.set(current, `${services.get(current)}${line.trimEnd()}\n`);
+    }
   }
+  return services;
+}
+
+// Dry run: compares the generated files with the ones on the host and works
+// out which containers `docker compose up -d` would touch. Nothing on the host
+// is changed, and the remote .env is only checked for existence.
+export async function planDeploy(
+  config: SSHConfig,
+  ports: StackPorts,
+  plan: StackPlan,
+  signal?: AbortSignal
+): Promise<DeployPlan> {
+  return withSession(config, async (ssh) => {
+    const files: DeployPlanFile[] = [];
+    const remote = new Map<string, string | null>();
+
+    for (const [path, content] of Object.entries(stackFiles(ports, plan))) {
+      signal?.throwIfAborted();
+      const current = await ssh.downloadFile(`${REMOTE_DIR}/${path}`);
+      remote.set(path, current);
+      files.push({
+        path,
+        status: current === null ? "added" : current === content ? "unchanged" : "changed",
+        diff:
+          current === content
+            ? ""
+            : createTwoFilesPatch(`a/${path}`, `b/${path}`, current ?? "", content, undefined, undefined, { context: 3 }),
+      });
+    }
+
+    const envExists = (await ssh.exec(`test -f ${REMOTE_DIR}/.env`, { signal })).exitCode === 0;
+    files.push({ path: ".env", status: envExists ? "unchanged" : "added", diff: "" });
+
+    const ps = await ssh.exec(`cd ${REMOTE_DIR} 2>/dev/null && docker compose ps --all --format json`, { signal });
+    const containers = parseComposePs(ps.stdout);
+    const before = composeServices(remote.get("docker-compose.yml") ?? "");
+    const fetcherChanged = files.some((file) => file.path.startsWith("fetcher/") && file.status !== "unchanged");
+
+    const after = composeServices(generateDockerCompose(ports, plan));
+    const services: DeployPlanService[] = Array.from(after).map(
+      ([service, definition]) => {
+        const container = containers.find((candidate) => candidate.service === service);
+        if (!container) return { service, action: "create", reason: "No container yet" };
+        if (before.get(service) !== definition) {
+          return { service, action: "recreate", reason: "Service definition in docker-compose.yml changed" };
+        }
+        if (!envExists && definition.includes("${")) {
+          return { service, action: "recreate", reason: "A new .env with fresh secrets will be generated" };
+        }
+        if (service === "fetcher" && fetcherChanged) {
+          return { service, action: "rebuild", reason: "Fetcher image is rebuilt from changed files" };
+        }
+        if (container.state !== "running") {
+          return { service, action: "start", reason: `Container is ${container.state}` };
+        }
+        return { service, action: "unchanged", reason: "Up to date" };
+      }
+    );
+    for (const container of containers) {
+      if (!after.has(container.service)) {
+        services.push({ service: container.service, action: "remove", reason: "No longer deployed by the stack plan" });
+      }
+    }
+
+    return { files, services };
+  });
 }
 
-function generateReadme(ports: { postgres: number; n8n: number; ntfy: number; fetcher: number }): string {
+// No generation timestamp: the README is a release file, and a dry run has to
+// be able to report it unchanged
+function generateReadme(ports: StackPorts, plan: StackPlan): string {
+  const n8n = serviceEndpoint(plan, "n8n", ports).url;
+  const ntfy = serviceEndpoint(plan, "ntfy", ports).url;
+  const fetcher = serviceEndpoint(plan, "fetcher", ports).url;
+  const row = (service: keyof StackPlan, label: string, port: string, description: string) =>
+    plan[service].mode === "skip"
+      ? ""
+      : `| ${label} | ${plan[service].mode === "reuse" ? "Existing" : port} | ${description} |\n`;
+
   return `# LivingRental Alert - VPS Infrastructure
 
 ## Services
 
 | Service | Local Port | Description |
 |---------|------------|-------------|
-| Postgres | Internal | Database for n8n workflows |
-| n8n | ${ports.n8n} | Workflow automation |
-| ntfy | ${ports.ntfy} | Push notifications |
-| Fetcher | ${ports.fetcher} | Web scraping microservice |
+${row("postgres", "Postgres", "Internal", "Database for n8n workflows")}${row("n8n", "n8n", String(ports.n8n), "Workflow automation")}${row("ntfy", "ntfy", String(ports.ntfy), "Push notifications")}${row("fetcher", "Fetcher", String(ports.fetcher), "Web scraping microservice")}
 
 ## Quick Start
 
 1. Configure your reverse proxy (see config snippet in dashboard)
-2. Test ntfy: \`curl -d "Hello" http://127.0.0.1:${ports.ntfy}/strijps\`
+2. Test ntfy: \`curl -d "Hello" ${ntfy}/strijps\`
 3. Subscribe on iPhone/iPad: ntfy app → Add topic → "strijps"
-4. Access n8n: http://127.0.0.1:${ports.n8n} (user: admin)
+4. Access n8n: ${n8n} (user: admin)
 
 ## Fetcher API
 
 \`\`\`bash
 # Health check
-curl http://127.0.0.1:${ports.fetcher}/health
+curl ${fetcher}/health
 
 # Fetch with HTTP
-curl -X POST http://127.0.0.1:${ports.fetcher}/fetch \\
+curl -X POST ${fetcher}/fetch \\
   -H "Content-Type: application/json" \\
   -H "X-Fetcher-Secret: YOUR_SECRET" \\
   -d '{"url": "https://example.com", "mode": "http"}'
 
 # Fetch with browser (Playwright)
-curl -X POST http://127.0.0.1:${ports.fetcher}/fetch \\
+curl -X POST ${fetcher}/fetch \\
   -H "Content-Type: application/json" \\
   -H "X-Fetcher-Secret: YOUR_SECRET" \\
   -d '{"url": "https://example.com", "mode": "browser"}'
@@ -530,44 +1059,14 @@ cd /opt/rentalmonitor
 docker compose stop
 docker compose start
 \`\`\`
-
-Generated: ${new Date().toISOString()}
 `;
 }
 
 export async function checkVPSServices(
   config: SSHConfig,
-  ports: { postgres: number; n8n: number; ntfy: number; fetcher: number }
-): Promise<DeployResult["services"]> {
-  const client = await connectSSH(config);
-
-  try {
-    // Test fetcher health endpoint
-    const fetcherHealth = await execCommand(client, `curl -s http://127.0.0.1:${ports.fetcher}/health 2>/dev/null || echo 'failed'`);
-    const fetcherRunning = fetcherHealth.includes("ok");
-
-    // Test ntfy health
-    const ntfyHealth = await execCommand(client, `curl -s http://127.0.0.1:${ports.ntfy}/v1/health 2>/dev/null || echo 'failed'`);
-    const ntfyRunning = ntfyHealth.includes("healthy") || !ntfyHealth.includes("failed");
-
-    // Check n8n
-    const n8nHealth = await execCommand(client, `curl -s http://127.0.0.1:${ports.n8n}/healthz 2>/dev/null || echo 'failed'`);
-    const n8nRunning = !n8nHealth.includes("failed");
-
-    // Check postgres
-    const postgresCheck = await execCommand(client, "docker exec rentalmonitor_postgres pg_isready -U rentalmonitor 2>/dev/null || echo 'failed'");
-    const postgresRunning = postgresCheck.includes("accepting connections");
-
-    client.end();
-
-    return {
-      postgres: { running: postgresRunning, healthy: postgresRunning },
-      n8n: { running: n8nRunning, healthy: n8nRunning, url: `http://127.0.0.1:${ports.n8n}` },
-      ntfy: { running: ntfyRunning, healthy: ntfyRunning, url: `http://127.0.0.1:${ports.ntfy}` },
-      fetcher: { running: fetcherRunning, healthy: fetcherRunning, url: `http://127.0.0.1:${ports.fetcher}` },
-    };
-  } catch (error) {
-    client.end();
-    throw error;
-  }
+  ports: StackPorts,
+  plan: StackPlan,
+  signal?: AbortSignal
+): Promise<ServicesHealth> {
+  return withSession(config, (ssh) => probeServices(ssh, REMOTE_DIR, ports, plan, signal));
 }
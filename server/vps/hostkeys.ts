@@ -0,0 +1,103 @@
+import { createHash } from "crypto";
+import type { Host, HostKey } from "@shared/schema";
+import { connectSSH, type SSHConfig } from "./ssh";
+import { storage } from "../storage";
+import { log } from "../log";
+
+export class HostKeyMismatchError extends Error {
+  constructor(
+    readonly hostName: string,
+    readonly pinned: HostKey,
+    readonly presented: HostKey
+  ) {
+    super(
+      `Host key for ${hostName} has changed: pinned ${pinned.type} ${pinned.fingerprint}, ` +
+        `server presented ${presented.type} ${presented.fingerprint}. ` +
+        `If the server was reinstalled, re-trust its key on the Hosts tab.`
+    );
+    this.name = "HostKeyMismatchError";
+  }
+}
+
+export class HostKeyConfirmationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HostKeyConfirmationError";
+  }
+}
+
+// Keys arrive in SSH wire format, which starts with the length-prefixed
+// algorithm name; the fingerprint matches `ssh-keygen -lf` on the server
+export function describeHostKey(key: Buffer): HostKey {
+  const typeLength = key.readUInt32BE(0);
+  return {
+    type: key.subarray(4, 4 + typeLength).toString("ascii"),
+    fingerprint: `SHA256:${createHash("sha256").update(key).digest("base64").replace(/=+$/, "")}`,
+  };
+}
+
+export function pinnedHostKey(host: Host): HostKey | null {
+  return host.hostKeyFingerprint
+    ? { type: host.hostKeyType ?? "unknown", fingerprint: host.hostKeyFingerprint }
+    : null;
+}
+
+// Trust on first use: the first key a host presents is pinned and any other
+// key is refused afterwards. The host is re-read on every connection so a
+// re-trust takes effect for configs built before it.
+export function hostKeyVerifier(host: Pick<Host, "id" | "name">): (key: Buffer) => Promise<void> {
+  return async (key) => {
+    const presented = describeHostKey(key);
+    const current = await storage.getHost(host.id);
+    if (!current) {
+      throw new Error(`Host ${host.name} no longer exists`);
+    }
+
+    const pinned = pinnedHostKey(current);
+    if (!pinned) {
+      await storage.setHostKey(host.id, presented);
+      log(`Pinned ${presented.type} host key ${presented.fingerprint} for ${host.name}`, "hosts");
+      return;
+    }
+    if (pinned.fingerprint !== presented.fingerprint) {
+      throw new HostKeyMismatchError(host.name, pinned, presented);
+    }
+  };
+}
+
+// Runs the key exchange only (through the jump host, if any) and reports the
+// key the server presents, without authenticating or changing what is pinned
+export async function scanHostKey(config: SSHConfig): Promise<HostKey> {
+  let presented: HostKey | null = null;
+  try {
+    const client = await connectSSH({
+      ...config,
+      verifyHostKey: async (key) => {
+        presented = describeHostKey(key);
+        throw new Error("Host key scanned");
+      },
+    });
+    client.end();
+  } catch (error) {
+    if (!presented) throw error;
+  }
+  if (!presented) {
+    throw new Error(`${config.host} did not present a host key`);
+  }
+  return presented;
+}
+
+// Re-trust: pins the server's current key, but only if it is the one the user
+// was shown and confirmed, so a key swapped in between is not accepted
+export async function trustHostKey(host: Host, config: SSHConfig, fingerprint: string): Promise<Host | undefined> {
+  const presented = await scanHostKey(config);
+  if (presented.fingerprint !== fingerprint) {
+    throw new HostKeyConfirmationError(
+      `${host.name} now presents ${presented.type} ${presented.fingerprint}, not the confirmed ${fingerprint}`
+    );
+  }
+
+  const updated = await storage.setHostKey(host.id, presented);
+  log(`Re-trusted ${presented.type} host key ${presented.fingerprint} for ${host.name}`, "hosts");
+  return updated;
+}
@@ -0,0 +1,29 @@
+import type { Host } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../log";
+
+// Seeds the inventory from the VPS_PERSONAL_* secrets on first start, so a
+// setup that predates the hosts table keeps working without any clicks
+export async function ensureEnvHost(): Promise<Host | undefined> {
+  const existing = await storage.listHosts();
+  if (existing.length > 0) return undefined;
+
+  const address = process.env.VPS_PERSONAL_IP;
+  const username = process.env.VPS_PERSONAL_USER;
+  if (!address || !username) return undefined;
+
+  const host = await storage.createHost({
+    name: "VPS",
+    address,
+    username,
+    keyRef: "VPS_SSH_PRIVATE_KEY",
+    primary: true,
+  });
+  log(`Added host "${host.name}" (${address}) from VPS_PERSONAL_* secrets`, "hosts");
+  return host;
+}
+
+// An explicit id must exist; without one the primary host is used
+export async function resolveHost(hostId?: string | null): Promise<Host | undefined> {
+  return hostId ? storage.getHost(hostId) : storage.getPrimaryHost();
+}
@@ -0,0 +1,88 @@
+import type { ServiceImage, StackPlan } from "@shared/schema";
+import { shellQuote, withSession, type SSHConfig } from "./ssh";
+import { imageRef, servicesInMode } from "./stack";
+
+const INSPECT_TIMEOUT_MS = 15000;
+
+interface InspectedContainer {
+  Name?: string;
+  // Id of the image the container was created from
+  Image?: string;
+  Config?: { Image?: string };
+}
+
+interface InspectedImage {
+  Id?: string;
+  RepoTags?: string[] | null;
+  RepoDigests?: string[] | null;
+}
+
+// `docker inspect` prints what it found even when some names are missing (and
+// exits non-zero), so the output is used regardless of the exit code
+function parseInspect<T>(output: string): T[] {
+  try {
+    const parsed = JSON.parse(output.trim() || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// "sha256:..." from the first "repo@sha256:..." entry
+function digestOf(image: InspectedImage | undefined): string | null {
+  return image?.RepoDigests?.[0]?.split("@")[1] ?? null;
+}
+
+// Compares the image each service is configured with (`configured`, the plan
+// the next deploy uses) to the image its container runs (found by the names in
+// `running`, the plan the stack was deployed with). Nothing is pulled, so a
+// tag that was never pulled on the host shows as not_pulled.
+export async function inspectImages(
+  config: SSHConfig,
+  configured: StackPlan,
+  running: StackPlan,
+  signal?: AbortSignal
+): Promise<ServiceImage[]> {
+  const services = servicesInMode(configured, "deploy");
+  const containerNames = services.map((service) =>
+    running[service].mode === "deploy" ? running[service].containerName : configured[service].containerName
+  );
+  const refs = services.map((service) => imageRef(configured, service));
+
+  return withSession(config, async (ssh) => {
+    const containerOutput = await ssh.exec(`docker inspect --type container ${containerNames.join(" ")} 2>/dev/null`, {
+      signal,
+      timeoutMs: INSPECT_TIMEOUT_MS,
+    });
+    const containers = parseInspect<InspectedContainer>(containerOutput.stdout);
+    const runningIds = containers.map((container) => container.Image).filter((id): id is string => Boolean(id));
+
+    const imageOutput = await ssh.exec(`docker image inspect ${[...refs.map(shellQuote), ...runningIds].join(" ")} 2>/dev/null`, {
+      signal,
+      timeoutMs: INSPECT_TIMEOUT_MS,
+    });
+    const images = parseInspect<InspectedImage>(imageOutput.stdout);
+
+    return services.map((service, index): ServiceImage => {
+      const container = containers.find((candidate) => candidate.Name === `/${containerNames[index]}`);
+      const configuredImage = images.find((image) => image.RepoTags?.includes(refs[index]));
+      const runningImage = container && images.find((image) => image.Id === container.Image);
+
+      let status: ServiceImage["status"];
+      if (!container) status = "not_running";
+      else if (service === "fetcher") status = "built";
+      else if (!configuredImage) status = "not_pulled";
+      else status = configuredImage.Id === container.Image ? "current" : "outdated";
+
+      return {
+        service,
+        container: containerNames[index],
+        configured: refs[index],
+        configuredDigest: digestOf(configuredImage),
+        running: container?.Config?.Image ?? null,
+        runningDigest: digestOf(runningImage),
+        status,
+      };
+    });
+  });
+}
@@ -0,0 +1,287 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import type { Host, Job, JobLogLine } from "@shared/schema";
+import { log } from "../log";
+
+// Jobs are kept in memory only: they exist to serialize work per host and to
+// watch it live; outcomes are persisted by the tasks themselves (deployment
+// status, preflight scans).
+const MAX_LINES = 5000;
+const MAX_JOBS = 50;
+
+const KIND_LABEL: Record<Job["kind"], string> = {
+  preflight: "preflight scan",
+  deploy: "deploy",
+  rollback: "rollback",
+  upgrade: "upgrade",
+  backup: "backup",
+  restore: "restore",
+  workflow_export: "workflow export",
+  workflow_import: "workflow import",
+  health_check: "health check",
+};
+
+export type JobLogger = (stream: JobLogLine["stream"], text: string) => void;
+
+export interface JobContext {
+  log: JobLogger;
+  // Aborted when the job is cancelled; tasks pass it down to their SSH calls
+  signal: AbortSignal;
+}
+
+export interface JobOutcome<T = unknown> {
+  success: boolean;
+  message: string;
+  result: T;
+}
+
+export type JobEvent =
+  | { type: "log"; line: JobLogLine }
+  | { type: "done"; job: Job; result: unknown };
+
+export class JobConflictError extends Error {
+  constructor(readonly active: Job) {
+    super(`A ${KIND_LABEL[active.kind]} is already ${active.status} on ${active.hostName}`);
+    this.name = "JobConflictError";
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+interface JobEntry {
+  job: Job;
+  lines: JobLogLine[];
+  nextSeq: number;
+  result: unknown;
+  events: EventEmitter;
+  controller: AbortController;
+  task: (context: JobContext) => Promise<JobOutcome>;
+  settled: Promise<void>;
+  settle: () => void;
+}
+
+const jobs = new Map<string, JobEntry>();
+const queued = new Map<string, JobEntry[]>();
+const running = new Map<string, JobEntry>();
+
+function update(entry: JobEntry, changes: Partial<Job>) {
+  entry.job = { ...entry.job, ...changes };
+}
+
+function appendLine(entry: JobEntry, stream: JobLogLine["stream"], text: string) {
+  const line: JobLogLine = { seq: entry.nextSeq++, stream, text, at: new Date().toISOString() };
+  entry.lines.push(line);
+  if (entry.lines.length > MAX_LINES) {
+    entry.lines.shift();
+  }
+  entry.events.emit("event", { type: "log", line } satisfies JobEvent);
+}
+
+function finish(entry: JobEntry, status: Job["status"], message: string, result: unknown) {
+  update(entry, { status, message, finishedAt: new Date().toISOString() });
+  entry.result = result;
+  entry.events.emit("event", { type: "done", job: entry.job, result } satisfies JobEvent);
+  entry.events.removeAllListeners();
+  entry.settle();
+}
+
+function prune() {
+  const finished = Array.from(jobs.values()).filter((entry) => entry.job.finishedAt !== null);
+  for (const entry of finished.slice(0, Math.max(0, jobs.size - MAX_JOBS))) {
+    jobs.delete(entry.job.id);
+  }
+}
+
+function startNext(hostId: string) {
+  if (running.has(hostId)) return;
+
+  const queue = queued.get(hostId) ?? [];
+  const entry = queue.shift();
+  if (queue.length === 0) queued.delete(hostId);
+  if (!entry) return;
+
+  running.set(hostId, entry);
+  update(entry, { status: "running", startedAt: new Date().toISOString() });
+  const { signal } = entry.controller;
+
+  entry
+    .task({ log: (stream, text) => appendLine(entry, stream, text), signal })
+    .then(
+      (outcome) => {
+        if (signal.aborted) finish(entry, "cancelled", "Cancelled", outcome.result);
+        else finish(entry, outcome.success ? "success" : "error", outcome.message, outcome.result);
+      },
+      (error) => {
+        if (signal.aborted) {
+          finish(entry, "cancelled", "Cancelled", null);
+          return;
+        }
+        const message = (error as Error).message;
+        appendLine(entry, "stderr", `Error: ${message}`);
+        log(`${KIND_LABEL[entry.job.kind]} job ${entry.job.id} failed: ${message}`, "jobs");
+        finish(entry, "error", message, null);
+      }
+    )
+    .finally(() => {
+      running.delete(hostId);
+      startNext(hostId);
+    });
+}
+
+// Jobs on the same host run one at a time. Unless `queue` is set, a job
+// submitted while another is queued or running there is rejected with a
+// JobConflictError naming the job in the way.
+export function submitJob<T>(
+  kind: Job["kind"],
+  host: Pick<Host, "id" | "name">,
+  task: (context: JobContext) => Promise<JobOutcome<T>>,
+  options: { queue?: boolean } = {}
+): Job {
+  const busy = activeHostJob(host.id);
+  if (busy && !options.queue) {
+    throw new JobConflictError(busy);
+  }
+
+  let settle = () => {};
+  const settled = new Promise<void>((resolve) => (settle = resolve));
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      kind,
+      hostId: host.id,
+      hostName: host.name,
+      status: "queued",
+      message: busy ? `Waiting for ${KIND_LABEL[busy.kind]} ${busy.id}` : null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    },
+    lines: [],
+    nextSeq: 1,
+    result: null,
+    events: new EventEmitter(),
+    controller: new AbortController(),
+    task,
+    settled,
+    settle,
+  };
+  entry.events.setMaxListeners(0);
+
+  jobs.set(entry.job.id, entry);
+  queued.set(host.id, [...(queued.get(host.id) ?? []), entry]);
+  prune();
+  startNext(host.id);
+
+  return entry.job;
+}
+
+// Whether a job is running or waiting on the host
+export function isHostBusy(hostId: string): boolean {
+  return running.has(hostId) || (queued.get(hostId)?.length ?? 0) > 0;
+}
+
+// The job running on the host, or else the first one waiting there
+export function activeHostJob(hostId: string): Job | undefined {
+  return (running.get(hostId) ?? queued.get(hostId)?.[0])?.job;
+}
+
+export function getJob(id: string): { job: Job; lines: JobLogLine[]; result: unknown } | undefined {
+  const entry = jobs.get(id);
+  return entry && { job: entry.job, lines: entry.lines, result: entry.result };
+}
+
+export function listJobs(filters: {
+  hostId?: string;
+  kind?: Job["kind"];
+  status?: Job["status"];
+  limit: number;
+}): Job[] {
+  return Array.from(jobs.values())
+    .map((entry) => entry.job)
+    .filter(
+      (job) =>
+        (!filters.hostId || job.hostId === filters.hostId) &&
+        (!filters.kind || job.kind === filters.kind) &&
+        (!filters.status || job.status === filters.status)
+    )
+    .reverse()
+    .slice(0, filters.limit);
+}
+
+// Resolves once the job has finished, with its final state and result
+export async function waitForJob(id: string): Promise<{ job: Job; result: unknown }> {
+  const entry = jobs.get(id);
+  if (!entry) {
+    throw new Error("Job not found");
+  }
+  await entry.settled;
+  return { job: entry.job, result: entry.result };
+}
+
+// A queued job is dropped straight away; a running one has its signal
+// aborted and is marked cancelled once its task has unwound
+export function cancelJob(id: string): Job | undefined {
+  const entry = jobs.get(id);
+  if (!entry) return undefined;
+
+  if (entry.job.status === "queued") {
+    const queue = (queued.get(entry.job.hostId) ?? []).filter((other) => other !== entry);
+    if (queue.length > 0) queued.set(entry.job.hostId, queue);
+    else queued.delete(entry.job.hostId);
+    finish(entry, "cancelled", "Cancelled before it started", null);
+  } else if (entry.job.status === "running" && !entry.controller.signal.aborted) {
+    appendLine(entry, "info", "Cancelling...");
+    update(entry, { message: "Cancelling..." });
+    entry.controller.abort(new JobCancelledError());
+  }
+
+  return entry.job;
+}
+
+// Replays the buffered lines after `afterSeq` and then follows the job live,
+// ending with a single "done" event. Aborting `signal` (the client went away)
+// ends the stream early.
+export async function* streamJob(id: string, afterSeq = 0, signal?: AbortSignal): AsyncGenerator<JobEvent> {
+  const entry = jobs.get(id);
+  if (!entry) return;
+
+  const queue: JobEvent[] = entry.lines
+    .filter((line) => line.seq > afterSeq)
+    .map((line) => ({ type: "log", line }));
+
+  if (entry.job.finishedAt !== null) {
+    yield* queue;
+    yield { type: "done", job: entry.job, result: entry.result };
+    return;
+  }
+
+  let wake: (() => void) | null = null;
+  const listener = (event: JobEvent) => {
+    queue.push(event);
+    wake?.();
+  };
+  const abort = () => wake?.();
+  entry.events.on("event", listener);
+  signal?.addEventListener("abort", abort);
+
+  try {
+    while (!signal?.aborted) {
+      const event = queue.shift();
+      if (!event) {
+        await new Promise<void>((resolve) => (wake = resolve));
+        wake = null;
+        continue;
+      }
+      yield event;
+      if (event.type === "done") return;
+    }
+  } finally {
+    entry.events.off("event", listener);
+    signal?.removeEventListener("abort", abort);
+  }
+}
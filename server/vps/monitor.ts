@@ -0,0 +1,278 @@
+import {
+  serviceNames,
+  type HealthSample,
+  type Host,
+  type ServiceName,
+  type ServicesHealth,
+  type ServiceUptime,
+  type UptimeWindow,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { publishNtfy } from "../notify";
+import { getSSHConfig } from "./config";
+import { checkVPSServices } from "./deploy";
+import { deployedStackPlan } from "./stack";
+import { isHostBusy } from "./jobs";
+import { log } from "../log";
+
+const HOUR_MS = 60 * 60 * 1000;
+const CHECK_TIMEOUT_MS = 60 * 1000;
+// Samples are kept a day past the longest uptime window
+const RETENTION_MS = 8 * 24 * HOUR_MS;
+
+// A change of state is only reported once it has held for this many samples
+// in a row, and each service gets at most one alert per cooldown, so a flapping
+// service doesn't flood the topic
+const DOWN_AFTER_SAMPLES = 2;
+const UP_AFTER_SAMPLES = 2;
+const ALERT_COOLDOWN_MS = 15 * 60 * 1000;
+
+const UPTIME_WINDOWS: Record<UptimeWindow, { durationMs: number; bucketMs: number }> = {
+  "24h": { durationMs: 24 * HOUR_MS, bucketMs: HOUR_MS / 2 },
+  "7d": { durationMs: 7 * 24 * HOUR_MS, bucketMs: 3 * HOUR_MS },
+};
+
+interface AlertState {
+  // Last state alerted on; the first sample sets it without an alert
+  notified: "up" | "down";
+  notifiedAt: number;
+  // Consecutive samples disagreeing with `notified`
+  streak: number;
+}
+
+let timer: NodeJS.Timeout | null = null;
+let startedAt: Date | null = null;
+let lastRunAt: Date | null = null;
+let checking = false;
+const alertStates = new Map<string, Map<ServiceName, AlertState>>();
+
+export interface HealthMonitorState {
+  running: boolean;
+  intervalSeconds: number;
+  startedAt: string | null;
+  lastRunAt: string | null;
+}
+
+function monitorIntervalMs(): number {
+  const seconds = parseInt(process.env.HEALTH_MONITOR_INTERVAL_SECONDS ?? "", 10);
+  return (Number.isNaN(seconds) ? 120 : Math.max(0, seconds)) * 1000;
+}
+
+function alertTopic(): string {
+  return process.env.HEALTH_ALERT_TOPIC || "strijps";
+}
+
+function scheduleNext() {
+  timer = setTimeout(() => {
+    void checkAllHosts().finally(() => {
+      if (timer) scheduleNext();
+    });
+  }, monitorIntervalMs());
+}
+
+async function checkAllHosts() {
+  if (checking) return;
+  checking = true;
+
+  try {
+    const hosts = await storage.listHosts();
+    const hostIds = new Set(hosts.map((host) => host.id));
+    Array.from(alertStates.keys())
+      .filter((hostId) => !hostIds.has(hostId))
+      .forEach((hostId) => alertStates.delete(hostId));
+
+    for (const host of hosts) {
+      try {
+        await checkHost(host);
+      } catch (error) {
+        log(`${host.name}: ${(error as Error).message}`, "monitor");
+      }
+    }
+
+    await storage.pruneHealthSamples(new Date(Date.now() - RETENTION_MS));
+  } catch (error) {
+    log(`Check failed: ${(error as Error).message}`, "monitor");
+  } finally {
+    checking = false;
+    lastRunAt = new Date();
+  }
+}
+
+// Only stacks that have been deployed are checked, and never while a job (a
+// deploy, say) is working on the host
+async function checkHost(host: Host) {
+  const status = await storage.getDeploymentStatus(host.id);
+  const scan = await storage.getLatestPreflightScan(host.id);
+  if (!status?.lastDeploy || !scan || isHostBusy(host.id)) return;
+
+  let services: ServicesHealth | null = null;
+  let error: string | null = null;
+  try {
+    const config = await getSSHConfig(host);
+    services = await checkVPSServices(
+      config,
+      scan.result.safePlan.portsToUse,
+      await deployedStackPlan(host),
+      AbortSignal.timeout(CHECK_TIMEOUT_MS)
+    );
+  } catch (checkError) {
+    error = (checkError as Error).message;
+  }
+
+  await storage.recordHealthSample({ hostId: host.id, services, error });
+
+  // The dashboard's service cards follow the monitor, but only changes are
+  // written so the status history isn't one row per check
+  if (services && healthChanged(status.services, services)) {
+    await storage.recordDeploymentStatus(host.id, {
+      ...((await storage.getDeploymentStatus(host.id)) ?? status),
+      services,
+    });
+  }
+
+  await alertOnTransitions(host, services, error);
+}
+
+function healthChanged(previous: ServicesHealth | undefined, next: ServicesHealth): boolean {
+  return serviceNames.some(
+    (name) => previous?.[name]?.healthy !== next[name].healthy || previous?.[name]?.state !== next[name].state
+  );
+}
+
+async function alertOnTransitions(host: Host, services: ServicesHealth | null, error: string | null) {
+  const states = alertStates.get(host.id) ?? new Map<ServiceName, AlertState>();
+  alertStates.set(host.id, states);
+  const now = Date.now();
+  const down: string[] = [];
+  const recovered: string[] = [];
+
+  for (const name of serviceNames) {
+    // A service the plan skips is neither up nor down; if it comes back it
+    // starts from a fresh baseline
+    if (services?.[name].mode === "skip") {
+      states.delete(name);
+      continue;
+    }
+    const current = services?.[name].healthy ? "up" : "down";
+    const state = states.get(name);
+    if (!state) {
+      states.set(name, { notified: current, notifiedAt: 0, streak: 0 });
+      continue;
+    }
+
+    state.streak = current === state.notified ? 0 : state.streak + 1;
+    const held = state.streak >= (current === "down" ? DOWN_AFTER_SAMPLES : UP_AFTER_SAMPLES);
+    if (!held || now - state.notifiedAt < ALERT_COOLDOWN_MS) continue;
+
+    Object.assign(state, { notified: current, notifiedAt: now, streak: 0 });
+    if (current === "up") {
+      recovered.push(name);
+    } else {
+      const reason = services ? services[name].lastError : `health check failed: ${error}`;
+      down.push(reason ? `${name}: ${reason}` : name);
+    }
+  }
+
+  if (down.length > 0) {
+    await sendAlert(host, {
+      title: `${host.name}: ${down.length === 1 ? "service" : "services"} down`,
+      message: down.join("\n"),
+      priority: 5,
+      tags: ["rotating_light"],
+    });
+  }
+  if (recovered.length > 0) {
+    await sendAlert(host, {
+      title: `${host.name}: ${recovered.join(", ")} recovered`,
+      message: `${recovered.join(", ")} ${recovered.length === 1 ? "is" : "are"} healthy again`,
+      priority: 3,
+      tags: ["white_check_mark"],
+    });
+  }
+}
+
+async function sendAlert(host: Host, content: { title: string; message: string; priority: number; tags: string[] }) {
+  try {
+    await publishNtfy({ topic: alertTopic(), ...content }, {}, host);
+    log(`${content.title} (alert sent)`, "monitor");
+  } catch (error) {
+    log(`${content.title} (alert failed: ${(error as Error).message})`, "monitor");
+  }
+}
+
+// Starts checking every deployed host at HEALTH_MONITOR_INTERVAL_SECONDS
+// (default 120; 0 disables the monitor)
+export function startHealthMonitor(): HealthMonitorState {
+  if (!timer && monitorIntervalMs() > 0) {
+    startedAt = new Date();
+    scheduleNext();
+    log(`Checking deployed hosts every ${monitorIntervalMs() / 1000}s`, "monitor");
+  }
+  return getHealthMonitorState();
+}
+
+export function stopHealthMonitor(): HealthMonitorState {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+    startedAt = null;
+  }
+  return getHealthMonitorState();
+}
+
+export function getHealthMonitorState(): HealthMonitorState {
+  return {
+    running: timer !== null,
+    intervalSeconds: monitorIntervalMs() / 1000,
+    startedAt: startedAt?.toISOString() ?? null,
+    lastRunAt: lastRunAt?.toISOString() ?? null,
+  };
+}
+
+export function uptimeWindowStart(window: UptimeWindow, now = Date.now()): Date {
+  const { durationMs, bucketMs } = UPTIME_WINDOWS[window];
+  // Aligned to the bucket size so buckets don't shift between refreshes
+  return new Date(Math.floor((now - durationMs) / bucketMs) * bucketMs + bucketMs);
+}
+
+// Uptime per service over the window, overall and per time bucket. A sample
+// whose check failed counts as every service down; one taken while the stack
+// plan skipped the service doesn't count.
+export function summarizeUptime(
+  samples: HealthSample[],
+  window: UptimeWindow,
+  now = Date.now()
+): Record<ServiceName, ServiceUptime> {
+  const { bucketMs } = UPTIME_WINDOWS[window];
+  const since = uptimeWindowStart(window, now).getTime();
+  const bucketCount = Math.ceil((now - since) / bucketMs);
+
+  const summarize = (name: ServiceName): ServiceUptime => {
+    const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+      start: new Date(since + index * bucketMs).toISOString(),
+      samples: 0,
+      healthy: 0,
+    }));
+    for (const sample of samples) {
+      const bucket = buckets[Math.floor((sample.checkedAt.getTime() - since) / bucketMs)];
+      if (!bucket || sample.services?.[name].mode === "skip") continue;
+      bucket.samples++;
+      if (sample.services?.[name].healthy) bucket.healthy++;
+    }
+
+    const total = buckets.reduce((sum, bucket) => sum + bucket.samples, 0);
+    const healthy = buckets.reduce((sum, bucket) => sum + bucket.healthy, 0);
+    return {
+      uptimePercent: total > 0 ? Math.round((healthy / total) * 10000) / 100 : null,
+      samples: total,
+      buckets,
+    };
+  };
+
+  return {
+    postgres: summarize("postgres"),
+    n8n: summarize("n8n"),
+    ntfy: summarize("ntfy"),
+    fetcher: summarize("fetcher"),
+  };
+}
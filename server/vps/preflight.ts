@@ -1,66 +1,32 @@
-import { Client } from "ssh2";
 import type { PreflightResult } from "@shared/schema";
+import { withSession, type SSHConfig } from "./ssh";
+
+// Probes only read system state; anything slower than this is treated as hung
+const PROBE_TIMEOUT_MS = 30000;
+
+export async function runPreflightScan(config: SSHConfig, signal?: AbortSignal): Promise<PreflightResult> {
+  return withSession(config, async (ssh) => {
+    // Probes carry their own `|| echo` fallbacks, so what they print matters
+    // here rather than how they exit
+    const probe = async (command: string) => {
+      const { stdout, stderr } = await ssh.exec(command, { signal, timeoutMs: PROBE_TIMEOUT_MS });
+      return stdout || stderr;
+    };
 
-interface SSHConfig {
-  host: string;
-  username: string;
-  privateKey: string;
-}
-
-async function execCommand(client: Client, command: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    client.exec(command, (err, stream) => {
-      if (err) {
-        reject(err);
-        return;
-      }
-      let output = "";
-      let errorOutput = "";
-      stream.on("close", () => {
-        resolve(output || errorOutput);
-      });
-      stream.on("data", (data: Buffer) => {
-        output += data.toString();
-      });
-      stream.stderr.on("data", (data: Buffer) => {
-        errorOutput += data.toString();
-      });
-    });
-  });
-}
-
-export async function connectSSH(config: SSHConfig): Promise<Client> {
-  return new Promise((resolve, reject) => {
-    const client = new Client();
-    client.on("ready", () => resolve(client));
-    client.on("error", reject);
-    client.connect({
-      host: config.host,
-      port: 22,
-      username: config.username,
-      privateKey: config.privateKey,
-    });
-  });
-}
-
-export async function runPreflightScan(config: SSHConfig): Promise<PreflightResult> {
-  const client = await connectSSH(config);
-
-  try {
     // Get OS info
     const [distro, kernel, hostname] = await Promise.all([
-      execCommand(client, "cat /etc/os-release | grep PRETTY_NAME | cut -d= -f2 | tr -d '\"'"),
-      execCommand(client, "uname -r"),
-      execCommand(client, "hostname"),
+      probe("cat /etc/os-release | grep PRETTY_NAME | cut -d= -f2 | tr -d '\"'"),
+      probe("uname -r"),
+      probe("hostname"),
     ]);
 
     // Get listening ports
-    const portsRaw = await execCommand(client, "ss -tlnp 2>/dev/null || netstat -tlnp 2>/dev/null");
+    const portsRaw = await probe("ss -tlnp 2>/dev/null || netstat -tlnp 2>/dev/null");
     const ports = parseListeningPorts(portsRaw);
 
     // Check Docker
-    const dockerVersion = await execCommand(client, "docker --version 2>/dev/null || echo 'not installed'");
-    const dockerComposeVersion = await execCommand(client, "docker compose version 2>/dev/null || docker-compose --version 2>/dev/null || echo 'not installed'");
+    const dockerVersion = await probe("docker --version 2>/dev/null || echo 'not installed'");
+    const dockerComposeVersion = await probe("docker compose version 2>/dev/null || docker-compose --version 2>/dev/null || echo 'not installed'");
     const dockerInstalled = !dockerVersion.includes("not installed");
 
     let containers: Array<{ name: string; image: string; status: string; ports: string }> = [];
@@ -68,24 +34,24 @@ export async function runPreflightScan(config: SSHConfig): Promise<PreflightResu
     let volumes: string[] = [];
 
     if (dockerInstalled) {
-      const containersRaw = await execCommand(client, 'docker ps -a --format "{{.Names}}|{{.Image}}|{{.Status}}|{{.Ports}}"');
+      const containersRaw = await probe('docker ps -a --format "{{.Names}}|{{.Image}}|{{.Status}}|{{.Ports}}"');
       containers = containersRaw.trim().split("\n").filter(Boolean).map((line) => {
         const [name, image, status, ports] = line.split("|");
         return { name: name || "", image: image || "", status: status || "", ports: ports || "" };
       });
 
-      const networksRaw = await execCommand(client, "docker network ls --format '{{.Name}}'");
+      const networksRaw = await probe("docker network ls --format '{{.Name}}'");
       networks = networksRaw.trim().split("\n").filter(Boolean);
 
-      const volumesRaw = await execCommand(client, "docker volume ls --format '{{.Name}}'");
+      const volumesRaw = await probe("docker volume ls --format '{{.Name}}'");
       volumes = volumesRaw.trim().split("\n").filter(Boolean);
     }
 
     // Detect reverse proxy
     const [nginxCheck, caddyCheck, traefikCheck] = await Promise.all([
-      execCommand(client, "which nginx 2>/dev/null && nginx -t 2>&1 || docker ps --filter name=nginx --format '{{.Names}}' 2>/dev/null"),
-      execCommand(client, "which caddy 2>/dev/null || docker ps --filter name=caddy --format '{{.Names}}' 2>/dev/null"),
-      execCommand(client, "docker ps --filter name=traefik --format '{{.Names}}' 2>/dev/null"),
+      probe("which nginx 2>/dev/null && nginx -t 2>&1 || docker ps --filter name=nginx --format '{{.Names}}' 2>/dev/null"),
+      probe("which caddy 2>/dev/null || docker ps --filter name=caddy --format '{{.Names}}' 2>/dev/null"),
+      probe("docker ps --filter name=traefik --format '{{.Names}}' 2>/dev/null"),
     ]);
 
     let proxyType: "nginx" | "caddy" | "traefik" | "none" = "none";
@@ -112,8 +78,8 @@ export async function runPreflightScan(config: SSHConfig): Promise<PreflightResu
 
     // Get resources
     const [diskInfo, memInfo] = await Promise.all([
-      execCommand(client, "df -h / | tail -1 | awk '{print $4\"|\"$2}'"),
-      execCommand(client, "free -h | grep Mem | awk '{print $4\"|\"$2}'"),
+      probe("df -h / | tail -1 | awk '{print $4\"|\"$2}'"),
+      probe("free -h | grep Mem | awk '{print $4\"|\"$2}'"),
     ]);
 
     const [diskFree, diskTotal] = diskInfo.trim().split("|");
@@ -135,8 +101,8 @@ export async function runPreflightScan(config: SSHConfig): Promise<PreflightResu
     const warnings: string[] = [];
     if (port80Used) warnings.push("Port 80 is in use - will bind to localhost only");
     if (port443Used) warnings.push("Port 443 is in use - will bind to localhost only");
-    if (existingServices.n8n) warnings.push("n8n already exists - will use different container name");
-    if (existingServices.postgres) warnings.push("Postgres already exists - consider reusing");
+    if (existingServices.n8n) warnings.push("n8n already exists - reuse it or rename ours in the stack plan");
+    if (existingServices.postgres) warnings.push("Postgres already exists - it can be reused for n8n from the stack plan");
 
     // Generate proxy config snippet if needed
     let proxyConfigSnippet: string | undefined;
@@ -146,8 +112,6 @@ export async function runPreflightScan(config: SSHConfig): Promise<PreflightResu
       proxyConfigSnippet = generateCaddyConfig(safePorts);
     }
 
-    client.end();
-
     return {
       timestamp: new Date().toISOString(),
       osInfo: {
@@ -184,10 +148,7 @@ export async function runPreflightScan(config: SSHConfig): Promise<PreflightResu
         readyToDeploy: dockerInstalled,
       },
     };
-  } catch (error) {
-    client.end();
-    throw error;
-  }
+  });
 }
 
 function parseListeningPorts(raw: string): Array<{ port: number; protocol: string; process: string; state: string }> {
@@ -0,0 +1,301 @@
+import { setTimeout as sleep } from "timers/promises";
+import type { ServiceHealth, ServiceName, ServicesHealth, StackPlan, StackPorts } from "@shared/schema";
+import { shellQuote, type SSHSession } from "./ssh";
+import { serviceEndpoint, servicesInMode } from "./stack";
+import type { JobLogger } from "./jobs";
+
+const PROBE_TIMEOUT_MS = 15000;
+const FIRST_POLL_MS = 2000;
+const MAX_POLL_MS = 15000;
+
+// How long a deploy waits for the stack; the first build of the Playwright
+// image is the slow case
+export function readyDeadlineMs(): number {
+  return (parseInt(process.env.DEPLOY_READY_TIMEOUT_SECONDS ?? "", 10) || 300) * 1000;
+}
+
+export interface ContainerState {
+  service: string;
+  id: string;
+  state: string;
+  // "healthy", "starting", "unhealthy", or "" without a healthcheck
+  health: string;
+  exitCode: number | null;
+  restarts: number;
+  startedAt: string | null;
+  // Docker's own error for the container, or the output of the last failed
+  // healthcheck
+  error: string | null;
+}
+
+export class ReadinessTimeoutError extends Error {
+  constructor(
+    readonly waiting: ServiceName[],
+    readonly services: ServicesHealth,
+    readonly elapsedMs: number
+  ) {
+    super(
+      `Timed out after ${Math.round(elapsedMs / 1000)}s waiting for ${describeWaiting(waiting, services)}`
+    );
+    this.name = "ReadinessTimeoutError";
+  }
+}
+
+function describeWaiting(waiting: ServiceName[], services: ServicesHealth): string {
+  return waiting
+    .map((service) => {
+      const { state, health, mode } = services[service];
+      if (mode === "reuse") return `${service} (existing service not responding)`;
+      if (!state) return `${service} (no container)`;
+      if (state !== "running") return `${service} (${state})`;
+      if (health && health !== "healthy") return `${service} (${health})`;
+      return `${service} (endpoint not responding)`;
+    })
+    .join(", ");
+}
+
+function parseJsonRows(output: string): Record<string, unknown>[] {
+  const trimmed = output.trim();
+  if (!trimmed) return [];
+  try {
+    // `docker compose ps --format json` prints one object per line on recent
+    // Compose versions and a single array on older ones
+    return trimmed.startsWith("[")
+      ? JSON.parse(trimmed)
+      : trimmed
+          .split("\n")
+          .filter((line) => line.trim().startsWith("{"))
+          .map((line) => JSON.parse(line));
+  } catch {
+    return [];
+  }
+}
+
+export function parseComposePs(output: string): ContainerState[] {
+  return parseJsonRows(output).map((entry) => ({
+    service: String(entry.Service ?? entry.Name ?? ""),
+    id: String(entry.ID ?? ""),
+    state: String(entry.State ?? "").toLowerCase(),
+    health: String(entry.Health ?? "").toLowerCase(),
+    exitCode: typeof entry.ExitCode === "number" ? entry.ExitCode : null,
+    restarts: 0,
+    startedAt: null,
+    error: null,
+  }));
+}
+
+interface InspectedContainer {
+  Id?: string;
+  RestartCount?: number;
+  State?: {
+    StartedAt?: string;
+    ExitCode?: number;
+    Error?: string;
+    Health?: { Log?: { ExitCode?: number; Output?: string }[] };
+  };
+}
+
+// Fills in what `compose ps` doesn't report: restart count, start time and
+// errors. Containers missing from the inspect output keep their defaults.
+export function mergeInspect(containers: ContainerState[], output: string): ContainerState[] {
+  let inspected: InspectedContainer[];
+  try {
+    inspected = JSON.parse(output.trim() || "[]");
+  } catch {
+    return containers;
+  }
+
+  return containers.map((container) => {
+    const details = inspected.find((entry) => container.id && entry.Id?.startsWith(container.id));
+    if (!details) return container;
+    const state = details.State ?? {};
+    const failedCheck = [...(state.Health?.Log ?? [])].reverse().find((entry) => entry.ExitCode !== 0);
+    const error =
+      state.Error ||
+      (container.health === "unhealthy" && failedCheck?.Output?.trim()) ||
+      (container.state === "exited" && state.ExitCode ? `Exited with code ${state.ExitCode}` : null);
+    return {
+      ...container,
+      exitCode: state.ExitCode ?? container.exitCode,
+      restarts: details.RestartCount ?? 0,
+      // Docker reports never-started containers as starting in year 1
+      startedAt: state.StartedAt && !state.StartedAt.startsWith("0001-") ? state.StartedAt : null,
+      error: error || null,
+    };
+  });
+}
+
+async function inspectContainers(ssh: SSHSession, remoteDir: string, signal?: AbortSignal): Promise<ContainerState[]> {
+  const ps = await ssh.exec(`cd ${remoteDir} && docker compose ps --all --format json`, {
+    signal,
+    timeoutMs: PROBE_TIMEOUT_MS,
+  });
+  const containers = parseComposePs(ps.stdout);
+  const ids = containers.map((container) => container.id).filter(Boolean);
+  if (ids.length === 0) return containers;
+
+  const inspect = await ssh.exec(`docker inspect ${ids.join(" ")}`, { signal, timeoutMs: PROBE_TIMEOUT_MS });
+  return mergeInspect(containers, inspect.stdout);
+}
+
+// Each probe asks for the service's own notion of healthy; curl -f turns an
+// error status into a failure, which prints the fallback. Reused services are
+// probed where the plan says they are, skipped ones not at all.
+async function probeEndpoints(
+  ssh: SSHSession,
+  ports: StackPorts,
+  plan: StackPlan,
+  signal?: AbortSignal
+): Promise<Record<ServiceName, boolean>> {
+  const probe = async (service: ServiceName, command: string) =>
+    plan[service].mode === "skip" ? "" : (await ssh.exec(command, { signal, timeoutMs: PROBE_TIMEOUT_MS })).stdout;
+  const curl = (service: "n8n" | "ntfy" | "fetcher", path: string) =>
+    `curl -fsS --max-time 5 ${shellQuote(serviceEndpoint(plan, service, ports).url + path)} 2>/dev/null || echo 'failed'`;
+
+  const fetcher = await probe("fetcher", curl("fetcher", "/health"));
+  const ntfy = await probe("ntfy", curl("ntfy", "/v1/health"));
+  const n8n = await probe("n8n", curl("n8n", "/healthz"));
+  const postgres = await probe("postgres", postgresProbe(plan));
+
+  return {
+    postgres: postgres.includes("accepting connections"),
+    n8n: /"status"\s*:\s*"ok"/.test(n8n),
+    ntfy: /"healthy"\s*:\s*true/.test(ntfy),
+    fetcher: /"status"\s*:\s*"ok"/.test(fetcher),
+  };
+}
+
+// Ours and an existing container on a shared network are asked with
+// pg_isready; an existing Postgres elsewhere only has to accept a connection
+function postgresProbe(plan: StackPlan): string {
+  const external = plan.postgres.mode === "reuse" ? plan.postgres.external : null;
+  if (!external) {
+    return `docker exec ${plan.postgres.containerName} pg_isready -U rentalmonitor 2>/dev/null || echo 'failed'`;
+  }
+  if (external.network) {
+    return `docker exec ${external.host} pg_isready -p ${external.port} 2>/dev/null || echo 'failed'`;
+  }
+  return `timeout 5 bash -c '</dev/tcp/${external.host}/${external.port}' 2>/dev/null && echo 'accepting connections' || echo 'failed'`;
+}
+
+function serviceHealth(
+  service: ServiceName,
+  plan: StackPlan,
+  container: ContainerState | null,
+  endpointHealthy: boolean,
+  url?: string
+): ServiceHealth {
+  const { mode } = plan[service];
+  if (mode === "skip") {
+    return { running: false, healthy: false, mode, state: null, health: null, lastError: null };
+  }
+  // Not our container, so the endpoint is all there is to go on
+  if (mode === "reuse") {
+    return {
+      running: endpointHealthy,
+      healthy: endpointHealthy,
+      ...(url ? { url } : {}),
+      mode,
+      state: null,
+      health: null,
+      lastError: endpointHealthy ? null : `Existing ${service} is not responding`,
+    };
+  }
+
+  const running = container?.state === "running";
+  // Without a healthcheck a running container counts; the endpoint probe has
+  // the last word either way
+  const containerHealthy = running && (!container.health || container.health === "healthy");
+  const healthy = containerHealthy && endpointHealthy;
+
+  let lastError: string | null = null;
+  if (!container) lastError = "No container";
+  else if (container.error) lastError = container.error;
+  else if (!running) lastError = `Container is ${container.state}`;
+  else if (!containerHealthy) lastError = `Healthcheck is ${container.health}`;
+  else if (!endpointHealthy) lastError = `${service} is not answering its health endpoint`;
+
+  return {
+    running,
+    healthy,
+    ...(url ? { url } : {}),
+    mode,
+    state: container?.state ?? null,
+    health: container?.health || null,
+    restarts: container?.restarts ?? 0,
+    startedAt: container?.startedAt ?? null,
+    exitCode: container?.exitCode ?? null,
+    lastError,
+  };
+}
+
+// Health of each service of the stack, from its container and its endpoint
+export async function probeServices(
+  ssh: SSHSession,
+  remoteDir: string,
+  ports: StackPorts,
+  plan: StackPlan,
+  signal?: AbortSignal
+): Promise<ServicesHealth> {
+  const containers = servicesInMode(plan, "deploy").length > 0 ? await inspectContainers(ssh, remoteDir, signal) : [];
+  const endpoints = await probeEndpoints(ssh, ports, plan, signal);
+  const containerOf = (service: ServiceName) => containers.find((candidate) => candidate.service === service) ?? null;
+  const health = (service: ServiceName, url?: string) =>
+    serviceHealth(service, plan, containerOf(service), endpoints[service], url);
+
+  return {
+    postgres: health("postgres"),
+    n8n: health("n8n", serviceEndpoint(plan, "n8n", ports).url),
+    ntfy: health("ntfy", serviceEndpoint(plan, "ntfy", ports).url),
+    fetcher: health("fetcher", serviceEndpoint(plan, "fetcher", ports).url),
+  };
+}
+
+// Polls the containers' health states and the service endpoints with backoff
+// until every service the plan doesn't skip is ready or `deadlineMs` passes,
+// in which case it rejects with ReadinessTimeoutError naming the services
+// still waiting. Progress is logged only when the set of waiting services
+// changes.
+export async function waitForReady(
+  ssh: SSHSession,
+  remoteDir: string,
+  ports: StackPorts,
+  plan: StackPlan,
+  options: {
+    deadlineMs: number;
+    onLog?: JobLogger;
+    signal?: AbortSignal;
+    // Wait for these only, e.g. the one service an upgrade recreated
+    services?: ServiceName[];
+  }
+): Promise<{ services: ServicesHealth; elapsedMs: number; attempts: number }> {
+  const { deadlineMs, onLog = () => {}, signal } = options;
+  const awaited = options.services ?? servicesInMode(plan, "deploy", "reuse");
+  const startedAt = Date.now();
+  let delay = FIRST_POLL_MS;
+  let attempts = 0;
+  let lastSummary = "";
+
+  while (true) {
+    attempts++;
+    const services = await probeServices(ssh, remoteDir, ports, plan, signal);
+    const elapsedMs = Date.now() - startedAt;
+    const waiting = awaited.filter((service) => !services[service].healthy);
+    if (waiting.length === 0) {
+      return { services, elapsedMs, attempts };
+    }
+
+    const summary = describeWaiting(waiting, services);
+    if (summary !== lastSummary) {
+      onLog("info", `Waiting for ${summary} (${Math.round(elapsedMs / 1000)}s)`);
+      lastSummary = summary;
+    }
+
+    const remaining = deadlineMs - elapsedMs;
+    if (remaining <= 0) {
+      throw new ReadinessTimeoutError(waiting, services, elapsedMs);
+    }
+    await sleep(Math.min(delay, remaining), undefined, { signal });
+    delay = Math.min(Math.round(delay * 1.5), MAX_POLL_MS);
+  }
+}
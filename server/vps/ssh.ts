@@ -0,0 +1,413 @@
+import { Client, type AuthenticationType, type SFTPWrapper } from "ssh2";
+import type { Duplex } from "stream";
+
+export interface SSHConfig {
+  host: string;
+  port: number;
+  username: string;
+  // At least one of privateKey, agent and password is set; they are tried in
+  // that order
+  privateKey?: string;
+  passphrase?: string;
+  // ssh-agent socket path
+  agent?: string;
+  password?: string;
+  keepaliveInterval?: number;
+  readyTimeout?: number;
+  // Bastion to connect through first, like ProxyJump
+  jump?: SSHConfig;
+  // Rejects to refuse the server's host key (see hostkeys.ts)
+  verifyHostKey?: (key: Buffer) => Promise<void>;
+  // Sessions with the same key share one pooled connection; defaults to
+  // user@host:port
+  poolKey?: string;
+}
+
+export interface ExecResult {
+  stdout: string;
+  stderr: string;
+  // null when the command was killed by a signal (or the channel dropped)
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+}
+
+export interface ExecOptions {
+  // Called per complete line as output arrives
+  onOutput?: (stream: "stdout" | "stderr", line: string) => void;
+  // Aborting kills the remote command and rejects with the signal's reason
+  signal?: AbortSignal;
+  // Kills the remote command and rejects with ExecTimeoutError
+  timeoutMs?: number;
+}
+
+export interface UploadOptions {
+  // Permissions for the file, also applied when it already exists. Defaults
+  // to the server's umask; pass SECRET_FILE_MODE for anything holding secrets.
+  mode?: number;
+}
+
+// Readable and writable by the SSH user only
+export const SECRET_FILE_MODE = 0o600;
+
+export class ExecError extends Error {
+  constructor(
+    readonly command: string,
+    readonly result: ExecResult
+  ) {
+    const detail = (result.stderr.trim() || result.stdout.trim()).split("\n").slice(-3).join("\n");
+    const status = result.exitCode !== null ? `exited with ${result.exitCode}` : `was killed by ${result.signal ?? "a dropped channel"}`;
+    super(`\`${command}\` ${status}${detail ? `: ${detail}` : ""}`);
+    this.name = "ExecError";
+  }
+}
+
+export class ExecTimeoutError extends Error {
+  constructor(
+    readonly command: string,
+    readonly timeoutMs: number
+  ) {
+    super(`\`${command}\` timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "ExecTimeoutError";
+  }
+}
+
+// Pooled connections close after this long without a session using them
+const IDLE_CLOSE_MS = 60000;
+const KILL_GRACE_MS = 5000;
+const PID_PREFIX = "__rentalmonitor_pid=";
+// SFTP status code for a missing file
+const SFTP_NO_SUCH_FILE = 2;
+
+// Opens a channel from the bastion to the target's SSH port, which the target
+// connection then runs over
+function forwardThrough(jump: Client, config: SSHConfig): Promise<Duplex> {
+  return new Promise((resolve, reject) => {
+    jump.forwardOut("127.0.0.1", 0, config.host, config.port, (err, stream) => {
+      if (err) {
+        reject(new Error(`Jump host could not reach ${config.host}:${config.port}: ${err.message}`));
+        return;
+      }
+      resolve(stream);
+    });
+  });
+}
+
+// A dedicated (unpooled) connection, for callers that own its lifetime such as
+// tunnels. Connects to the jump host first when one is configured; the bastion
+// connection is closed together with the target one.
+export async function connectSSH(config: SSHConfig): Promise<Client> {
+  if (!config.jump) {
+    return handshake(config);
+  }
+
+  const jump = await connectSSH(config.jump);
+  try {
+    const client = await handshake(config, await forwardThrough(jump, config));
+    client.once("close", () => jump.end());
+    return client;
+  } catch (error) {
+    jump.end();
+    throw error;
+  }
+}
+
+function handshake(config: SSHConfig, sock?: Duplex): Promise<Client> {
+  const authHandler: AuthenticationType[] = [];
+  if (config.privateKey) authHandler.push("publickey");
+  if (config.agent) authHandler.push("agent");
+  if (config.password) authHandler.push("password");
+
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+    // ssh2 reports a refused host key as a generic handshake failure, so the
+    // verifier's own error is kept to be reported instead
+    let hostKeyError: Error | null = null;
+    const verifyHostKey = config.verifyHostKey;
+    client.on("ready", () => resolve(client));
+    client.on("error", (err) => reject(hostKeyError ?? err));
+    client.connect({
+      host: config.host,
+      port: config.port,
+      sock,
+      username: config.username,
+      privateKey: config.privateKey,
+      passphrase: config.passphrase,
+      agent: config.agent,
+      password: config.password,
+      authHandler,
+      keepaliveInterval: config.keepaliveInterval,
+      readyTimeout: config.readyTimeout,
+      hostVerifier:
+        verifyHostKey &&
+        ((key: Buffer, verify: (valid: boolean) => void) => {
+          verifyHostKey(key).then(
+            () => verify(true),
+            (err: Error) => {
+              hostKeyError = err;
+              verify(false);
+            }
+          );
+        }),
+    });
+  });
+}
+
+// Buffers chunked output and hands it on line by line; a trailing partial
+// line is held back until the rest arrives or the stream closes
+function lineSplitter(onLine: (line: string) => void) {
+  let pending = "";
+  return {
+    write(chunk: string) {
+      const lines = (pending + chunk).split(/\r?\n|\r/);
+      pending = lines.pop() ?? "";
+      lines.forEach(onLine);
+    },
+    flush() {
+      if (pending) onLine(pending);
+      pending = "";
+    },
+  };
+}
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// The command runs in its own session and reports its pid on stderr first, so
+// cancelling or a timeout can kill the whole process group (docker compose and
+// the builds it spawned) rather than just dropping the channel.
+function wrapKillable(command: string): string {
+  const script = shellQuote(`echo ${PID_PREFIX}$$ >&2; ${command}`);
+  return `if command -v setsid >/dev/null 2>&1; then exec setsid -w bash -c ${script}; else exec bash -c ${script}; fi`;
+}
+
+// Runs a command on an open connection. A non-zero exit is reported in the
+// result, not thrown; see SSHSession.run for that.
+export function execCommand(client: Client, command: string, options: ExecOptions = {}): Promise<ExecResult> {
+  const { onOutput, signal, timeoutMs } = options;
+  signal?.throwIfAborted();
+  const startedAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    client.exec(wrapKillable(command), (err, stream) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      let stdout = "";
+      let stderr = "";
+      let exitCode: number | null = null;
+      let exitSignal: string | null = null;
+      let pid: number | null = null;
+      let pidPending: string | null = "";
+      let stopReason: unknown = null;
+      const stdoutLines = lineSplitter((line) => onOutput?.("stdout", line));
+      const stderrLines = lineSplitter((line) => onOutput?.("stderr", line));
+
+      // Kill the remote process group and let the channel close by itself;
+      // if it lingers (or the pid never arrived) close it from our side
+      const stop = (reason: unknown) => {
+        if (stopReason) return;
+        stopReason = reason;
+        const grace = setTimeout(() => stream.close(), pid === null ? 0 : KILL_GRACE_MS);
+        stream.once("close", () => clearTimeout(grace));
+        if (pid !== null) {
+          client.exec(`kill -TERM -- -${pid} 2>/dev/null || kill -TERM ${pid}`, (killErr, killStream) => {
+            if (!killErr) killStream.resume();
+          });
+        }
+      };
+      const onAbort = () => stop(signal?.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const timer = timeoutMs ? setTimeout(() => stop(new ExecTimeoutError(command, timeoutMs)), timeoutMs) : null;
+
+      stream.on("exit", (code: number | null, signalName?: string) => {
+        exitCode = typeof code === "number" ? code : null;
+        exitSignal = signalName ?? null;
+      });
+      stream.on("close", () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (timer) clearTimeout(timer);
+        stdoutLines.flush();
+        stderrLines.flush();
+        if (stopReason) {
+          reject(stopReason);
+          return;
+        }
+        resolve({ stdout, stderr, exitCode, signal: exitSignal, durationMs: Date.now() - startedAt });
+      });
+      stream.on("data", (data: Buffer) => {
+        const text = data.toString();
+        stdout += text;
+        stdoutLines.write(text);
+      });
+      stream.stderr.on("data", (data: Buffer) => {
+        let text = data.toString();
+        // Peel the pid line off the front of stderr before anyone sees it
+        if (pidPending !== null) {
+          pidPending += text;
+          const newline = pidPending.indexOf("\n");
+          if (newline === -1) return;
+          const first = pidPending.slice(0, newline);
+          text = first.startsWith(PID_PREFIX) ? pidPending.slice(newline + 1) : pidPending;
+          if (first.startsWith(PID_PREFIX)) pid = parseInt(first.slice(PID_PREFIX.length), 10) || null;
+          pidPending = null;
+        }
+        stderr += text;
+        stderrLines.write(text);
+      });
+    });
+  });
+}
+
+function openSFTP(client: Client): Promise<SFTPWrapper> {
+  return new Promise((resolve, reject) => {
+    client.sftp((err, sftp) => (err ? reject(err) : resolve(sftp)));
+  });
+}
+
+// A borrowed pooled connection; only valid inside withSession's callback
+export class SSHSession {
+  constructor(readonly client: Client) {}
+
+  exec(command: string, options?: ExecOptions): Promise<ExecResult> {
+    return execCommand(this.client, command, options);
+  }
+
+  // Like exec, but a non-zero exit (or a kill) rejects with ExecError
+  async run(command: string, options?: ExecOptions): Promise<ExecResult> {
+    const result = await this.exec(command, options);
+    if (result.exitCode !== 0) {
+      throw new ExecError(command, result);
+    }
+    return result;
+  }
+
+  // The file's content, or null when it doesn't exist
+  async downloadFile(remotePath: string): Promise<string | null> {
+    const sftp = await openSFTP(this.client);
+    try {
+      return await new Promise<string | null>((resolve, reject) => {
+        sftp.readFile(remotePath, (err: (Error & { code?: number }) | null | undefined, data: Buffer) => {
+          if (err) {
+            if (err.code === SFTP_NO_SUCH_FILE) resolve(null);
+            else reject(err);
+            return;
+          }
+          resolve(data.toString());
+        });
+      });
+    } finally {
+      sftp.end();
+    }
+  }
+
+  // Copies a file of any size or content to this server
+  async fetchFile(remotePath: string, localPath: string): Promise<void> {
+    const sftp = await openSFTP(this.client);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        sftp.fastGet(remotePath, localPath, (err) => (err ? reject(err) : resolve()));
+      });
+    } finally {
+      sftp.end();
+    }
+  }
+
+  async uploadFile(content: string, remotePath: string, options: UploadOptions = {}): Promise<void> {
+    const { mode } = options;
+    const sftp = await openSFTP(this.client);
+    try {
+      // The mode only applies when the file is created, so an existing file
+      // is restricted before anything is written to it
+      if (mode !== undefined) {
+        await new Promise<void>((resolve, reject) => {
+          sftp.chmod(remotePath, mode, (err: (Error & { code?: number }) | null | undefined) => {
+            if (err && err.code !== SFTP_NO_SUCH_FILE) reject(err);
+            else resolve();
+          });
+        });
+      }
+      await new Promise<void>((resolve, reject) => {
+        const stream = sftp.createWriteStream(remotePath, mode !== undefined ? { mode } : undefined);
+        stream.on("close", () => resolve());
+        stream.on("error", reject);
+        stream.end(content);
+      });
+    } finally {
+      sftp.end();
+    }
+  }
+}
+
+interface PoolEntry {
+  connecting: Promise<Client>;
+  users: number;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+const pool = new Map<string, PoolEntry>();
+
+function poolKeyOf(config: SSHConfig): string {
+  return config.poolKey ?? `${config.username}@${config.host}:${config.port}`;
+}
+
+function acquire(config: SSHConfig): { key: string; entry: PoolEntry } {
+  const key = poolKeyOf(config);
+  let entry = pool.get(key);
+  if (!entry) {
+    const created: PoolEntry = { connecting: connectSSH(config), users: 0, idleTimer: null };
+    entry = created;
+    pool.set(key, created);
+    const forget = () => {
+      if (pool.get(key) === created) pool.delete(key);
+    };
+    created.connecting.then(
+      (client) => {
+        client.once("close", forget);
+        client.on("error", forget);
+      },
+      forget
+    );
+  }
+
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer);
+    entry.idleTimer = null;
+  }
+  entry.users++;
+  return { key, entry };
+}
+
+function release(key: string, entry: PoolEntry) {
+  entry.users--;
+  if (entry.users > 0 || pool.get(key) !== entry) return;
+  entry.idleTimer = setTimeout(() => closeSession(key), IDLE_CLOSE_MS);
+}
+
+// Runs `fn` with a connection to the host, reusing the pooled one when it is
+// still open. Concurrent callers share the connection (one channel each); it
+// is closed once it has been idle for a minute.
+export async function withSession<T>(config: SSHConfig, fn: (session: SSHSession) => Promise<T>): Promise<T> {
+  const { key, entry } = acquire(config);
+  try {
+    const client = await entry.connecting;
+    return await fn(new SSHSession(client));
+  } finally {
+    release(key, entry);
+  }
+}
+
+// Drops the pooled connection, e.g. after the host's address or credentials
+// changed. Sessions still using it see their commands fail.
+export function closeSession(key: string) {
+  const entry = pool.get(key);
+  if (!entry) return;
+  pool.delete(key);
+  if (entry.idleTimer) clearTimeout(entry.idleTimer);
+  entry.connecting.then(
+    (client) => client.end(),
+    () => {}
+  );
+}
@@ -0,0 +1,106 @@
+import {
+  serviceNames,
+  type ExternalPostgres,
+  type Host,
+  type ServiceName,
+  type StackPlan,
+  type StackPorts,
+  type StackService,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+// Image repositories of the services; the plan only chooses the tag. The
+// fetcher's is its Playwright base image.
+export const SERVICE_IMAGES: Record<ServiceName, string> = {
+  postgres: "postgres",
+  n8n: "n8nio/n8n",
+  ntfy: "binwiederhier/ntfy",
+  fetcher: "mcr.microsoft.com/playwright",
+};
+
+export function imageRef(plan: StackPlan, service: ServiceName): string {
+  return `${SERVICE_IMAGES[service]}:${plan[service].imageTag}`;
+}
+
+// What a deploy brings up when the host has no plan of its own: the whole
+// stack with the container names it has always used. Versions are pinned so a
+// rebuild never upgrades a service behind our back; upgrades go through
+// upgradeService.
+export function defaultStackPlan(): StackPlan {
+  const service = (imageTag: string, containerName: string): StackService => ({
+    mode: "deploy",
+    imageTag,
+    containerName,
+    memoryLimit: null,
+    cpuLimit: null,
+    url: null,
+  });
+  return {
+    postgres: { ...service("15-alpine", "rentalmonitor_postgres"), external: null },
+    n8n: service("1.64.3", "rentalmonitor_n8n"),
+    ntfy: service("v2.11.0", "rentalmonitor_ntfy"),
+    fetcher: service("v1.40.0-focal", "rentalmonitor_fetcher"),
+  };
+}
+
+// The plan the next deploy to the host uses
+export function hostStackPlan(host: Host): StackPlan {
+  return host.stackPlan ?? defaultStackPlan();
+}
+
+// The plan the stack now running on the host was deployed with, which health
+// checks and tunnels follow until the next deploy: the current release's, or
+// the host's own before the first release
+export async function deployedStackPlan(host: Host): Promise<StackPlan> {
+  const status = await storage.getDeploymentStatus(host.id);
+  const release = status?.releaseId ? await storage.getRelease(status.releaseId) : undefined;
+  if (!release) return hostStackPlan(host);
+  return release.plan ?? defaultStackPlan();
+}
+
+export function servicesInMode(plan: StackPlan, ...modes: StackService["mode"][]): ServiceName[] {
+  return serviceNames.filter((service) => modes.includes(plan[service].mode));
+}
+
+// The existing Postgres our n8n is wired to, if the plan deploys n8n on one
+export function reusedPostgres(plan: StackPlan): ExternalPostgres | null {
+  return plan.n8n.mode === "deploy" && plan.postgres.mode === "reuse" ? plan.postgres.external : null;
+}
+
+export interface ServiceEndpoint {
+  // As seen from the VPS
+  host: string;
+  port: number;
+  url: string;
+}
+
+// Where the VPS reaches an HTTP service: a reused one at its URL, ours on the
+// port it was published on
+export function serviceEndpoint(
+  plan: StackPlan,
+  service: "n8n" | "ntfy" | "fetcher",
+  ports: StackPorts
+): ServiceEndpoint {
+  const reusedUrl = plan[service].mode === "reuse" ? plan[service].url : null;
+  if (reusedUrl) {
+    const url = new URL(reusedUrl);
+    return {
+      host: url.hostname,
+      port: Number(url.port) || (url.protocol === "https:" ? 443 : 80),
+      url: reusedUrl.replace(/\/+$/, ""),
+    };
+  }
+  return { host: "127.0.0.1", port: ports[service], url: `http://127.0.0.1:${ports[service]}` };
+}
+
+// The ports our services listen on inside their containers
+const CONTAINER_PORTS = { n8n: 5678, ntfy: 80, fetcher: 3001 };
+
+// Where our n8n reaches an HTTP service: ours by its compose service name on
+// rentalmonitor_net, a reused one at its URL (which then has to be reachable
+// from inside the n8n container, not just from the VPS)
+export function containerServiceUrl(plan: StackPlan, service: "n8n" | "ntfy" | "fetcher"): string {
+  const reusedUrl = plan[service].mode === "reuse" ? plan[service].url : null;
+  if (reusedUrl) return reusedUrl.replace(/\/+$/, "");
+  return `http://${service}:${CONTAINER_PORTS[service]}`;
+}
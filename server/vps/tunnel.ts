@@ -0,0 +1,134 @@
+import net, { type AddressInfo } from "net";
+import type { Client } from "ssh2";
+import { connectSSH, type SSHConfig } from "./ssh";
+
+// Services on the VPS only listen on 127.0.0.1, so the control server reaches
+// them through a local TCP listener that forwards each socket over SSH.
+export interface Tunnel {
+  client: Client;
+  localPort: number;
+  remoteHost: string;
+  remotePort: number;
+  closed: boolean;
+  close(): void;
+}
+
+export async function openTunnel(
+  config: SSHConfig,
+  remotePort: number,
+  remoteHost = "127.0.0.1"
+): Promise<Tunnel> {
+  const client = await connectSSH(config);
+
+  const server = net.createServer((socket) => {
+    client.forwardOut(
+      socket.remoteAddress || "127.0.0.1",
+      socket.remotePort || 0,
+      remoteHost,
+      remotePort,
+      (err, stream) => {
+        if (err) {
+          socket.destroy(err);
+          return;
+        }
+        socket.pipe(stream).pipe(socket);
+        stream.on("error", () => socket.destroy());
+        socket.on("error", () => stream.destroy());
+      }
+    );
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => resolve());
+    });
+  } catch (error) {
+    client.end();
+    throw error;
+  }
+
+  const tunnel: Tunnel = {
+    client,
+    localPort: (server.address() as AddressInfo).port,
+    remoteHost,
+    remotePort,
+    closed: false,
+    close() {
+      if (tunnel.closed) return;
+      tunnel.closed = true;
+      server.close();
+      client.end();
+    },
+  };
+
+  client.on("close", () => tunnel.close());
+  client.on("error", () => tunnel.close());
+
+  return tunnel;
+}
+
+export interface TunnelLease<T> {
+  value: T;
+  // Drops this tunnel after a failure, so the next caller opens a new one
+  reset(): void;
+}
+
+// Tunnels kept open between requests, one per key (a host id). The cache holds
+// the open in progress, so requests made at the same moment share one tunnel
+// instead of each opening (and leaking) their own. `T` is the tunnel itself or
+// a value carrying it, such as a secret read through it.
+export interface TunnelCache<T> {
+  // The key's open tunnel if it still reaches `remote`, otherwise a new one
+  // from `open`
+  get(key: string, remote: { host: string; port: number }, open: () => Promise<T>): Promise<TunnelLease<T>>;
+  // Closes the key's tunnel, e.g. when its host is deleted or moved
+  reset(key: string): void;
+}
+
+function reaches(tunnel: Tunnel, remote: { host: string; port: number }): boolean {
+  return !tunnel.closed && tunnel.remoteHost === remote.host && tunnel.remotePort === remote.port;
+}
+
+export function createTunnelCache<T>(tunnelOf: (value: T) => Tunnel): TunnelCache<T> {
+  const entries = new Map<string, Promise<T>>();
+
+  // Drops the entry, unless it was replaced by a newer one meanwhile
+  const drop = (key: string, pending: Promise<T>) => {
+    if (entries.get(key) === pending) entries.delete(key);
+    pending.then(
+      (value) => tunnelOf(value).close(),
+      () => {}
+    );
+  };
+
+  const get: TunnelCache<T>["get"] = async (key, remote, open) => {
+    const pending = entries.get(key);
+    if (pending) {
+      const value = await pending.catch(() => null);
+      if (value !== null && reaches(tunnelOf(value), remote)) {
+        return { value, reset: () => drop(key, pending) };
+      }
+      // Another caller may have replaced it while we waited
+      if (entries.get(key) !== pending) return get(key, remote, open);
+      if (value !== null) tunnelOf(value).close();
+    }
+
+    // Everything from the check above to storing the new open happens without
+    // awaiting, so it's atomic
+    const opening = open();
+    entries.set(key, opening);
+    opening.catch(() => {
+      if (entries.get(key) === opening) entries.delete(key);
+    });
+    return { value: await opening, reset: () => drop(key, opening) };
+  };
+
+  return {
+    get,
+    reset(key) {
+      const pending = entries.get(key);
+      if (pending) drop(key, pending);
+    },
+  };
+}
@@ -1,5 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, boolean, integer, jsonb } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  timestamp,
+  boolean,
+  integer,
+  jsonb,
+  doublePrecision,
+  index,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -78,6 +89,198 @@ export const preflightResultSchema = z.object({
 
 export type PreflightResult = z.infer<typeof preflightResultSchema>;
 
+// A deploy, rollback or upgrade runs its steps in order and stops at the first
+// one that fails; the rest are reported as skipped. A rollback runs restore and
+// build, up and wait_healthy. An upgrade runs upload_compose, pull, recreate,
+// wait_healthy and snapshot, and revert only when one of those failed. A
+// deploy asked to seed n8n runs seed_workflows last.
+export const deployStepNames = [
+  "mkdir",
+  "upload_compose",
+  "upload_env",
+  "upload_fetcher",
+  "snapshot",
+  "restore",
+  "build",
+  "pull",
+  "up",
+  "recreate",
+  "wait_healthy",
+  "seed_workflows",
+  "revert",
+] as const;
+export const deployStepStatuses = ["pending", "running", "success", "error", "skipped"] as const;
+
+export const deployStepSchema = z.object({
+  name: z.enum(deployStepNames),
+  label: z.string(),
+  status: z.enum(deployStepStatuses),
+  // Exit code of the step's remote command; null for uploads and kills
+  exitCode: z.number().nullable(),
+  // Tail of the command output, or a summary of what the step did
+  output: z.string(),
+  durationMs: z.number().nullable(),
+});
+
+export type DeployStep = z.infer<typeof deployStepSchema>;
+
+// What a deploy would change, from a dry run against the files on the host
+export interface DeployPlanFile {
+  // Relative to /opt/rentalmonitor
+  path: string;
+  status: "added" | "changed" | "unchanged";
+  // Unified diff of the remote file against the generated one; empty for
+  // unchanged files and for the .env, whose secrets are never read
+  diff: string;
+}
+
+export interface DeployPlanService {
+  service: string;
+  // remove: the service is no longer in the stack plan
+  action: "create" | "recreate" | "rebuild" | "start" | "remove" | "unchanged";
+  reason: string;
+}
+
+export interface DeployPlan {
+  files: DeployPlanFile[];
+  services: DeployPlanService[];
+}
+
+// How each service of the stack is provided: deployed by us, an existing one
+// on the host reused, or left out
+export const stackServiceModes = ["deploy", "reuse", "skip"] as const;
+
+const envVarNameSchema = z.string().trim().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Must be an environment variable name");
+
+export const stackServiceSchema = z.object({
+  mode: z.enum(stackServiceModes),
+  // Image tag to run; for the fetcher, the tag of its Playwright base image
+  imageTag: z.string().trim().regex(/^\w[\w.-]{0,127}$/, "Invalid image tag"),
+  containerName: z
+    .string()
+    .trim()
+    .regex(/^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/, "Container names may only use letters, digits, _, . and -"),
+  // Compose mem_limit, e.g. "512m"; null for no limit
+  memoryLimit: z.string().trim().regex(/^\d+(\.\d+)?[bkmg]?$/i, "Memory limit must look like 512m or 2g").nullable(),
+  // Compose cpus, e.g. 0.5; null for no limit
+  cpuLimit: z.number().positive().max(64).nullable(),
+  // Where a reused service answers, as seen from the VPS, e.g.
+  // http://127.0.0.1:5678
+  url: z.string().trim().url().nullable(),
+});
+
+// An existing Postgres for n8n. The password stays on the host: passwordVar
+// names the variable in /opt/rentalmonitor/.env that holds it.
+export const externalPostgresSchema = z.object({
+  host: z.string().trim().regex(/^[\w.-]+$/, "Host must be a hostname, IP address or container name"),
+  port: z.number().int().min(1).max(65535),
+  database: z.string().trim().regex(/^[\w.-]+$/, "Database must be a plain name"),
+  user: z.string().trim().regex(/^[\w.-]+$/, "User must be a plain name"),
+  passwordVar: envVarNameSchema,
+  // Docker network of the existing container; n8n joins it and `host` is the
+  // container's name on it. Without one, `host` is reached from the VPS itself.
+  network: z.string().trim().regex(/^[\w.-]+$/, "Network must be a plain name").nullable(),
+});
+
+export const stackPlanSchema = z
+  .object({
+    postgres: stackServiceSchema.extend({ external: externalPostgresSchema.nullable() }),
+    n8n: stackServiceSchema,
+    ntfy: stackServiceSchema,
+    fetcher: stackServiceSchema,
+  })
+  .superRefine((plan, ctx) => {
+    const issue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    if (plan.postgres.mode === "reuse" && !plan.postgres.external) {
+      issue(["postgres", "external"], "A reused Postgres needs its connection details");
+    }
+    for (const service of ["n8n", "ntfy", "fetcher"] as const) {
+      if (plan[service].mode === "reuse" && !plan[service].url) {
+        issue([service, "url"], `A reused ${service} needs its URL`);
+      }
+    }
+    for (const service of ["postgres", "n8n", "ntfy"] as const) {
+      if (plan[service].mode === "deploy" && plan[service].imageTag === "latest") {
+        issue([service, "imageTag"], `Pin a ${service} version instead of latest`);
+      }
+    }
+    if (plan.n8n.mode === "deploy" && plan.postgres.mode === "skip") {
+      issue(["postgres", "mode"], "n8n needs Postgres: deploy or reuse one");
+    }
+
+    const deployed = (["postgres", "n8n", "ntfy", "fetcher"] as const).filter(
+      (service) => plan[service].mode === "deploy"
+    );
+    if (deployed.length === 0) {
+      issue([], "Deploy at least one service");
+    }
+    const names = deployed.map((service) => plan[service].containerName);
+    deployed.forEach((service, index) => {
+      if (names.indexOf(names[index]) !== index) {
+        issue([service, "containerName"], "Container names must be unique");
+      }
+    });
+  });
+
+// Services running a pulled image, which can be upgraded one at a time; the
+// fetcher is built on top of its base image by a deploy
+export const upgradableServices = ["postgres", "n8n", "ntfy"] as const;
+export type UpgradableService = (typeof upgradableServices)[number];
+
+export const upgradeServiceSchema = z.object({
+  imageTag: stackServiceSchema.shape.imageTag.refine((tag) => tag !== "latest", "Pin a version instead of latest"),
+});
+
+// A deployed service's configured image next to the one its container runs,
+// from `docker inspect` on the host
+export interface ServiceImage {
+  service: "postgres" | "n8n" | "ntfy" | "fetcher";
+  container: string;
+  // From the host's stack plan, e.g. n8nio/n8n:1.64.3; the fetcher's base image
+  configured: string;
+  // Repo digest of the configured tag on the host; null until it is pulled
+  configuredDigest: string | null;
+  // Reference the container was created from, and that image's digest
+  // (built images have none)
+  running: string | null;
+  runningDigest: string | null;
+  // current: the container runs the configured tag's image. outdated: the
+  // configured tag is on the host but the container runs another image.
+  // not_pulled: the configured tag isn't on the host yet. built: the fetcher,
+  // whose image is built locally and can't be compared.
+  status: "current" | "outdated" | "not_pulled" | "not_running" | "built";
+}
+
+export type StackService = z.infer<typeof stackServiceSchema>;
+export type ExternalPostgres = z.infer<typeof externalPostgresSchema>;
+export type StackPlan = z.infer<typeof stackPlanSchema>;
+
+// One service of the stack, from its container (`docker compose ps` and
+// `docker inspect`) and its endpoint probe. The container fields are missing
+// from statuses recorded before they existed.
+export const serviceHealthSchema = z.object({
+  running: z.boolean(),
+  // Running, passing its healthcheck (if it has one) and answering its probe
+  healthy: z.boolean(),
+  url: z.string().optional(),
+  // Container state: "running", "restarting", "exited", ...; null without a container
+  state: z.string().nullable().optional(),
+  // Healthcheck status: "healthy", "starting", "unhealthy"; null without a healthcheck
+  health: z.string().nullable().optional(),
+  restarts: z.number().optional(),
+  startedAt: z.string().nullable().optional(),
+  exitCode: z.number().nullable().optional(),
+  // Why the service is not healthy, when it isn't
+  lastError: z.string().nullable().optional(),
+  // How the stack plan provides the service; skipped services are not
+  // checked and don't count as down
+  mode: z.enum(stackServiceModes).optional(),
+});
+
+export type ServiceHealth = z.infer<typeof serviceHealthSchema>;
+
 // Deployment status types
 export const deploymentStatusSchema = z.object({
   status: z.enum(["idle", "scanning", "deploying", "success", "error"]),
@@ -85,15 +288,300 @@ export const deploymentStatusSchema = z.object({
   lastScan: z.string().optional(),
   lastDeploy: z.string().optional(),
   services: z.object({
-    postgres: z.object({ running: z.boolean(), healthy: z.boolean() }),
-    n8n: z.object({ running: z.boolean(), healthy: z.boolean(), url: z.string().optional() }),
-    ntfy: z.object({ running: z.boolean(), healthy: z.boolean(), url: z.string().optional() }),
-    fetcher: z.object({ running: z.boolean(), healthy: z.boolean(), url: z.string().optional() }),
+    postgres: serviceHealthSchema,
+    n8n: serviceHealthSchema,
+    ntfy: serviceHealthSchema,
+    fetcher: serviceHealthSchema,
   }).optional(),
+  // Step report of the current or last deploy
+  steps: z.array(deployStepSchema).optional(),
+  // The release running on the host, after a successful deploy or rollback
+  releaseId: z.string().optional(),
 });
 
 export type DeploymentStatus = z.infer<typeof deploymentStatusSchema>;
 
+// Host secrets have to live in SSH_* or VPS_* variables, so a host can't be
+// pointed at another secret of the server (the admin key, the database URL)
+// and have it sent to an SSH server of the user's choosing
+const SECRET_REF_PATTERN = /^(SSH|VPS)_[A-Za-z0-9_]+$/;
+
+export function isAllowedSecretRef(ref: string): boolean {
+  return SECRET_REF_PATTERN.test(ref);
+}
+
+// Names an SSH_* or VPS_* environment variable; empty clears the reference
+function secretRefSchema(label: string) {
+  return z
+    .string()
+    .trim()
+    .refine((value) => !value || isAllowedSecretRef(value), {
+      message: `${label} must be an environment variable starting with SSH_ or VPS_`,
+    })
+    .transform((value) => value || null)
+    .nullable()
+    .optional();
+}
+
+// VPS hosts managed from the dashboard. Credentials never land in the
+// database: keyRef, passphraseRef and passwordRef name the secrets
+// (environment variables) holding them.
+export const hosts = pgTable("hosts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  address: text("address").notNull(),
+  sshPort: integer("ssh_port").notNull().default(22),
+  username: text("username").notNull().default("root"),
+  // Authentication is tried with the key, then ssh-agent, then the password
+  keyRef: text("key_ref").default("VPS_SSH_PRIVATE_KEY"),
+  passphraseRef: text("passphrase_ref"),
+  useAgent: boolean("use_agent").notNull().default(false),
+  passwordRef: text("password_ref"),
+  keepaliveIntervalMs: integer("keepalive_interval_ms").notNull().default(15000),
+  readyTimeoutMs: integer("ready_timeout_ms").notNull().default(20000),
+  // Bastion reached first, like ProxyJump; it is a host of its own, with its
+  // own credentials and pinned key
+  jumpHostId: varchar("jump_host_id").references((): AnyPgColumn => hosts.id, { onDelete: "set null" }),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  // The host whose fetcher and ntfy the scheduler and alert channels use
+  primary: boolean("primary").notNull().default(false),
+  // SSH host key pinned on first connection (trust on first use); a later
+  // connection presenting a different key is refused until it is re-trusted
+  hostKeyType: text("host_key_type"),
+  hostKeyFingerprint: text("host_key_fingerprint"),
+  hostKeyPinnedAt: timestamp("host_key_pinned_at"),
+  // Which services the next deploy brings up and how (see stackPlanSchema);
+  // null deploys the whole stack with the defaults
+  stackPlan: jsonb("stack_plan").$type<StackPlan>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertHostSchema = createInsertSchema(hosts, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  address: (schema) => schema.trim().min(1, "Address is required"),
+  sshPort: z.number().int().min(1).max(65535).optional(),
+  username: z.string().trim().min(1).optional(),
+  keyRef: secretRefSchema("Key reference"),
+  passphraseRef: secretRefSchema("Passphrase reference"),
+  passwordRef: secretRefSchema("Password reference"),
+  keepaliveIntervalMs: z.number().int().min(0).max(600000).optional(),
+  readyTimeoutMs: z.number().int().min(1000).max(300000).optional(),
+  tags: z.array(z.string().trim().min(1).max(32)).max(20).optional(),
+}).omit({
+  id: true,
+  hostKeyType: true,
+  hostKeyFingerprint: true,
+  hostKeyPinnedAt: true,
+  stackPlan: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateHostSchema = insertHostSchema.partial();
+
+export type Host = typeof hosts.$inferSelect;
+export type InsertHost = z.infer<typeof insertHostSchema>;
+export type UpdateHost = z.infer<typeof updateHostSchema>;
+
+export interface HostKey {
+  type: string;
+  // OpenSSH style, e.g. "SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8"
+  fingerprint: string;
+}
+
+export const trustHostKeySchema = z.object({
+  fingerprint: z.string().trim().min(1, "Fingerprint is required"),
+});
+
+// Preflight, deploy, rollback, upgrade, backup, restore, n8n workflow export and
+// import, and health-check runs against a host are jobs; the job manager runs
+// at most one at a time per host
+export const jobKinds = [
+  "preflight",
+  "deploy",
+  "rollback",
+  "upgrade",
+  "backup",
+  "restore",
+  "workflow_export",
+  "workflow_import",
+  "health_check",
+] as const;
+export const jobStatuses = ["queued", "running", "success", "error", "cancelled"] as const;
+
+export interface Job {
+  id: string;
+  kind: (typeof jobKinds)[number];
+  hostId: string;
+  hostName: string;
+  status: (typeof jobStatuses)[number];
+  message: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+// One line of job output (e.g. deploy progress), streamed as it happens
+export interface JobLogLine {
+  seq: number;
+  stream: "info" | "stdout" | "stderr";
+  text: string;
+  at: string;
+}
+
+// Preflight scan history - one row per completed scan
+export const preflightScans = pgTable("preflight_scans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hostId: varchar("host_id").references(() => hosts.id, { onDelete: "cascade" }),
+  hostname: text("hostname").notNull(),
+  readyToDeploy: boolean("ready_to_deploy").notNull(),
+  result: jsonb("result").$type<PreflightResult>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type PreflightScan = typeof preflightScans.$inferSelect;
+
+// Deployment status transitions - the latest row is the current status
+export const deploymentStatusEvents = pgTable("deployment_status_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hostId: varchar("host_id").references(() => hosts.id, { onDelete: "cascade" }),
+  status: text("status").$type<DeploymentStatus["status"]>().notNull(),
+  message: text("message").notNull(),
+  snapshot: jsonb("snapshot").$type<DeploymentStatus>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type DeploymentStatusEvent = typeof deploymentStatusEvents.$inferSelect;
+
+export interface StackPorts {
+  postgres: number;
+  n8n: number;
+  ntfy: number;
+  fetcher: number;
+}
+
+// Every deploy snapshots the generated files (compose file, fetcher service,
+// README) into /opt/rentalmonitor/releases/<name> on the host; a rollback
+// copies them back and restarts the stack. The .env is not part of a release.
+export const releases = pgTable("releases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hostId: varchar("host_id").notNull().references(() => hosts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Ports baked into the release's compose file
+  ports: jsonb("ports").$type<StackPorts>().notNull(),
+  // Stack plan the release's files were generated from; null for releases
+  // made before plans existed, which deployed everything
+  plan: jsonb("plan").$type<StackPlan>(),
+  // Outcome of the deploy that created the release
+  status: text("status").$type<"success" | "error">().notNull(),
+  message: text("message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Last time a rollback restored it
+  restoredAt: timestamp("restored_at"),
+}, (table) => [
+  index("releases_host_id_idx").on(table.hostId),
+]);
+
+export type Release = typeof releases.$inferSelect;
+export type InsertRelease = typeof releases.$inferInsert;
+
+// `pre_restore` backups are taken automatically before a restore overwrites
+// the database
+export const backupTriggers = ["manual", "scheduled", "pre_restore"] as const;
+export type BackupTrigger = (typeof backupTriggers)[number];
+
+// pg_dump backups of the stack's Postgres, stored on the host in
+// /opt/rentalmonitor/backups/<name> (custom format, which is compressed). The
+// newest BACKUP_KEEP are kept there; copies downloaded to this server are
+// removed with them.
+export const backups = pgTable("backups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hostId: varchar("host_id").notNull().references(() => hosts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  sizeBytes: doublePrecision("size_bytes").notNull(),
+  trigger: text("trigger").$type<BackupTrigger>().notNull(),
+  // Copy downloaded over SFTP to BACKUP_DOWNLOAD_DIR, if any
+  localPath: text("local_path"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Last time it was restored
+  restoredAt: timestamp("restored_at"),
+}, (table) => [
+  index("backups_host_id_idx").on(table.hostId),
+]);
+
+export type Backup = typeof backups.$inferSelect;
+export type InsertBackup = typeof backups.$inferInsert;
+
+// A workflow as `n8n export:workflow` writes it; only the fields we read are
+// typed
+export type N8nWorkflow = { id: string; name: string; active?: boolean } & Record<string, unknown>;
+
+// n8n workflows exported from a host. Each export adds a version of the
+// workflows whose content changed since their previous version; `hash` covers
+// the content without n8n's timestamps and version id.
+export const workflowVersions = pgTable("workflow_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hostId: varchar("host_id").notNull().references(() => hosts.id, { onDelete: "cascade" }),
+  // The workflow's id in n8n
+  workflowId: text("workflow_id").notNull(),
+  name: text("name").notNull(),
+  // 1 for the first export of the workflow, counting up per host
+  version: integer("version").notNull(),
+  hash: text("hash").notNull(),
+  content: jsonb("content").$type<N8nWorkflow>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("workflow_versions_host_workflow_idx").on(table.hostId, table.workflowId),
+]);
+
+export type WorkflowVersion = typeof workflowVersions.$inferSelect;
+export type InsertWorkflowVersion = typeof workflowVersions.$inferInsert;
+export type WorkflowVersionSummary = Omit<WorkflowVersion, "content">;
+
+// A workflow's versions on one host, newest first
+export interface WorkflowHistory {
+  workflowId: string;
+  name: string;
+  versions: WorkflowVersionSummary[];
+}
+
+export type ServicesHealth = NonNullable<DeploymentStatus["services"]>;
+export type ServiceName = keyof ServicesHealth;
+export const serviceNames: ServiceName[] = ["postgres", "n8n", "ntfy", "fetcher"];
+
+// One row per health monitor check of a host. `services` is null when the
+// check itself failed (e.g. SSH unreachable); `error` says why.
+export const healthSamples = pgTable("health_samples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  hostId: varchar("host_id").notNull().references(() => hosts.id, { onDelete: "cascade" }),
+  services: jsonb("services").$type<ServicesHealth>(),
+  error: text("error"),
+  checkedAt: timestamp("checked_at").notNull().defaultNow(),
+}, (table) => [
+  index("health_samples_host_checked_at_idx").on(table.hostId, table.checkedAt),
+]);
+
+export type HealthSample = typeof healthSamples.$inferSelect;
+export type InsertHealthSample = typeof healthSamples.$inferInsert;
+
+export const uptimeWindows = ["24h", "7d"] as const;
+export type UptimeWindow = (typeof uptimeWindows)[number];
+
+// Share of a time bucket's samples in which a service was healthy
+export interface UptimeBucket {
+  start: string;
+  samples: number;
+  healthy: number;
+}
+
+export interface ServiceUptime {
+  // null without samples in the window
+  uptimePercent: number | null;
+  samples: number;
+  buckets: UptimeBucket[];
+}
+
 // Fetcher request/response types
 export const fetchRequestSchema = z.object({
   url: z.string().url(),
@@ -116,3 +604,273 @@ export const fetchResponseSchema = z.object({
 });
 
 export type FetchResponse = z.infer<typeof fetchResponseSchema>;
+
+// Extractor configuration - CSS selectors evaluated inside each item.
+// A selector may end in "@attr" to read an attribute instead of the text,
+// e.g. "a.listing-link@href" or "img@src".
+export const extractorConfigSchema = z.object({
+  type: z.enum(["css"]).default("css"),
+  itemSelector: z.string().trim().min(1, "Item selector is required"),
+  fields: z.object({
+    title: z.string().trim().optional(),
+    price: z.string().trim().optional(),
+    address: z.string().trim().optional(),
+    surface: z.string().trim().optional(),
+    rooms: z.string().trim().optional(),
+    url: z.string().trim().optional(),
+    image: z.string().trim().optional(),
+    furnished: z.string().trim().optional(),
+  }),
+});
+
+export type ExtractorConfig = z.infer<typeof extractorConfigSchema>;
+
+// A listing as parsed from a fetched page
+export const listingSchema = z.object({
+  title: z.string(),
+  url: z.string().nullable(),
+  price: z.number().nullable(),
+  priceText: z.string().nullable(),
+  address: z.string().nullable(),
+  surfaceM2: z.number().nullable(),
+  rooms: z.number().nullable(),
+  imageUrl: z.string().nullable(),
+  furnished: z.boolean().nullable(),
+});
+
+export type Listing = z.infer<typeof listingSchema>;
+
+export const ntfyTopicSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,64}$/, "Topic may only contain letters, digits, - and _");
+
+// Listing sources - rental sites we poll through the fetcher
+export const listingSources = pgTable("listing_sources", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  mode: text("mode").$type<FetchRequest["mode"]>().notNull().default("http"),
+  waitForSelector: text("wait_for_selector"),
+  pollIntervalMinutes: integer("poll_interval_minutes").notNull().default(15),
+  enabled: boolean("enabled").notNull().default(true),
+  ntfyTopic: text("ntfy_topic").notNull().default("strijps"),
+  extractorConfig: jsonb("extractor_config").$type<ExtractorConfig>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertListingSourceSchema = createInsertSchema(listingSources, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  url: z.string().url(),
+  mode: fetchRequestSchema.shape.mode.optional(),
+  waitForSelector: z.string().trim().min(1).nullish(),
+  pollIntervalMinutes: z.number().int().min(1).max(24 * 60).optional(),
+  ntfyTopic: ntfyTopicSchema.optional(),
+  extractorConfig: extractorConfigSchema.nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateListingSourceSchema = insertListingSourceSchema.partial();
+
+export type ListingSource = typeof listingSources.$inferSelect;
+export type InsertListingSource = z.infer<typeof insertListingSourceSchema>;
+export type UpdateListingSource = z.infer<typeof updateListingSourceSchema>;
+
+// Scheduler runs - one row per fetch of a listing source
+export const schedulerRuns = pgTable("scheduler_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceId: varchar("source_id").notNull().references(() => listingSources.id, { onDelete: "cascade" }),
+  trigger: text("trigger").$type<"schedule" | "manual">().notNull(),
+  status: text("status").$type<"running" | "success" | "error">().notNull().default("running"),
+  httpStatus: integer("http_status"),
+  durationMs: integer("duration_ms"),
+  listingCount: integer("listing_count"),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
+export type InsertSchedulerRun = typeof schedulerRuns.$inferInsert;
+
+// Tracked listings - one row per distinct listing, keyed by fingerprint
+export const listings = pgTable("listings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceId: varchar("source_id").notNull().references(() => listingSources.id, { onDelete: "cascade" }),
+  fingerprint: text("fingerprint").notNull().unique(),
+  title: text("title").notNull(),
+  url: text("url"),
+  price: doublePrecision("price"),
+  priceText: text("price_text"),
+  address: text("address"),
+  surfaceM2: doublePrecision("surface_m2"),
+  rooms: doublePrecision("rooms"),
+  imageUrl: text("image_url"),
+  furnished: boolean("furnished"),
+  status: text("status").$type<"new" | "changed" | "removed">().notNull().default("new"),
+  firstSeenAt: timestamp("first_seen_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+  lastChangedAt: timestamp("last_changed_at"),
+  removedAt: timestamp("removed_at"),
+}, (table) => [
+  index("listings_source_id_idx").on(table.sourceId),
+]);
+
+export type TrackedListing = typeof listings.$inferSelect;
+export type InsertTrackedListing = typeof listings.$inferInsert;
+
+// Price observations - a row is added whenever a listing's price changes
+export const listingPriceHistory = pgTable("listing_price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listingId: varchar("listing_id").notNull().references(() => listings.id, { onDelete: "cascade" }),
+  price: doublePrecision("price"),
+  priceText: text("price_text"),
+  observedAt: timestamp("observed_at").notNull().defaultNow(),
+});
+
+export type ListingPricePoint = typeof listingPriceHistory.$inferSelect;
+
+// Alert rules - per-person filters evaluated against new and changed listings.
+// Empty lists and null values mean "no restriction".
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  owner: text("owner").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  maxRent: doublePrecision("max_rent"),
+  minSurfaceM2: doublePrecision("min_surface_m2"),
+  minRooms: doublePrecision("min_rooms"),
+  cities: text("cities").array().notNull().default(sql`'{}'::text[]`),
+  postcodes: text("postcodes").array().notNull().default(sql`'{}'::text[]`),
+  includeKeywords: text("include_keywords").array().notNull().default(sql`'{}'::text[]`),
+  excludeKeywords: text("exclude_keywords").array().notNull().default(sql`'{}'::text[]`),
+  furnished: boolean("furnished"),
+  sourceIds: text("source_ids").array().notNull().default(sql`'{}'::text[]`),
+  // Empty means the ntfy topic of the listing's source
+  channelIds: text("channel_ids").array().notNull().default(sql`'{}'::text[]`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+const ruleTermsSchema = z.array(z.string().trim().min(1)).optional();
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  owner: (schema) => schema.trim().min(1, "Owner is required"),
+  maxRent: z.number().positive().nullish(),
+  minSurfaceM2: z.number().positive().nullish(),
+  minRooms: z.number().positive().nullish(),
+  cities: ruleTermsSchema,
+  postcodes: z.array(z.string().trim().regex(/^\d{4}\s?([A-Za-z]{2})?$/, "Postcodes look like 5617 or 5617 BD")).optional(),
+  includeKeywords: ruleTermsSchema,
+  excludeKeywords: ruleTermsSchema,
+  sourceIds: ruleTermsSchema,
+  channelIds: ruleTermsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateAlertRuleSchema = insertAlertRuleSchema.partial();
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type UpdateAlertRule = z.infer<typeof updateAlertRuleSchema>;
+
+// ntfy JSON publish body - see https://docs.ntfy.sh/publish/#publish-as-json
+export const ntfyActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("view"),
+    label: z.string().min(1),
+    url: z.string().url(),
+    clear: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal("http"),
+    label: z.string().min(1),
+    url: z.string().url(),
+    method: z.enum(["GET", "POST", "PUT", "DELETE"]).optional(),
+    headers: z.record(z.string()).optional(),
+    body: z.string().optional(),
+    clear: z.boolean().optional(),
+  }),
+]);
+
+export const ntfyMessageSchema = z.object({
+  topic: ntfyTopicSchema,
+  message: z.string().min(1).max(4096),
+  title: z.string().max(256).optional(),
+  priority: z.number().int().min(1).max(5).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  click: z.string().url().optional(),
+  attach: z.string().url().optional(),
+  actions: z.array(ntfyActionSchema).max(3).optional(),
+});
+
+export type NtfyAction = z.infer<typeof ntfyActionSchema>;
+export type NtfyMessage = z.infer<typeof ntfyMessageSchema>;
+
+// Notification channels - where alerts are delivered. Credentials (SMTP,
+// Telegram bot token) come from secrets; the config only holds the recipient.
+export const notificationChannelConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ntfy"), topic: ntfyTopicSchema }),
+  z.object({ type: z.literal("email"), to: z.string().email() }),
+  z.object({ type: z.literal("telegram"), chatId: z.string().trim().min(1) }),
+  z.object({ type: z.literal("webhook"), url: z.string().url() }),
+]);
+
+export type NotificationChannelConfig = z.infer<typeof notificationChannelConfigSchema>;
+
+export const notificationChannels = pgTable("notification_channels", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  config: jsonb("config").$type<NotificationChannelConfig>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  // {{field}} templates rendered from the listing; null uses the default
+  titleTemplate: text("title_template"),
+  messageTemplate: text("message_template"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertNotificationChannelSchema = createInsertSchema(notificationChannels, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  config: notificationChannelConfigSchema,
+  titleTemplate: z.string().trim().min(1).max(256).nullish(),
+  messageTemplate: z.string().trim().min(1).max(4096).nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateNotificationChannelSchema = insertNotificationChannelSchema.partial();
+
+export type NotificationChannel = typeof notificationChannels.$inferSelect;
+export type InsertNotificationChannel = z.infer<typeof insertNotificationChannelSchema>;
+export type UpdateNotificationChannel = z.infer<typeof updateNotificationChannelSchema>;
+
+// Notification deliveries - one row per publish attempt, including the ones
+// dropped by rate limiting
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").$type<NotificationChannelConfig["type"]>().notNull().default("ntfy"),
+  channelId: varchar("channel_id").references(() => notificationChannels.id, { onDelete: "set null" }),
+  target: text("target").notNull(),
+  title: text("title"),
+  message: text("message").notNull(),
+  status: text("status").$type<"sent" | "failed" | "rate_limited">().notNull(),
+  error: text("error"),
+  listingId: varchar("listing_id").references(() => listings.id, { onDelete: "set null" }),
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("notification_deliveries_created_at_idx").on(table.createdAt),
+]);
+
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type InsertNotificationDelivery = typeof notificationDeliveries.$inferInsert;